@@ -2,6 +2,7 @@
 const nextConfig = {
   experimental: {
     appDir: true,
+    instrumentationHook: true, // Starts the reassessment scheduler (src/instrumentation.ts)
   },
   env: {
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
@@ -0,0 +1,66 @@
+// assessManifest.ts - Assess an AI system manifest in CI and fail the build when its risk is above the gate
+// Usage: npm run assess-manifest -- <manifest.yaml> [--max-overall-score N] [--max-risk-score N] [--json]
+// Exit codes: 0 gate passed (or none configured), 1 gate failed, 2 unreadable or invalid manifest
+
+import fs from 'fs'
+import path from 'path'
+import { ManifestGate, assessManifest, formatManifestReport, parseManifest } from '../src/utils/manifestAssessment'
+
+const USAGE = 'Usage: npm run assess-manifest -- <manifest.yaml> [--max-overall-score N] [--max-risk-score N] [--json]'
+
+function parseArgs(args: string[]): { file?: string, gate: ManifestGate, json: boolean, error?: string } {
+  const gate: ManifestGate = {}
+  let file: string | undefined
+  let json = false
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--json') {
+      json = true
+    } else if (arg === '--max-overall-score' || arg === '--max-risk-score') {
+      const limit = Number(args[++i])
+      if (!Number.isInteger(limit) || limit < 20 || limit > 80) return { gate, json, error: `${arg} must be a whole number from 20 to 80` }
+      if (arg === '--max-overall-score') gate.maxOverallScore = limit
+      else gate.maxRiskScore = limit
+    } else if (arg.startsWith('--') || file) {
+      return { gate, json, error: `Unexpected argument ${arg}` }
+    } else {
+      file = arg
+    }
+  }
+  return { file, gate, json, error: file ? undefined : 'Manifest file is required' }
+}
+
+function main(): number {
+  const args = parseArgs(process.argv.slice(2))
+  if (args.error) {
+    console.error(`${args.error}\n${USAGE}`)
+    return 2
+  }
+
+  // npm runs scripts from apps/web; the manifest path is relative to where npm was invoked
+  const manifestPath = path.resolve(process.env.INIT_CWD || process.cwd(), args.file!)
+  let source: string
+  try {
+    source = fs.readFileSync(manifestPath, 'utf8')
+  } catch (error) {
+    console.error(`Cannot read ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`)
+    return 2
+  }
+
+  // Scoring rules and framework data are read from apps/web/data
+  process.chdir(path.resolve(__dirname, '..', '..'))
+
+  const { manifest, error, fieldErrors } = parseManifest(source)
+  if (!manifest) {
+    console.error(`${manifestPath}: ${error}`)
+    Object.entries(fieldErrors).forEach(([field, message]) => console.error(`  ${field}: ${message}`))
+    return 2
+  }
+
+  const report = assessManifest(manifest, args.gate)
+  console.log(args.json ? JSON.stringify(report, null, 2) : formatManifestReport(report))
+  return report.gate.passed ? 0 : 1
+}
+
+process.exitCode = main()
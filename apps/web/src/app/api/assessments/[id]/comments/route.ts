@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addReviewComment, getReview } from '../../../../../utils/assessmentStore'
+import { authorize, getViewableAssessment, toReviewActor } from '../../../../../utils/auth'
+import { ReviewTarget, validateReviewTarget } from '../../../../../utils/assessmentReview'
+
+// POST /api/assessments/:id/comments - { target?, body }; anyone who can see the assessment may comment as themselves
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const stored = getViewableAssessment(auth.user, params.id)
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Assessment not found' },
+        { status: 404 }
+      )
+    }
+
+    const fieldErrors: Record<string, string> = {}
+    if (typeof body.body !== 'string' || !body.body.trim()) {
+      fieldErrors.body = 'Comment text is required'
+    }
+    const targetError = validateReviewTarget(body.target, stored.assessment)
+    if (targetError) {
+      fieldErrors.target = targetError
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid comment', fieldErrors },
+        { status: 400 }
+      )
+    }
+    if (getReview(stored).status === 'superseded') {
+      return NextResponse.json(
+        { error: 'Superseded assessments can no longer be commented on' },
+        { status: 409 }
+      )
+    }
+
+    const target: ReviewTarget = !body.target || body.target.type === 'general'
+      ? { type: 'general' }
+      : body.target.type === 'control'
+        ? { type: 'control', questionId: body.target.questionId }
+        : { type: 'score', risk: body.target.risk }
+    const result = addReviewComment(params.id, toReviewActor(auth.user), target, body.body.trim())
+
+    return NextResponse.json({ comment: result!.comment, review: getReview(result!.stored) }, { status: 201 })
+
+  } catch (error) {
+    console.error('Review comment error:', error)
+    return NextResponse.json(
+      { error: 'Failed to add comment' },
+      { status: 500 }
+    )
+  }
+}
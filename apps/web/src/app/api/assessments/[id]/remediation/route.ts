@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize, canViewEvidenceFile, getViewableAssessment } from '../../../../../utils/auth'
+import { createRemediationItem, findRemediationItem, listRemediationItems } from '../../../../../utils/remediationStore'
+import { findMissingEvidenceFile } from '../../../../../utils/evidenceStore'
+import { RemediationSource, describeSource, parseRemediationUpdate } from '../../../../../utils/remediation'
+
+// GET /api/assessments/:id/remediation - remediation items raised from this assessment
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    if (!getViewableAssessment(auth.user, params.id)) {
+      return NextResponse.json(
+        { error: 'Assessment not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ items: listRemediationItems(params.id) })
+
+  } catch (error) {
+    console.error('Remediation loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load remediation items' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/assessments/:id/remediation - track a control gap or recommended mitigation
+// { source: { type: 'control', questionId } | { type: 'mitigation', riskId, mitigationId }, owner?, dueDate?, status?, evidence? }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request, 'remediation:manage')
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const stored = getViewableAssessment(auth.user, params.id)
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Assessment not found' },
+        { status: 404 }
+      )
+    }
+
+    const source: RemediationSource = body.source?.type === 'control'
+      ? { type: 'control', questionId: body.source.questionId }
+      : { type: 'mitigation', riskId: body.source?.riskId, mitigationId: body.source?.mitigationId }
+    const title = describeSource(source, stored.assessment)
+    const { update, fieldErrors } = parseRemediationUpdate(body)
+    if (!title) {
+      fieldErrors.source = 'Source must be a control gap or recommended mitigation of this assessment'
+    }
+    const missingFile = update.evidence && findMissingEvidenceFile(update.evidence, file => canViewEvidenceFile(auth.user, file))
+    if (missingFile) {
+      fieldErrors.evidence = missingFile
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid remediation item', fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const existing = findRemediationItem(params.id, source)
+    if (existing) {
+      return NextResponse.json(
+        { error: 'This item is already tracked', item: existing },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ item: createRemediationItem(params.id, source, title!, update) }, { status: 201 })
+
+  } catch (error) {
+    console.error('Remediation creation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create remediation item' },
+      { status: 500 }
+    )
+  }
+}
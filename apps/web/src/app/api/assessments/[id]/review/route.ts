@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReview, reviewAssessment } from '../../../../../utils/assessmentStore'
+import { authorize, forbidden, getViewableAssessment, toReviewActor } from '../../../../../utils/auth'
+import { hasPermission, isAssessmentOwner } from '../../../../../utils/permissions'
+import { ReviewAction, getAvailableActions, reviewActions } from '../../../../../utils/assessmentReview'
+import { emitWebhookEvent } from '../../../../../utils/webhookDispatcher'
+
+// GET /api/assessments/:id/review - review status, history, comments and the actions allowed next
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const stored = getViewableAssessment(auth.user, params.id)
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Assessment not found' },
+        { status: 404 }
+      )
+    }
+
+    const review = getReview(stored)
+    const canReview = hasPermission(auth.user, 'assessments:review') && !isAssessmentOwner(auth.user, stored)
+    return NextResponse.json({ review, availableActions: canReview ? getAvailableActions(review.status) : [] })
+
+  } catch (error) {
+    console.error('Review loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load review' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/assessments/:id/review - { action, note? }; the signed-in reviewer is recorded
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request, 'assessments:review')
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const fieldErrors: Record<string, string> = {}
+    if (!Object.keys(reviewActions).includes(body.action)) {
+      fieldErrors.action = `action must be one of ${Object.keys(reviewActions).join(', ')}`
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid review action', fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const stored = getViewableAssessment(auth.user, params.id)
+    if (stored && isAssessmentOwner(auth.user, stored)) {
+      return forbidden('You cannot review your own assessment')
+    }
+    const result = stored && reviewAssessment(stored.id, body.action as ReviewAction, toReviewActor(auth.user), typeof body.note === 'string' ? body.note : undefined)
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Assessment not found' },
+        { status: 404 }
+      )
+    }
+    if (!result.stored) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 409 }
+      )
+    }
+
+    const review = getReview(result.stored)
+    if (review.status === 'approved' && review.decision) {
+      const { status, actor, note } = review.decision
+      emitWebhookEvent('assessment.approved', result.stored, { review: { status, actor: actor && { name: actor.name, email: actor.email }, note } })
+    }
+    return NextResponse.json({ review, availableActions: getAvailableActions(review.status) })
+
+  } catch (error) {
+    console.error('Review action error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update review' },
+      { status: 500 }
+    )
+  }
+}
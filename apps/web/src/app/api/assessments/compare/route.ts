@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize, getViewableAssessment } from '../../../../utils/auth'
+import { diffAssessments } from '../../../../utils/assessmentDiff'
+
+// GET /api/assessments/compare?from=<earlier id>&to=<later id>
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const fromId = request.nextUrl.searchParams.get('from')
+    const toId = request.nextUrl.searchParams.get('to')
+    if (!fromId || !toId) {
+      return NextResponse.json(
+        { error: 'Both "from" and "to" assessment IDs are required' },
+        { status: 400 }
+      )
+    }
+
+    const before = getViewableAssessment(auth.user, fromId)
+    const after = getViewableAssessment(auth.user, toId)
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: `Assessment not found: ${!before ? fromId : toId}` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      diff: diffAssessments(before, after),
+      before: before.assessment,
+      after: after.assessment
+    })
+
+  } catch (error) {
+    console.error('Assessment comparison error:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare assessments' },
+      { status: 500 }
+    )
+  }
+}
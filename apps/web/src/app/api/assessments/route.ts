@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listAssessments, summarizeAssessment } from '../../../utils/assessmentStore'
+import { getOrganizationId } from '../../../utils/organization'
+import { ReviewStatus, reviewStatusLabels } from '../../../utils/assessmentReview'
+import { authorize } from '../../../utils/auth'
+import { canViewAssessment } from '../../../utils/permissions'
+
+// GET /api/assessments?product=<product name>&status=<review status>&stale=true|false - only assessments the user can see
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const product = request.nextUrl.searchParams.get('product') || undefined
+    const status = request.nextUrl.searchParams.get('status') || undefined
+    const stale = request.nextUrl.searchParams.get('stale')
+    if (status && !Object.keys(reviewStatusLabels).includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${Object.keys(reviewStatusLabels).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const assessments = listAssessments({
+      orgId: getOrganizationId(auth.user),
+      product,
+      reviewStatus: status as ReviewStatus | undefined,
+      stale: stale === null ? undefined : stale === 'true'
+    }).filter(stored => canViewAssessment(auth.user, stored)).map(summarizeAssessment)
+
+    return NextResponse.json({ assessments })
+
+  } catch (error) {
+    console.error('Assessment listing error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load assessments' },
+      { status: 500 }
+    )
+  }
+}
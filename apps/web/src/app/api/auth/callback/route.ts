@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getIdentityProvider } from '../../../../utils/identityProvider'
+import { OIDC_STATE_COOKIE, getCallbackUrl, setSessionCookie, verifyPayload } from '../../../../utils/session'
+
+interface OidcLoginState {
+  state: string
+  codeVerifier: string
+  returnTo: string
+}
+
+function loginFailed(request: NextRequest, reason: string): NextResponse {
+  const url = new URL('/login', request.url)
+  url.searchParams.set('error', reason)
+  const response = NextResponse.redirect(url)
+  response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth', maxAge: 0 })
+  return response
+}
+
+// GET /api/auth/callback?code=&state= - the identity provider sends the user back here after sign-in
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getIdentityProvider()
+    const { searchParams } = request.nextUrl
+    const saved = verifyPayload<OidcLoginState>(request.cookies.get(OIDC_STATE_COOKIE)?.value)
+    const code = searchParams.get('code')
+
+    if (provider.name !== 'oidc') return loginFailed(request, 'Single sign-on is not enabled')
+    if (searchParams.get('error')) return loginFailed(request, searchParams.get('error_description') || searchParams.get('error') || 'Sign-in was cancelled')
+    if (!saved || !code || saved.state !== searchParams.get('state')) return loginFailed(request, 'Sign-in expired, please try again')
+
+    const user = await provider.completeLogin({ code, codeVerifier: saved.codeVerifier, redirectUri: getCallbackUrl(request) })
+    const response = NextResponse.redirect(new URL(saved.returnTo, request.url))
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth', maxAge: 0 })
+    return setSessionCookie(response, user)
+
+  } catch (error) {
+    console.error('Single sign-on callback error:', error)
+    return loginFailed(request, 'Single sign-on failed')
+  }
+}
@@ -0,0 +1,68 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getIdentityProvider } from '../../../../utils/identityProvider'
+import { OIDC_STATE_COOKIE, OIDC_STATE_SECONDS, getCallbackUrl, getReturnTo, setSessionCookie, signPayload } from '../../../../utils/session'
+
+// POST /api/auth/login - { email, password } for local sign-in
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getIdentityProvider()
+    if (provider.name !== 'local') {
+      return NextResponse.json(
+        { error: 'Password sign-in is disabled; use single sign-on' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const user = provider.verifyPassword(body.email, body.password)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Email or password is incorrect' },
+        { status: 401 }
+      )
+    }
+
+    return setSessionCookie(NextResponse.json({ user }), user)
+
+  } catch (error) {
+    console.error('Sign-in error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET /api/auth/login?returnTo=/path - start single sign-on; the PKCE verifier waits in a short-lived signed cookie
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getIdentityProvider()
+    if (provider.name !== 'oidc') {
+      return NextResponse.redirect(new URL('/login', request.url))
+    }
+
+    const state = crypto.randomBytes(16).toString('base64url')
+    const codeVerifier = crypto.randomBytes(32).toString('base64url')
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url')
+    const returnTo = getReturnTo(request.nextUrl.searchParams.get('returnTo'))
+
+    const url = await provider.getAuthorizationUrl({ state, codeChallenge, redirectUri: getCallbackUrl(request) })
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_STATE_COOKIE, signPayload({ state, codeVerifier, returnTo }, OIDC_STATE_SECONDS), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/auth',
+      maxAge: OIDC_STATE_SECONDS
+    })
+    return response
+
+  } catch (error) {
+    console.error('Single sign-on error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start single sign-on' },
+      { status: 500 }
+    )
+  }
+}
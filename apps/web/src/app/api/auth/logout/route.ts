@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { clearSessionCookie } from '../../../../utils/session'
+
+// POST /api/auth/logout - end the session; with single sign-on the identity provider session is left alone
+export async function POST() {
+  return clearSessionCookie(NextResponse.json({ success: true }))
+}
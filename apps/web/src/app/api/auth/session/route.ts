@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '../../../../utils/auth'
+import { getIdentityProviderName } from '../../../../utils/identityProvider'
+
+// GET /api/auth/session - the signed-in user, or 401 with the configured provider so the login page knows which form to show
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getIdentityProviderName()
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Sign in required', provider },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({ user, provider })
+
+  } catch (error) {
+    console.error('Session loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    )
+  }
+}
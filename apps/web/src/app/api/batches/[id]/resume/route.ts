@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize, forbidden } from '../../../../../utils/auth'
+import { isSameOrganization } from '../../../../../utils/permissions'
+import { getBatch, toBatchView } from '../../../../../utils/batchStore'
+import { startBatch } from '../../../../../utils/batchRunner'
+import { canResumeBatch, getBatchStatus, summarizeBatch } from '../../../../../utils/batch'
+
+// Continues an interrupted batch from its unfinished rows, or retries the failed rows of a completed one
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request, 'assessments:create')
+    if (auth.response) return auth.response
+
+    const batch = getBatch(params.id)
+    if (!batch || !isSameOrganization(auth.user, batch)) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      )
+    }
+    if (batch.ownerId !== auth.user.id) {
+      return forbidden('Only the user who uploaded the batch can resume it')
+    }
+    if (!canResumeBatch(batch) || !startBatch(batch.id)) {
+      return NextResponse.json(
+        { error: getBatchStatus(batch) === 'running' ? 'Batch is still running' : 'Batch has no unfinished or failed rows' },
+        { status: 409 }
+      )
+    }
+
+    const resumed = getBatch(batch.id)!
+    return NextResponse.json({ batch: toBatchView(resumed), summary: summarizeBatch(resumed) }, { status: 202 })
+
+  } catch (error) {
+    console.error('Batch resume error:', error)
+    return NextResponse.json(
+      { error: 'Failed to resume batch' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '../../../../utils/auth'
+import { canViewAssessment } from '../../../../utils/permissions'
+import { getBatch, toBatchView } from '../../../../utils/batchStore'
+import { canResumeBatch, summarizeBatch } from '../../../../utils/batch'
+
+// Polled by the batch page while rows are running
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const batch = getBatch(params.id)
+    if (!batch || !canViewAssessment(auth.user, batch)) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      batch: toBatchView(batch),
+      summary: summarizeBatch(batch),
+      canResume: batch.ownerId === auth.user.id && canResumeBatch(batch)
+    })
+
+  } catch (error) {
+    console.error('Batch loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load batch' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '../../../utils/auth'
+import { canViewAssessment } from '../../../utils/permissions'
+import { getOrganizationId } from '../../../utils/organization'
+import { BatchFormat, parseBatchInput } from '../../../utils/batchInput'
+import { createBatch, getBatch, listBatches, toBatchView } from '../../../utils/batchStore'
+import { startBatch } from '../../../utils/batchRunner'
+import { summarizeBatch } from '../../../utils/batch'
+import { isOfflineMode } from '../../../utils/offlineAnalysis'
+import { getLLMConfigError } from '../../../utils/llmProvider'
+
+// GET /api/batches - batches the user uploaded, or every batch in the organization for roles that see all assessments
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const batches = listBatches({ orgId: getOrganizationId(auth.user) })
+      .filter(batch => canViewAssessment(auth.user, batch))
+      .map(batch => {
+        const { rows, ...view } = toBatchView(batch)
+        return { ...view, summary: summarizeBatch(batch) }
+      })
+
+    return NextResponse.json({ batches })
+
+  } catch (error) {
+    console.error('Batch listing error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load batches' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/batches with { content, format?, fileName?, offline? } - content is the uploaded CSV or JSON text
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authorize(request, 'assessments:create')
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    if (typeof body.content !== 'string') {
+      return NextResponse.json({ error: 'content must be the text of a CSV or JSON file' }, { status: 400 })
+    }
+    if (body.format !== undefined && body.format !== 'csv' && body.format !== 'json') {
+      return NextResponse.json({ error: 'format must be csv or json' }, { status: 400 })
+    }
+
+    const { rows, error } = parseBatchInput(body.content, body.format as BatchFormat | undefined)
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const offline = isOfflineMode(body.offline)
+    const llmConfigError = offline ? null : getLLMConfigError()
+    if (llmConfigError) {
+      return NextResponse.json({ error: llmConfigError }, { status: 500 })
+    }
+
+    const batch = createBatch(rows!, auth.user, offline, typeof body.fileName === 'string' ? body.fileName : undefined)
+    startBatch(batch.id)
+
+    const started = getBatch(batch.id)!
+    return NextResponse.json({ batch: toBatchView(started), summary: summarizeBatch(started) }, { status: 202 })
+
+  } catch (error) {
+    console.error('Batch creation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start batch' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { updateDraft } from '../../../../utils/draftStore'
+import { authorize, canViewEvidenceFile, getEditableDraft } from '../../../../utils/auth'
+import { findMissingAnswerEvidenceFiles } from '../../../../utils/evidenceStore'
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const draft = getEditableDraft(auth.user, params.id)
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ draft })
+
+  } catch (error) {
+    console.error('Draft loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load draft' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/drafts/:id - autosave; rejected once the draft has been submitted
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const evidenceErrors = findMissingAnswerEvidenceFiles(body.checklist?.evidence, file => canViewEvidenceFile(auth.user, file))
+    if (Object.keys(evidenceErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid evidence attached to checklist answers', fieldErrors: evidenceErrors },
+        { status: 400 }
+      )
+    }
+
+    const draft = getEditableDraft(auth.user, params.id) && updateDraft(params.id, { step: body.step, formData: body.formData, checklist: body.checklist })
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+    if (draft.status === 'submitted') {
+      return NextResponse.json(
+        { error: 'Draft has already been submitted', assessmentId: draft.assessmentId },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ draft })
+
+  } catch (error) {
+    console.error('Draft saving error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save draft' },
+      { status: 500 }
+    )
+  }
+}
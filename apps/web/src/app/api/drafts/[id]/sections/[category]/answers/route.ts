@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findSectionByToken, getDraft, updateSectionAnswers } from '../../../../../../../utils/draftStore'
+import { authorize, canViewEvidenceFile } from '../../../../../../../utils/auth'
+import { findMissingAnswerEvidenceFiles } from '../../../../../../../utils/evidenceStore'
+import { isSameOrganization } from '../../../../../../../utils/permissions'
+import { ref, validateSchema } from '../../../../../../../utils/apiSchema'
+import { ChecklistAnswers, ChecklistResponse, checklistQuestions, findInconsistentMaturity } from '../../../../../../../components/checklistData'
+
+// Checks the section's answers question by question, the same way the v1 API checks checklistData
+function validateSectionAnswers(category: string, answers: ChecklistAnswers): Record<string, string> {
+  const fieldErrors: Record<string, string> = {}
+  const entries = checklistQuestions
+    .filter(q => q.category === category)
+    .filter(q => [answers.responses, answers.maturities, answers.justifications, answers.evidence].some(map => map?.[q.id] !== undefined))
+    .map(q => {
+      const entry: Record<string, any> = { questionId: q.id, answer: answers.responses[q.id] }
+      // The page keeps the last maturity when the owner switches to N/A; it is dropped when assessed
+      if (answers.maturities[q.id] !== undefined && entry.answer !== 'na') entry.maturity = answers.maturities[q.id]
+      if (answers.justifications[q.id] !== undefined) entry.justification = answers.justifications[q.id]
+      if (answers.evidence?.[q.id] !== undefined) entry.evidence = answers.evidence[q.id]
+      validateSchema(ref('ChecklistResponse'), entry, `answers.${q.id}`, fieldErrors)
+      return entry
+    })
+
+  if (Object.keys(fieldErrors).length === 0) {
+    const inconsistent = findInconsistentMaturity({ [category]: entries as ChecklistResponse[] })
+    Object.entries(inconsistent).forEach(([questionId, error]) => {
+      fieldErrors[`answers.${questionId}.maturity`] = error
+    })
+  }
+  return fieldErrors
+}
+
+// PUT /api/drafts/:id/sections/:category/answers - the section owner saves their answers
+export async function PUT(request: NextRequest, { params }: { params: { id: string, category: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const draft = getDraft(params.id)
+    if (!draft || !isSameOrganization(auth.user, draft) || !findSectionByToken(draft, params.category, body.token)) {
+      return NextResponse.json(
+        { error: 'Section link is invalid or has been revoked' },
+        { status: 404 }
+      )
+    }
+    if (draft.status === 'submitted') {
+      return NextResponse.json(
+        { error: 'The assessment has already been submitted' },
+        { status: 409 }
+      )
+    }
+    if (!body.answers || typeof body.answers !== 'object') {
+      return NextResponse.json(
+        { error: 'answers is required' },
+        { status: 400 }
+      )
+    }
+
+    const answers: ChecklistAnswers = {
+      responses: body.answers.responses || {},
+      maturities: body.answers.maturities || {},
+      justifications: body.answers.justifications || {},
+      evidence: body.answers.evidence || {}
+    }
+    const fieldErrors = validateSectionAnswers(params.category, answers)
+    if (Object.keys(fieldErrors).length === 0) {
+      const evidenceErrors = findMissingAnswerEvidenceFiles(answers.evidence, file => canViewEvidenceFile(auth.user, file))
+      Object.entries(evidenceErrors).forEach(([questionId, error]) => {
+        fieldErrors[`answers.${questionId}.evidence`] = error
+      })
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid answers', fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const updated = updateSectionAnswers(params.id, params.category, answers)
+
+    return NextResponse.json({ completedAt: updated?.sections[params.category]?.completedAt })
+
+  } catch (error) {
+    console.error('Section saving error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save section' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { assignSection, findSectionByToken, getDraft, unassignSection } from '../../../../../../utils/draftStore'
+import { authorize, getEditableDraft } from '../../../../../../utils/auth'
+import { AuthUser, isSameOrganization } from '../../../../../../utils/permissions'
+import { riskCategoryKeys } from '../../../../../../utils/riskManifest'
+import { checklistQuestions, mergeAnswers } from '../../../../../../components/checklistData'
+
+type Params = { params: { id: string, category: string } }
+
+function validateTarget(user: AuthUser, id: string, category: string) {
+  if (!riskCategoryKeys.includes(category)) {
+    return NextResponse.json({ error: `Unknown checklist section "${category}"` }, { status: 400 })
+  }
+  const draft = getEditableDraft(user, id)
+  if (!draft) {
+    return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+  }
+  if (draft.status === 'submitted') {
+    return NextResponse.json({ error: 'Draft has already been submitted', assessmentId: draft.assessmentId }, { status: 409 })
+  }
+  return null
+}
+
+// GET /api/drafts/:id/sections/:category?token=... - what the section owner sees through their link; any signed-in user holding the link may answer
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const draft = getDraft(params.id)
+    const section = draft && isSameOrganization(auth.user, draft) && findSectionByToken(draft, params.category, request.nextUrl.searchParams.get('token'))
+    if (!draft || !section) {
+      return NextResponse.json(
+        { error: 'Section link is invalid or has been revoked' },
+        { status: 404 }
+      )
+    }
+
+    const questionIds = checklistQuestions.filter(q => q.category === params.category).map(q => q.id)
+    const empty = { responses: {}, maturities: {}, justifications: {}, evidence: {} }
+
+    return NextResponse.json({
+      draftId: draft.id,
+      status: draft.status,
+      productName: draft.formData.productName,
+      productManagerName: draft.formData.productManagerName,
+      category: params.category,
+      owner: section.owner,
+      completedAt: section.completedAt,
+      answers: mergeAnswers(empty, draft.checklist, questionIds)
+    })
+
+  } catch (error) {
+    console.error('Section loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load section' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/drafts/:id/sections/:category - assign the section to an owner (a new link each time)
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const invalid = validateTarget(auth.user, params.id, params.category)
+    if (invalid) return invalid
+
+    const body = await request.json()
+    const owner = typeof body.owner === 'string' ? body.owner.trim() : ''
+    if (!owner) {
+      return NextResponse.json(
+        { error: 'Owner name is required', fieldErrors: { owner: 'Owner name is required' } },
+        { status: 400 }
+      )
+    }
+
+    const draft = assignSection(params.id, params.category, owner, typeof body.email === 'string' ? body.email.trim() || undefined : undefined)
+    return NextResponse.json({ draft })
+
+  } catch (error) {
+    console.error('Section assignment error:', error)
+    return NextResponse.json(
+      { error: 'Failed to assign section' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/drafts/:id/sections/:category - take the section back; the owner's link stops working
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const invalid = validateTarget(auth.user, params.id, params.category)
+    if (invalid) return invalid
+
+    return NextResponse.json({ draft: unassignSection(params.id, params.category) })
+
+  } catch (error) {
+    console.error('Section unassignment error:', error)
+    return NextResponse.json(
+      { error: 'Failed to unassign section' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createDraft } from '../../../utils/draftStore'
+import { authorize, canViewEvidenceFile } from '../../../utils/auth'
+import { findMissingAnswerEvidenceFiles } from '../../../utils/evidenceStore'
+import { getOrganizationId } from '../../../utils/organization'
+
+// POST /api/drafts - start a new draft, optionally with the answers given so far
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authorize(request, 'assessments:create')
+    if (auth.response) return auth.response
+
+    const body = await request.json().catch(() => ({}))
+    const evidenceErrors = findMissingAnswerEvidenceFiles(body.checklist?.evidence, file => canViewEvidenceFile(auth.user, file))
+    if (Object.keys(evidenceErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid evidence attached to checklist answers', fieldErrors: evidenceErrors },
+        { status: 400 }
+      )
+    }
+
+    const draft = createDraft({ step: body.step, formData: body.formData, checklist: body.checklist }, auth.user.id, getOrganizationId(auth.user))
+
+    return NextResponse.json({ draft }, { status: 201 })
+
+  } catch (error) {
+    console.error('Draft creation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create draft' },
+      { status: 500 }
+    )
+  }
+}
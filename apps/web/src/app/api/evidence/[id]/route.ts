@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEvidenceFile } from '../../../../utils/evidenceStore'
+import { authorize, canViewEvidenceFile } from '../../../../utils/auth'
+
+// GET /api/evidence/:id - download an uploaded evidence file; the same 404 whether it is missing or not viewable
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const evidence = getEvidenceFile(params.id)
+    if (!evidence || !canViewEvidenceFile(auth.user, evidence.file)) {
+      return NextResponse.json(
+        { error: 'Evidence file not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(evidence.data, {
+      headers: {
+        'Content-Type': evidence.file.contentType,
+        'Content-Length': String(evidence.file.size),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(evidence.file.fileName)}"`,
+        'X-Content-SHA256': evidence.file.sha256
+      }
+    })
+
+  } catch (error) {
+    console.error('Evidence loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load evidence' },
+      { status: 500 }
+    )
+  }
+}
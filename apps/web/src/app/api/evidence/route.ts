@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { saveEvidenceFile, MAX_EVIDENCE_BYTES } from '../../../utils/evidenceStore'
+import { Evidence } from '../../../components/checklistData'
+import { authorize } from '../../../utils/auth'
+import { getOrganizationId } from '../../../utils/organization'
+
+// POST /api/evidence - upload an evidence file (multipart field "file"); attach the returned evidence to a checklist answer
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const formData = await request.formData()
+    const upload = formData.get('file')
+    if (!upload || typeof upload === 'string') {
+      return NextResponse.json(
+        { error: 'A file is required', fieldErrors: { file: 'A file is required' } },
+        { status: 400 }
+      )
+    }
+    if (upload.size > MAX_EVIDENCE_BYTES) {
+      return NextResponse.json(
+        { error: `Evidence files are limited to ${MAX_EVIDENCE_BYTES / (1024 * 1024)} MB` },
+        { status: 413 }
+      )
+    }
+
+    const file = saveEvidenceFile(upload.name, upload.type, Buffer.from(await upload.arrayBuffer()), getOrganizationId(auth.user), auth.user.id)
+    const evidence: Evidence = { type: 'file', value: file.id, label: file.fileName }
+
+    return NextResponse.json({ evidence, file }, { status: 201 })
+
+  } catch (error) {
+    console.error('Evidence upload error:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload evidence' },
+      { status: 500 }
+    )
+  }
+}
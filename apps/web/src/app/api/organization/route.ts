@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '../../../utils/auth'
+import { getOrganizationId, parseOrganizationSettings } from '../../../utils/organization'
+import { getOrganization, updateOrganization } from '../../../utils/organizationStore'
+
+// GET /api/organization - the signed-in user's organization and its settings
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    return NextResponse.json({ organization: getOrganization(getOrganizationId(auth.user)) })
+
+  } catch (error) {
+    console.error('Organization loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load organization' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/organization - { name, reportTitle, riskThresholds: { high, medium }, questionWeights: { [questionId]: weight } }
+// Applies to assessments submitted afterwards and to stored ones when they are next re-scored
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = authorize(request, 'organization:manage')
+    if (auth.response) return auth.response
+
+    const { settings, fieldErrors } = parseOrganizationSettings(await request.json())
+    if (!settings) {
+      return NextResponse.json(
+        { error: 'Invalid organization settings', fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ organization: updateOrganization(getOrganizationId(auth.user), settings) })
+
+  } catch (error) {
+    console.error('Organization saving error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save organization' },
+      { status: 500 }
+    )
+  }
+}
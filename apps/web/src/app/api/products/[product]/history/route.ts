@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listAssessments } from '../../../../../utils/assessmentStore'
+import { getOrganizationId } from '../../../../../utils/organization'
+import { buildProductHistory } from '../../../../../utils/assessmentHistory'
+import { authorize } from '../../../../../utils/auth'
+import { canViewAssessment } from '../../../../../utils/permissions'
+
+// GET /api/products/:product/history - score timeline and changes between runs of one product
+export async function GET(request: NextRequest, { params }: { params: { product: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const product = decodeURIComponent(params.product)
+    const assessments = listAssessments({ orgId: getOrganizationId(auth.user), product }).filter(stored => canViewAssessment(auth.user, stored))
+    if (assessments.length === 0) {
+      return NextResponse.json(
+        { error: 'No assessments found for this product' },
+        { status: 404 }
+      )
+    }
+
+    // listAssessments is newest first; use the latest spelling of the product name
+    return NextResponse.json(buildProductHistory(assessments[0].productName, assessments))
+
+  } catch (error) {
+    console.error('Product history error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load product history' },
+      { status: 500 }
+    )
+  }
+}
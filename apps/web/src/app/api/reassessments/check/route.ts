@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runStalenessCheck } from '../../../../utils/reassessmentScheduler'
+import { authorize } from '../../../../utils/auth'
+import { readServiceUser } from '../../../../utils/session'
+import { getOrganizationId } from '../../../../utils/organization'
+
+// POST /api/reassessments/check - run the staleness check now (the server also runs it on a timer)
+// Useful from an external cron where the server process does not stay up, e.g. serverless deployments;
+// the cron authenticates with SERVICE_API_TOKEN as a bearer token and checks every organization, a signed-in user only their own
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authorize(request, 'reassessments:run')
+    if (auth.response) return auth.response
+
+    const orgId = readServiceUser(request) ? undefined : getOrganizationId(auth.user)
+    return NextResponse.json(await runStalenessCheck(new Date(), orgId))
+
+  } catch (error) {
+    console.error('Reassessment check error:', error)
+    return NextResponse.json(
+      { error: 'Failed to check for stale assessments' },
+      { status: 500 }
+    )
+  }
+}
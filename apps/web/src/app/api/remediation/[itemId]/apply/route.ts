@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRemediationItem, markRemediationApplied } from '../../../../../utils/remediationStore'
+import { canRescoreInPlace, getReview, updateAssessment } from '../../../../../utils/assessmentStore'
+import { authorize, getViewableAssessment } from '../../../../../utils/auth'
+import { getAssessmentAcceptances } from '../../../../../utils/riskAcceptanceStore'
+import { getOrganizationId } from '../../../../../utils/organization'
+import { getOrganization } from '../../../../../utils/organizationStore'
+import { getLinkedQuestionIds } from '../../../../../utils/remediation'
+import { markControlsImplemented, rescoreGapAnalysis } from '../../../../../utils/rescore'
+import { ChecklistData } from '../../../../../components/checklistData'
+import { reviewStatusLabels } from '../../../../../utils/assessmentReview'
+
+// POST /api/remediation/:itemId/apply - a done item marks its controls implemented and re-scores the assessment
+export async function POST(request: NextRequest, { params }: { params: { itemId: string } }) {
+  try {
+    const auth = authorize(request, 'remediation:manage')
+    if (auth.response) return auth.response
+
+    const item = getRemediationItem(params.itemId)
+    const stored = item && getViewableAssessment(auth.user, item.assessmentId)
+    if (!item || !stored) {
+      return NextResponse.json(
+        { error: 'Remediation item not found' },
+        { status: 404 }
+      )
+    }
+    if (!canRescoreInPlace(stored)) {
+      return NextResponse.json(
+        { error: `This assessment is ${reviewStatusLabels[getReview(stored).status].toLowerCase()}, so its scores stay as reviewed; submit a new assessment to reflect the remediation` },
+        { status: 409 }
+      )
+    }
+    if (item.status !== 'done') {
+      return NextResponse.json(
+        { error: 'Only done items can update the checklist' },
+        { status: 409 }
+      )
+    }
+
+    const checklistData = stored.assessment.checklistData as ChecklistData | undefined
+    const answeredIds = Object.values(checklistData || {}).reduce<number[]>(
+      (ids, responses) => ids.concat((responses || []).map(response => response.questionId)),
+      []
+    )
+    const questionIds = getLinkedQuestionIds(item.source).filter(id => answeredIds.includes(id))
+    if (!checklistData || questionIds.length === 0) {
+      return NextResponse.json(
+        { error: 'This assessment has no checklist answers linked to the item' },
+        { status: 409 }
+      )
+    }
+
+    const updatedChecklist = markControlsImplemented(checklistData, questionIds.map(questionId => ({ questionId, evidence: item.evidence })))
+    const organization = getOrganization(getOrganizationId(stored))
+    const updated = updateAssessment(stored.id, rescoreGapAnalysis(stored.assessment, updatedChecklist, getAssessmentAcceptances(stored), organization))
+
+    return NextResponse.json({
+      item: markRemediationApplied(item.id),
+      assessment: updated!.assessment,
+      updatedQuestions: questionIds
+    })
+
+  } catch (error) {
+    console.error('Remediation apply error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update the assessment' },
+      { status: 500 }
+    )
+  }
+}
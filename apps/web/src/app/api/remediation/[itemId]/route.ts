@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRemediationItem, updateRemediationItem } from '../../../../utils/remediationStore'
+import { findMissingEvidenceFile } from '../../../../utils/evidenceStore'
+import { parseRemediationUpdate } from '../../../../utils/remediation'
+import { authorize, canViewEvidenceFile, getViewableAssessment } from '../../../../utils/auth'
+
+export async function GET(request: NextRequest, { params }: { params: { itemId: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const item = getRemediationItem(params.itemId)
+    if (!item || !getViewableAssessment(auth.user, item.assessmentId)) {
+      return NextResponse.json(
+        { error: 'Remediation item not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ item })
+
+  } catch (error) {
+    console.error('Remediation loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load remediation item' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/remediation/:itemId - update owner, dueDate, status or evidence
+export async function PUT(request: NextRequest, { params }: { params: { itemId: string } }) {
+  try {
+    const auth = authorize(request, 'remediation:manage')
+    if (auth.response) return auth.response
+
+    const existing = getRemediationItem(params.itemId)
+    if (!existing || !getViewableAssessment(auth.user, existing.assessmentId)) {
+      return NextResponse.json(
+        { error: 'Remediation item not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { update, fieldErrors } = parseRemediationUpdate(body)
+    const missingFile = update.evidence && findMissingEvidenceFile(update.evidence, file => canViewEvidenceFile(auth.user, file))
+    if (missingFile) {
+      fieldErrors.evidence = missingFile
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid remediation update', fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const item = updateRemediationItem(params.itemId, update)
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Remediation item not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ item })
+
+  } catch (error) {
+    console.error('Remediation update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update remediation item' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRiskAcceptance, reapplyRiskAcceptances, revokeRiskAcceptance } from '../../../../utils/riskAcceptanceStore'
+import { isSameOrganization } from '../../../../utils/permissions'
+import { normalizeProductName } from '../../../../utils/assessmentStore'
+import { authorize, getViewableAssessment } from '../../../../utils/auth'
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const acceptance = getRiskAcceptance(params.id)
+    if (!acceptance || !isSameOrganization(auth.user, acceptance)) {
+      return NextResponse.json(
+        { error: 'Risk acceptance not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ acceptance })
+
+  } catch (error) {
+    console.error('Risk acceptance loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load risk acceptance' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/risk-acceptances/:id?assessmentId= - revoke; the record stays in the register with revokedAt
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request, 'risk_acceptances:manage')
+    if (auth.response) return auth.response
+
+    const existing = getRiskAcceptance(params.id)
+    const acceptance = existing && isSameOrganization(auth.user, existing) ? revokeRiskAcceptance(existing.id) : undefined
+    if (!acceptance) {
+      return NextResponse.json(
+        { error: 'Risk acceptance not found' },
+        { status: 404 }
+      )
+    }
+
+    // Re-score the assessment the acceptance was revoked from, if it belongs to the same product and is not approved
+    const assessmentId = new URL(request.url).searchParams.get('assessmentId')
+    const stored = assessmentId ? getViewableAssessment(auth.user, assessmentId) : undefined
+    const updated = stored && normalizeProductName(stored.productName) === normalizeProductName(acceptance.productName)
+      ? reapplyRiskAcceptances(stored.id)
+      : undefined
+
+    return NextResponse.json({ acceptance, assessment: updated?.assessment })
+
+  } catch (error) {
+    console.error('Risk acceptance revocation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke risk acceptance' },
+      { status: 500 }
+    )
+  }
+}
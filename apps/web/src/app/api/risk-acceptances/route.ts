@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRiskAcceptance, listRiskAcceptances, reapplyRiskAcceptances } from '../../../utils/riskAcceptanceStore'
+import { listAssessments, normalizeProductName } from '../../../utils/assessmentStore'
+import { authorize, getViewableAssessment } from '../../../utils/auth'
+import { canViewAssessment, hasPermission } from '../../../utils/permissions'
+import { getOrganizationId } from '../../../utils/organization'
+import { parseRiskAcceptance } from '../../../utils/riskAcceptance'
+
+// GET /api/risk-acceptances?product=&includeRevoked=true - the organization's risk acceptance register, newest first
+// Without access to every assessment, only acceptances for products the user owns are listed
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const { searchParams } = new URL(request.url)
+    const acceptances = listRiskAcceptances({
+      orgId: getOrganizationId(auth.user),
+      product: searchParams.get('product') ?? undefined,
+      includeRevoked: searchParams.get('includeRevoked') === 'true'
+    })
+
+    const ownProducts = hasPermission(auth.user, 'assessments:read_all')
+      ? undefined
+      : listAssessments({ orgId: getOrganizationId(auth.user) }).filter(stored => canViewAssessment(auth.user, stored)).map(stored => normalizeProductName(stored.productName))
+
+    return NextResponse.json({
+      acceptances: acceptances.filter(acceptance => !ownProducts || ownProducts.includes(normalizeProductName(acceptance.productName)))
+    })
+
+  } catch (error) {
+    console.error('Risk acceptance listing error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load risk acceptances' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/risk-acceptances - { productName, scope, rationale, approver?: { name, email? }, compensatingControls?, expiresAt, assessmentId? }
+// The approver defaults to the signed-in risk officer. With assessmentId, that stored assessment of the same product is re-scored so the gap shows as accepted, unless it is approved
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authorize(request, 'risk_acceptances:manage')
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const { acceptance: input, fieldErrors } = parseRiskAcceptance({
+      ...body,
+      approver: body.approver ?? { name: auth.user.name, email: auth.user.email }
+    })
+    const stored = body.assessmentId !== undefined ? getViewableAssessment(auth.user, body.assessmentId) : undefined
+    if (body.assessmentId !== undefined && (!stored || normalizeProductName(stored.productName) !== normalizeProductName(body.productName))) {
+      fieldErrors.assessmentId = 'Assessment not found for this product'
+    }
+    if (!input || Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid risk acceptance', fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const acceptance = createRiskAcceptance(input, getOrganizationId(auth.user))
+    const updated = stored && reapplyRiskAcceptances(stored.id)
+
+    return NextResponse.json({ acceptance, assessment: updated?.assessment }, { status: 201 })
+
+  } catch (error) {
+    console.error('Risk acceptance creation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create risk acceptance' },
+      { status: 500 }
+    )
+  }
+}
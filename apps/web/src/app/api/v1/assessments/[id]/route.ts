@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReview, getSchedule } from '../../../../../utils/assessmentStore'
+import { authorize, getViewableAssessment } from '../../../../../utils/auth'
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const stored = getViewableAssessment(auth.user, params.id)
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Assessment not found' },
+        { status: 404 }
+      )
+    }
+
+    // Same shape as the POST /api/v1/assessments response
+    return NextResponse.json({
+      assessmentId: stored.id,
+      assessment: stored.assessment,
+      review: getReview(stored),
+      schedule: getSchedule(stored)
+    })
+
+  } catch (error) {
+    console.error('Assessment loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load assessment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSchedule, listAssessments, summarizeAssessment } from '../../../../utils/assessmentStore'
+import { getOrganizationId } from '../../../../utils/organization'
+import { ReviewStatus, reviewStatusLabels } from '../../../../utils/assessmentReview'
+import { authorize } from '../../../../utils/auth'
+import { canViewAssessment } from '../../../../utils/permissions'
+import { AssessmentRequest, runAssessment } from '../../../../utils/assessmentService'
+import { readValidatedBody } from '../../../../utils/apiSchema'
+
+// GET /api/v1/assessments?product=<product name>&status=<review status>&stale=true|false
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const product = request.nextUrl.searchParams.get('product') || undefined
+    const status = request.nextUrl.searchParams.get('status') || undefined
+    const stale = request.nextUrl.searchParams.get('stale')
+    const fieldErrors: Record<string, string> = {}
+    if (status && !Object.keys(reviewStatusLabels).includes(status)) fieldErrors.status = `Must be one of: ${Object.keys(reviewStatusLabels).join(', ')}`
+    if (stale !== null && stale !== 'true' && stale !== 'false') fieldErrors.stale = 'Must be true or false'
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json({ error: 'Invalid query parameters', fieldErrors }, { status: 400 })
+    }
+
+    const assessments = listAssessments({
+      orgId: getOrganizationId(auth.user),
+      product,
+      reviewStatus: status as ReviewStatus | undefined,
+      stale: stale === null ? undefined : stale === 'true'
+    }).filter(stored => canViewAssessment(auth.user, stored)).map(summarizeAssessment)
+
+    return NextResponse.json({ assessments })
+
+  } catch (error) {
+    console.error('Assessment listing error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load assessments' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/v1/assessments - validated against the AssessmentRequest schema before anything is scored
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authorize(request, 'assessments:create')
+    if (auth.response) return auth.response
+
+    const validated = await readValidatedBody<AssessmentRequest>(request, 'AssessmentRequest')
+    if (validated.response) return validated.response
+    if (validated.body.hasRiskAssessment && !validated.body.checklistData) {
+      return NextResponse.json(
+        { error: 'Invalid request', fieldErrors: { checklistData: 'Required when hasRiskAssessment is true' } },
+        { status: 400 }
+      )
+    }
+
+    const outcome = await runAssessment(auth.user, validated.body)
+    if (!outcome.stored) {
+      return NextResponse.json(outcome.error, { status: outcome.status })
+    }
+
+    return NextResponse.json({
+      assessmentId: outcome.stored.id,
+      assessment: outcome.stored.assessment,
+      review: outcome.stored.review,
+      schedule: getSchedule(outcome.stored)
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Assessment error:', error)
+    return NextResponse.json(
+      { error: 'Failed to perform assessment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize, forbidden } from '../../../../utils/auth'
+import { hasPermission } from '../../../../utils/permissions'
+import { EmailRequest, describeEmailError, sendEmail } from '../../../../utils/emailService'
+import { readValidatedBody } from '../../../../utils/apiSchema'
+
+// Signed-in users may only email themselves; admins may email any product manager
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const validated = await readValidatedBody<EmailRequest>(request, 'EmailRequest')
+    if (validated.response) return validated.response
+
+    const recipient = validated.body.productInfo.productManagerEmail.trim().toLowerCase()
+    if (!hasPermission(auth.user, 'email:send_any') && recipient !== auth.user.email.toLowerCase()) {
+      return forbidden('You can only email reports to your own address')
+    }
+
+    const messageId = await sendEmail(validated.body)
+    return NextResponse.json({ messageId })
+
+  } catch (error) {
+    console.error('Email sending error:', error)
+    return NextResponse.json(
+      { error: describeEmailError(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRiskCatalog, getMitigationUrls } from '../../../../utils/riskCatalog'
+import { authorize } from '../../../../utils/auth'
+
+// Unlike /api/framework-data, risks are a list rather than keyed alongside mitigationUrls
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authorize(request)
+    if (auth.response) return auth.response
+
+    const catalog = getRiskCatalog()
+    return NextResponse.json({
+      risks: catalog.map(risk => ({
+        key: risk.key,
+        id: risk.id,
+        title: risk.title,
+        url: risk.url,
+        mitigations: risk.mitigations,
+        checklist: risk.checklist
+      })),
+      mitigationUrls: getMitigationUrls(catalog)
+    })
+
+  } catch (error) {
+    console.error('Framework data loading error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load framework data' },
+      { status: 500 }
+    )
+  }
+}
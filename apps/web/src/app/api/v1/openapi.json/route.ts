@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { buildOpenApiDocument } from '../../../../utils/openApi'
+
+// Public so API clients and code generators can fetch the contract before signing in
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument())
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '../../../../utils/auth'
+import { isSameOrganization } from '../../../../utils/permissions'
+import { getSubscription, removeSubscription, toSubscriptionView, updateSubscription } from '../../../../utils/webhookStore'
+import { parseWebhookSubscription } from '../../../../utils/webhooks'
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Webhook not found' },
+    { status: 404 }
+  )
+}
+
+// PUT /api/webhooks/:id - any of { url, events, description, active }; pending deliveries keep their original URL
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request, 'webhooks:manage')
+    if (auth.response) return auth.response
+
+    const subscription = getSubscription(params.id)
+    if (!subscription || !isSameOrganization(auth.user, subscription)) return notFound()
+
+    const { input, fieldErrors } = parseWebhookSubscription(await request.json(), true)
+    if (!input) {
+      return NextResponse.json(
+        { error: 'Invalid webhook', fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ subscription: toSubscriptionView(updateSubscription(subscription.id, input)!) })
+
+  } catch (error) {
+    console.error('Webhook update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/webhooks/:id - stops deliveries; the delivery log is kept
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request, 'webhooks:manage')
+    if (auth.response) return auth.response
+
+    const subscription = getSubscription(params.id)
+    if (!subscription || !isSameOrganization(auth.user, subscription)) return notFound()
+
+    removeSubscription(subscription.id)
+    return NextResponse.json({ deleted: subscription.id })
+
+  } catch (error) {
+    console.error('Webhook deletion error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '../../../../../utils/auth'
+import { isSameOrganization } from '../../../../../utils/permissions'
+import { getSubscription, rotateSecret } from '../../../../../utils/webhookStore'
+
+// POST /api/webhooks/:id/secret - replaces the signing secret and returns the new one; the old one stops working at once
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request, 'webhooks:manage')
+    if (auth.response) return auth.response
+
+    const subscription = getSubscription(params.id)
+    if (!subscription || !isSameOrganization(auth.user, subscription)) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ secret: rotateSecret(subscription.id)!.secret })
+
+  } catch (error) {
+    console.error('Webhook secret rotation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to rotate webhook secret' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '../../../../../../utils/auth'
+import { isSameOrganization } from '../../../../../../utils/permissions'
+import { getDelivery } from '../../../../../../utils/webhookStore'
+import { replayDelivery } from '../../../../../../utils/webhookDispatcher'
+
+// POST /api/webhooks/deliveries/:id/replay - sends the same payload again as a new delivery
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = authorize(request, 'webhooks:manage')
+    if (auth.response) return auth.response
+
+    const delivery = getDelivery(params.id)
+    if (!delivery || !isSameOrganization(auth.user, delivery)) {
+      return NextResponse.json(
+        { error: 'Delivery not found' },
+        { status: 404 }
+      )
+    }
+
+    const replay = replayDelivery(delivery)
+    if (!replay) {
+      return NextResponse.json(
+        { error: 'The webhook for this delivery was deleted' },
+        { status: 409 }
+      )
+    }
+    return NextResponse.json({ delivery: replay }, { status: 202 })
+
+  } catch (error) {
+    console.error('Webhook replay error:', error)
+    return NextResponse.json(
+      { error: 'Failed to replay delivery' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '../../../../utils/auth'
+import { getOrganizationId } from '../../../../utils/organization'
+import { listDeliveries } from '../../../../utils/webhookStore'
+
+const DELIVERY_LOG_LIMIT = 100
+
+// GET /api/webhooks/deliveries?subscriptionId=&status= - the organization's latest deliveries, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authorize(request, 'webhooks:manage')
+    if (auth.response) return auth.response
+
+    const searchParams = request.nextUrl.searchParams
+    const deliveries = listDeliveries({
+      orgId: getOrganizationId(auth.user),
+      subscriptionId: searchParams.get('subscriptionId') || undefined,
+      status: searchParams.get('status') || undefined,
+      limit: DELIVERY_LOG_LIMIT
+    })
+    return NextResponse.json({ deliveries })
+
+  } catch (error) {
+    console.error('Webhook delivery listing error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load webhook deliveries' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '../../../utils/auth'
+import { getOrganizationId } from '../../../utils/organization'
+import { createSubscription, listSubscriptions, toSubscriptionView } from '../../../utils/webhookStore'
+import { parseWebhookSubscription } from '../../../utils/webhooks'
+
+// GET /api/webhooks - the organization's webhook subscriptions, without their secrets
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authorize(request, 'webhooks:manage')
+    if (auth.response) return auth.response
+
+    const subscriptions = listSubscriptions({ orgId: getOrganizationId(auth.user) })
+    return NextResponse.json({ subscriptions: subscriptions.map(toSubscriptionView) })
+
+  } catch (error) {
+    console.error('Webhook listing error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load webhooks' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/webhooks - { url, events, description?, active? }; the signing secret is only returned here
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authorize(request, 'webhooks:manage')
+    if (auth.response) return auth.response
+
+    const { input, fieldErrors } = parseWebhookSubscription(await request.json())
+    if (!input) {
+      return NextResponse.json(
+        { error: 'Invalid webhook', fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const subscription = createSubscription(input, getOrganizationId(auth.user))
+    return NextResponse.json({ subscription: toSubscriptionView(subscription), secret: subscription.secret }, { status: 201 })
+
+  } catch (error) {
+    console.error('Webhook creation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import AppHeader from '@/components/AppHeader'
+import ResultsDisplay from '@/components/ResultsDisplay'
+import { ReassessmentSchedule, describeStaleness } from '@/utils/reassessment'
+
+export default function AssessmentPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const [assessment, setAssessment] = useState<any>(null)
+  const [schedule, setSchedule] = useState<ReassessmentSchedule | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadAssessment = async () => {
+      try {
+        const response = await fetch(`/api/assessments/${params.id}`)
+        const data = await response.json()
+        if (response.ok) {
+          setAssessment(data.assessment)
+          setSchedule(data.schedule)
+        } else {
+          setError(data.error || 'Failed to load assessment')
+        }
+      } catch (err) {
+        console.error('Failed to load assessment:', err)
+        setError('Failed to load assessment')
+      }
+    }
+
+    loadAssessment()
+  }, [params.id])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <main className="px-6 py-8">
+        <div className="max-w-7xl mx-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-6 text-center">
+              <p className="font-medium mb-4">{error}</p>
+              <a href="/" className="text-blue-600 hover:underline">Start a new assessment</a>
+            </div>
+          )}
+
+          {!error && !assessment && (
+            <div className="flex justify-center py-16">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {schedule?.stale && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-4 mb-6">
+              <p className="font-medium">This assessment is out of date</p>
+              <p className="text-sm mt-1">{describeStaleness(schedule.stale, schedule.dueAt)}. <a href="/" className="underline">Start a new assessment</a> of this product.</p>
+            </div>
+          )}
+          {schedule && !schedule.stale && (
+            <p className="text-sm text-gray-500 mb-4">
+              Reassessment due {schedule.dueAt} ({schedule.riskLevel} risk products are reassessed every {schedule.cadenceDays} days)
+            </p>
+          )}
+
+          {assessment && (
+            <ResultsDisplay
+              result={assessment}
+              onReset={() => router.push('/')}
+              onResultChange={setAssessment}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
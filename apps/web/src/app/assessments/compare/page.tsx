@@ -0,0 +1,56 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import AppHeader from '@/components/AppHeader'
+import ComparisonDisplay from '@/components/ComparisonDisplay'
+
+export default function ComparePage({ searchParams }: { searchParams: { from?: string; to?: string } }) {
+  const [comparison, setComparison] = useState<any>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadComparison = async () => {
+      try {
+        const query = new URLSearchParams({ from: searchParams.from || '', to: searchParams.to || '' })
+        const response = await fetch(`/api/assessments/compare?${query}`)
+        const data = await response.json()
+        if (response.ok) {
+          setComparison(data)
+        } else {
+          setError(data.error || 'Failed to compare assessments')
+        }
+      } catch (err) {
+        console.error('Failed to compare assessments:', err)
+        setError('Failed to compare assessments')
+      }
+    }
+
+    loadComparison()
+  }, [searchParams.from, searchParams.to])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <main className="px-6 py-8">
+        <div className="max-w-7xl mx-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-6 text-center">
+              <p className="font-medium">{error}</p>
+            </div>
+          )}
+
+          {!error && !comparison && (
+            <div className="flex justify-center py-16">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {comparison && (
+            <ComparisonDisplay diff={comparison.diff} before={comparison.before} after={comparison.after} />
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
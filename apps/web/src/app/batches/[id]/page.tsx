@@ -0,0 +1,233 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import AppHeader from '@/components/AppHeader'
+import { BatchRow, BatchSummary, batchRowStatusLabels, batchStatusLabels } from '@/utils/batch'
+import { getRiskShortName } from '@/utils/riskManifest'
+
+const POLL_SECONDS = 3
+
+const riskLevelClasses: Record<string, string> = {
+  high: 'text-red-700',
+  medium: 'text-yellow-700',
+  low: 'text-green-700'
+}
+
+interface BatchDetail {
+  batch: { id: string, createdAt: string, fileName?: string, offline: boolean, createdBy: { name: string }, rows: BatchRow[] }
+  summary: BatchSummary
+  canResume: boolean
+}
+
+export default function BatchPage({ params }: { params: { id: string } }) {
+  const [detail, setDetail] = useState<BatchDetail | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isResuming, setIsResuming] = useState(false)
+
+  const loadBatch = async () => {
+    try {
+      const response = await fetch(`/api/batches/${params.id}`)
+      const data = await response.json()
+      if (response.ok) {
+        setDetail(data)
+      } else {
+        setError(data.error || 'Failed to load batch')
+      }
+    } catch (err) {
+      console.error('Failed to load batch:', err)
+      setError('Failed to load batch')
+    }
+  }
+
+  useEffect(() => {
+    loadBatch()
+  }, [params.id])
+
+  // Refresh while rows are being assessed
+  const isRunning = detail?.summary.status === 'running'
+  useEffect(() => {
+    if (!isRunning) return
+    const timer = setInterval(loadBatch, POLL_SECONDS * 1000)
+    return () => clearInterval(timer)
+  }, [isRunning, params.id])
+
+  const resume = async () => {
+    setIsResuming(true)
+    try {
+      const response = await fetch(`/api/batches/${params.id}/resume`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        alert('Failed to resume batch: ' + data.error)
+        return
+      }
+      await loadBatch()
+    } catch (err) {
+      alert('Failed to resume batch')
+      console.error(err)
+    } finally {
+      setIsResuming(false)
+    }
+  }
+
+  const summary = detail?.summary
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <main className="px-6 py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-6 text-center">{error}</div>
+          )}
+
+          {!error && !detail && (
+            <div className="flex justify-center py-16">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {detail && summary && (
+            <>
+              <div className="flex items-start justify-between">
+                <div>
+                  <a href="/batches" className="text-sm text-blue-600 hover:underline">All batches</a>
+                  <h2 className="text-2xl font-semibold text-gray-900">{detail.batch.fileName || 'Batch assessment'}</h2>
+                  <p className="text-gray-600 mt-1">
+                    Uploaded by {detail.batch.createdBy.name} on {new Date(detail.batch.createdAt).toLocaleString()}
+                    {detail.batch.offline && ' · offline'} · {batchStatusLabels[summary.status]}
+                    {summary.status === 'running' && ` (${summary.total - summary.rowStatuses.pending - summary.rowStatuses.running} of ${summary.total} rows done)`}
+                  </p>
+                  {summary.status === 'interrupted' && (
+                    <p className="text-sm text-yellow-700 mt-1">The server stopped before every row was assessed. Resume to continue from the unfinished rows.</p>
+                  )}
+                </div>
+                {detail.canResume && (
+                  <button
+                    onClick={resume}
+                    disabled={isResuming}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {summary.status === 'interrupted' ? 'Resume' : 'Retry failed rows'}
+                  </button>
+                )}
+              </div>
+
+              {/* Consolidated summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-white rounded-lg border border-gray-200 p-4 shadow-sm">
+                  <div className="text-sm text-gray-600">Assessed</div>
+                  <div className="text-2xl font-semibold text-gray-900">{summary.rowStatuses.succeeded} / {summary.total}</div>
+                  <div className="text-xs text-gray-500">
+                    {summary.rowStatuses.failed} failed · {summary.rowStatuses.invalid} invalid
+                  </div>
+                </div>
+                <div className="bg-white rounded-lg border border-gray-200 p-4 shadow-sm">
+                  <div className="text-sm text-gray-600">Average overall score</div>
+                  <div className="text-2xl font-semibold text-gray-900">{summary.averageScore ?? '-'}</div>
+                </div>
+                <div className="bg-white rounded-lg border border-gray-200 p-4 shadow-sm md:col-span-2">
+                  <div className="text-sm text-gray-600">Systems by risk level</div>
+                  <div className="flex gap-6 mt-1">
+                    {(['high', 'medium', 'low'] as const).map(level => (
+                      <div key={level}>
+                        <span className={`text-2xl font-semibold ${riskLevelClasses[level]}`}>{summary.riskLevels[level]}</span>
+                        <span className="text-sm text-gray-600 ml-1 capitalize">{level}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {summary.categories.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-3">Risk categories</h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200 text-gray-600">
+                          <th className="text-left py-2 font-medium">Category</th>
+                          <th className="text-left py-2 font-medium">Systems</th>
+                          <th className="text-left py-2 font-medium">Average</th>
+                          <th className="text-left py-2 font-medium">Highest</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {summary.categories.map(category => (
+                          <tr key={category.key} className="border-b border-gray-100">
+                            <td className="py-2 text-gray-900">{getRiskShortName(category.key)}</td>
+                            <td className="py-2 text-gray-700">{category.systems}</td>
+                            <td className="py-2 text-gray-700">{category.averageScore}</td>
+                            <td className="py-2 text-gray-700">{category.highestScore}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-3">Highest risk systems</h3>
+                    <ol className="space-y-1 text-sm">
+                      {summary.highestRisk.map(system => (
+                        <li key={system.index} className="flex justify-between">
+                          <a href={`/assessments/${system.assessmentId}`} className="text-blue-600 hover:underline">{system.productName}</a>
+                          <span className={riskLevelClasses[system.riskLevel]}>{system.overallRiskScore}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                </div>
+              )}
+
+              {/* Per-row results */}
+              <div className="bg-white rounded-lg border border-gray-200 overflow-hidden shadow-sm">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-gray-100 border-b border-gray-200">
+                        <th className="text-left p-3 text-gray-900 font-semibold">Row</th>
+                        <th className="text-left p-3 text-gray-900 font-semibold">System</th>
+                        <th className="text-left p-3 text-gray-900 font-semibold">Status</th>
+                        <th className="text-left p-3 text-gray-900 font-semibold">Type</th>
+                        <th className="text-left p-3 text-gray-900 font-semibold">Overall</th>
+                        <th className="text-left p-3 text-gray-900 font-semibold">Risk level</th>
+                        <th className="text-left p-3 text-gray-900 font-semibold">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {detail.batch.rows.map(row => (
+                        <tr key={row.index} className="border-b border-gray-100 align-top">
+                          <td className="p-3 text-gray-500">{row.index}</td>
+                          <td className="p-3">
+                            {row.result ? (
+                              <a href={`/assessments/${row.result.assessmentId}`} className="text-blue-600 hover:underline">{row.productName || '(no name)'}</a>
+                            ) : (
+                              <span className="text-gray-900">{row.productName || '(no name)'}</span>
+                            )}
+                          </td>
+                          <td className="p-3 text-gray-700">{batchRowStatusLabels[row.status]}</td>
+                          <td className="p-3 text-gray-700">{row.result ? (row.result.assessmentType === 'gap_analysis' ? 'Gap analysis' : 'Standard') : '-'}</td>
+                          <td className="p-3 font-semibold text-gray-900">{row.result?.overallRiskScore ?? '-'}</td>
+                          <td className={`p-3 capitalize ${row.result ? riskLevelClasses[row.result.riskLevel] : 'text-gray-400'}`}>{row.result?.riskLevel || '-'}</td>
+                          <td className="p-3 text-gray-700">
+                            {row.error && <div className="text-red-700">{row.error}</div>}
+                            {row.fieldErrors && (
+                              <ul className="text-xs text-red-600 space-y-0.5">
+                                {Object.entries(row.fieldErrors).map(([field, message]) => (
+                                  <li key={field}>{field}: {message}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import AppHeader from '@/components/AppHeader'
+import { BatchSummary, batchStatusLabels, buildCsvTemplate } from '@/utils/batch'
+import { hasPermission } from '@/utils/permissions'
+import { useSession } from '@/utils/useSession'
+
+interface BatchListItem {
+  id: string
+  createdAt: string
+  fileName?: string
+  offline: boolean
+  createdBy: { name: string, email: string }
+  summary: BatchSummary
+}
+
+export default function BatchesPage() {
+  const user = useSession()
+  const [batches, setBatches] = useState<BatchListItem[] | null>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [offline, setOffline] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const canCreate = hasPermission(user, 'assessments:create')
+
+  useEffect(() => {
+    const loadBatches = async () => {
+      try {
+        const response = await fetch('/api/batches')
+        const data = await response.json()
+        if (response.ok) {
+          setBatches(data.batches)
+        } else {
+          setError(data.error || 'Failed to load batches')
+        }
+      } catch (err) {
+        console.error('Failed to load batches:', err)
+        setError('Failed to load batches')
+      }
+    }
+
+    loadBatches()
+  }, [])
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([buildCsvTemplate()], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'ai-inventory-template.csv'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const upload = async () => {
+    if (!file) return
+    setIsUploading(true)
+    setUploadError(null)
+    try {
+      const response = await fetch('/api/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          content: await file.text(),
+          format: file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv',
+          fileName: file.name,
+          offline
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setUploadError(data.error || 'Failed to start batch')
+        return
+      }
+      window.location.href = `/batches/${data.batch.id}`
+    } catch (err) {
+      console.error('Failed to start batch:', err)
+      setUploadError('Failed to start batch')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <main className="px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900">Batch assessment</h2>
+            <p className="text-gray-600 mt-1">
+              Assess every AI system in an inventory at once. Each row becomes a stored assessment, submitted for review as if entered through the form.
+            </p>
+          </div>
+
+          {canCreate && (
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm space-y-4">
+              <div className="text-sm text-gray-700 space-y-2">
+                <p>
+                  <strong>CSV:</strong> one row per system with the profile columns, and optionally checklist answers
+                  (<code>yes</code>, <code>partial</code>, <code>no</code> or <code>na</code>) in <code>q&lt;question ID&gt;</code> columns
+                  with a <code>q&lt;question ID&gt;_justification</code> for N/A. A row with any answer gets a gap analysis and must answer every question.
+                </p>
+                <p>
+                  <strong>JSON:</strong> an array of <code>{'{ userInputs, hasRiskAssessment?, checklistData? }'}</code> objects, as accepted by <code>POST /api/v1/assessments</code>.
+                </p>
+                <button onClick={downloadTemplate} className="text-blue-600 hover:underline">Download CSV template</button>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="text-sm text-gray-700"
+                />
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={offline} onChange={(e) => setOffline(e.target.checked)} />
+                  Offline (no LLM calls)
+                </label>
+                <button
+                  onClick={upload}
+                  disabled={!file || isUploading}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isUploading ? 'Uploading...' : 'Start batch'}
+                </button>
+              </div>
+              {uploadError && <p className="text-sm text-red-600">{uploadError}</p>}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-6 text-center">{error}</div>
+          )}
+
+          {batches && (
+            <div className="bg-white rounded-lg border border-gray-200 overflow-hidden shadow-sm">
+              {batches.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500">No batches yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-100 border-b border-gray-200">
+                      <th className="text-left p-3 text-gray-900 font-semibold">Uploaded</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">File</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">By</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">Status</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">Assessed</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">High risk</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batches.map(batch => (
+                      <tr key={batch.id} className="border-b border-gray-100">
+                        <td className="p-3">
+                          <a href={`/batches/${batch.id}`} className="text-blue-600 hover:underline">{new Date(batch.createdAt).toLocaleString()}</a>
+                        </td>
+                        <td className="p-3 text-gray-700">{batch.fileName || '-'}</td>
+                        <td className="p-3 text-gray-700">{batch.createdBy.name}</td>
+                        <td className="p-3 text-gray-700">{batchStatusLabels[batch.summary.status]}</td>
+                        <td className="p-3 text-gray-700">{batch.summary.rowStatuses.succeeded} of {batch.summary.total}</td>
+                        <td className="p-3 text-gray-700">{batch.summary.riskLevels.high}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
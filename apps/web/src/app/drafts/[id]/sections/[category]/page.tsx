@@ -0,0 +1,180 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import AppHeader from '@/components/AppHeader'
+import ChecklistQuestionCard from '@/components/ChecklistQuestionCard'
+import {
+  checklistQuestions,
+  categoryInfo,
+  answerFromMaturity,
+  getSectionCompletion,
+  ChecklistAnswer,
+  ChecklistAnswers,
+  ChecklistQuestion,
+  MaturityLevel
+} from '@/components/checklistData'
+import { DraftSaveStatus } from '@/utils/draftAutosave'
+
+const SAVE_DELAY_MS = 1000
+
+const saveStatusLabels: Record<DraftSaveStatus, string> = {
+  idle: '',
+  saving: 'Saving...',
+  saved: 'Saved',
+  local: 'Not saved; check your connection'
+}
+
+// Where a section owner answers the part of the checklist delegated to them
+export default function SectionPage({
+  params,
+  searchParams
+}: {
+  params: { id: string, category: string }
+  searchParams: { token?: string }
+}) {
+  const [section, setSection] = useState<any>(null)
+  const [answers, setAnswers] = useState<ChecklistAnswers | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [saveStatus, setSaveStatus] = useState<DraftSaveStatus>('idle')
+  const [completedAt, setCompletedAt] = useState<string | undefined>(undefined)
+  const lastSaved = useRef<string | null>(null)
+
+  useEffect(() => {
+    const loadSection = async () => {
+      try {
+        const response = await fetch(`/api/drafts/${params.id}/sections/${params.category}?token=${encodeURIComponent(searchParams.token || '')}`)
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || 'Failed to load section')
+          return
+        }
+        setSection(data)
+        setAnswers(data.answers)
+        setCompletedAt(data.completedAt)
+        lastSaved.current = JSON.stringify(data.answers)
+      } catch (err) {
+        console.error('Failed to load section:', err)
+        setError('Failed to load section')
+      }
+    }
+
+    loadSection()
+  }, [params.id, params.category, searchParams.token])
+
+  // Save shortly after each change, like the PM's draft autosave
+  const serialized = answers ? JSON.stringify(answers) : null
+  useEffect(() => {
+    if (!serialized || serialized === lastSaved.current || section?.status === 'submitted') return
+
+    const timer = setTimeout(async () => {
+      setSaveStatus('saving')
+      try {
+        const response = await fetch(`/api/drafts/${params.id}/sections/${params.category}/answers`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: searchParams.token, answers: JSON.parse(serialized) })
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || 'Failed to save section')
+          setSaveStatus('idle')
+          return
+        }
+        lastSaved.current = serialized
+        setCompletedAt(data.completedAt)
+        setSaveStatus('saved')
+      } catch (err) {
+        console.error('Failed to save section:', err)
+        setSaveStatus('local')
+      }
+    }, SAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [serialized])
+
+  const updateAnswers = (field: keyof ChecklistAnswers, questionId: number, value: any) => {
+    setAnswers(prev => prev && { ...prev, [field]: { ...prev[field], [questionId]: value } })
+  }
+
+  // Same maturity-to-answer rule as the full checklist
+  const handleMaturityChange = (question: ChecklistQuestion, level: MaturityLevel) => {
+    setAnswers(prev => prev && {
+      ...prev,
+      maturities: { ...prev.maturities, [question.id]: level },
+      responses: { ...prev.responses, [question.id]: answerFromMaturity(level, question.targetMaturity) }
+    })
+  }
+
+  const category = categoryInfo[params.category]
+  const questions = checklistQuestions.filter(q => q.category === params.category)
+  const completion = answers ? getSectionCompletion(answers, params.category) : { answered: 0, total: questions.length }
+  const readOnly = section?.status === 'submitted'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <main className="px-6 py-8">
+        <div className="max-w-6xl mx-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-6 text-center">
+              <p className="font-medium">{error}</p>
+            </div>
+          )}
+
+          {!error && !section && (
+            <div className="flex justify-center py-16">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {!error && section && answers && category && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+              <div className="flex items-center mb-6">
+                <div className="w-12 h-12 rounded-lg bg-gray-600 flex items-center justify-center text-xl mr-4 shadow-sm">
+                  {category.icon}
+                </div>
+                <div className="flex-1">
+                  <h2 className="text-2xl font-semibold text-gray-900 mb-2">{category.title}</h2>
+                  <p className="text-gray-600 text-sm mb-2">
+                    {section.productManagerName || 'The product manager'} asked {section.owner} to answer this section
+                    {section.productName && <> of the <span className="font-medium">{section.productName}</span> assessment</>}.
+                  </p>
+                  <div className="text-sm text-gray-500">
+                    {completion.answered}/{completion.total} questions answered
+                    {completedAt && ' ✓ Section complete'}
+                  </div>
+                </div>
+                <span className={`text-sm ${saveStatus === 'local' ? 'text-amber-700' : 'text-gray-500'}`}>
+                  {saveStatusLabels[saveStatus]}
+                </span>
+              </div>
+
+              {readOnly && (
+                <p className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700 mb-6">
+                  This assessment has already been submitted; answers can no longer be changed.
+                </p>
+              )}
+
+              <div className="space-y-6">
+                {questions.map((question, index) => (
+                  <ChecklistQuestionCard
+                    key={question.id}
+                    question={question}
+                    index={index}
+                    answers={answers}
+                    readOnly={readOnly}
+                    onMaturityChange={level => handleMaturityChange(question, level)}
+                    onAnswerChange={(answer: ChecklistAnswer) => updateAnswers('responses', question.id, answer)}
+                    onJustificationChange={justification => updateAnswers('justifications', question.id, justification)}
+                    onEvidenceChange={items => updateAnswers('evidence', question.id, items)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
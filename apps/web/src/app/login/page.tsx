@@ -0,0 +1,113 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import AppHeader from '@/components/AppHeader'
+
+export default function LoginPage({ searchParams }: { searchParams: { returnTo?: string, error?: string } }) {
+  const [provider, setProvider] = useState<'local' | 'oidc' | null>(null)
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(searchParams.error || null)
+  const [isSigningIn, setIsSigningIn] = useState(false)
+
+  const returnTo = searchParams.returnTo?.startsWith('/') && !searchParams.returnTo.startsWith('//') ? searchParams.returnTo : '/'
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session')
+        const data = await response.json()
+        if (response.ok) {
+          window.location.href = returnTo // Already signed in
+          return
+        }
+        setProvider(data.provider || 'local')
+      } catch (err) {
+        console.error('Failed to load session:', err)
+        setProvider('local')
+      }
+    }
+
+    loadSession()
+  }, [returnTo])
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSigningIn(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to sign in')
+        return
+      }
+      window.location.href = returnTo
+    } catch (err) {
+      console.error('Sign-in failed:', err)
+      setError('Failed to sign in')
+    } finally {
+      setIsSigningIn(false)
+    }
+  }
+
+  const inputClass = 'w-full p-3 border border-gray-300 rounded-lg text-gray-900'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <main className="px-6 py-16">
+        <div className="max-w-md mx-auto bg-white rounded-lg border border-gray-200 p-8 shadow-sm">
+          <h2 className="text-2xl font-semibold text-gray-900 mb-2">Sign in</h2>
+          <p className="text-gray-600 mb-6">Assessments are shared with reviewers and risk officers according to your role.</p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-3 mb-4 text-sm">{error}</div>
+          )}
+
+          {provider === 'oidc' && (
+            <a
+              href={`/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`}
+              className="block w-full text-center px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium"
+            >
+              Sign in with single sign-on
+            </a>
+          )}
+
+          {provider === 'local' && (
+            <form onSubmit={signIn} className="space-y-4">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email"
+                required
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                required
+                className={inputClass}
+              />
+              <button
+                type="submit"
+                disabled={isSigningIn}
+                className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium disabled:opacity-60"
+              >
+                {isSigningIn ? 'Signing in...' : 'Sign in'}
+              </button>
+            </form>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import AppHeader from '@/components/AppHeader'
+import { categoryInfo, checklistQuestions } from '@/components/checklistData'
+import { riskCategoryKeys } from '@/utils/riskManifest'
+import { Organization } from '@/utils/organization'
+import { hasPermission } from '@/utils/permissions'
+import { useSession } from '@/utils/useSession'
+
+export default function OrganizationPage() {
+  const user = useSession()
+  const [organization, setOrganization] = useState<Organization | null>(null)
+  const [form, setForm] = useState({ name: '', reportTitle: '', high: '', medium: '' })
+  const [weights, setWeights] = useState<Record<number, string>>({})
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  const canManage = hasPermission(user, 'organization:manage')
+
+  const applyOrganization = (loaded: Organization) => {
+    setOrganization(loaded)
+    setForm({
+      name: loaded.name,
+      reportTitle: loaded.reportTitle,
+      high: String(loaded.riskThresholds.high),
+      medium: String(loaded.riskThresholds.medium)
+    })
+    const overrides: Record<number, string> = {}
+    Object.entries(loaded.questionWeights).forEach(([id, weight]) => { overrides[parseInt(id)] = String(weight) })
+    setWeights(overrides)
+  }
+
+  useEffect(() => {
+    const loadOrganization = async () => {
+      try {
+        const response = await fetch('/api/organization')
+        const data = await response.json()
+        if (response.ok) {
+          applyOrganization(data.organization)
+        } else {
+          setError(data.error || 'Failed to load organization')
+        }
+      } catch (err) {
+        console.error('Failed to load organization:', err)
+        setError('Failed to load organization')
+      }
+    }
+
+    loadOrganization()
+  }, [])
+
+  const save = async () => {
+    setIsSaving(true)
+    setSaved(false)
+    try {
+      const questionWeights: Record<number, number> = {}
+      Object.entries(weights).forEach(([id, weight]) => {
+        if (weight.trim()) questionWeights[parseInt(id)] = Number(weight)
+      })
+      const response = await fetch('/api/organization', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          reportTitle: form.reportTitle,
+          riskThresholds: { high: Number(form.high), medium: Number(form.medium) },
+          questionWeights
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
+        if (!data.fieldErrors) alert('Failed to save organization: ' + data.error)
+        return
+      }
+      setFieldErrors({})
+      applyOrganization(data.organization)
+      setSaved(true)
+    } catch (err) {
+      alert('Failed to save organization')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full p-2 border border-gray-300 rounded-lg text-sm text-gray-900 disabled:bg-gray-50'
+  const fieldError = (key: string) => fieldErrors[key] && <p className="text-sm text-red-600 mt-1">{fieldErrors[key]}</p>
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <main className="px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-6 text-center">{error}</div>
+          )}
+
+          {organization && (
+            <>
+              <div>
+                <h2 className="text-2xl font-semibold text-gray-900">Organization settings</h2>
+                <p className="text-gray-600 mt-1">
+                  Apply to assessments submitted from now on, and to stored ones when they are next re-scored.
+                  {!canManage && ' Only admins can change them.'}
+                </p>
+              </div>
+
+              <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="text-sm text-gray-700">
+                  Name
+                  <input type="text" value={form.name} disabled={!canManage} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />
+                  {fieldError('name')}
+                </label>
+                <label className="text-sm text-gray-700">
+                  PDF report header
+                  <input type="text" value={form.reportTitle} disabled={!canManage} onChange={(e) => setForm({ ...form, reportTitle: e.target.value })} className={inputClass} />
+                  {fieldError('reportTitle')}
+                </label>
+                <label className="text-sm text-gray-700">
+                  High risk from score
+                  <input type="number" min={20} max={80} value={form.high} disabled={!canManage} onChange={(e) => setForm({ ...form, high: e.target.value })} className={inputClass} />
+                  {fieldError('riskThresholds.high')}
+                </label>
+                <label className="text-sm text-gray-700">
+                  Medium risk from score
+                  <input type="number" min={20} max={80} value={form.medium} disabled={!canManage} onChange={(e) => setForm({ ...form, medium: e.target.value })} className={inputClass} />
+                  {fieldError('riskThresholds.medium')}
+                </label>
+              </div>
+
+              <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Checklist weights</h3>
+                <p className="text-sm text-gray-600 mb-4">How much each implemented control reduces its risk score (1-10). Leave blank to use the framework default.</p>
+                {riskCategoryKeys.map(category => (
+                  <div key={category} className="mb-6">
+                    <div className="text-gray-900 font-medium mb-2">{categoryInfo[category]?.title || category}</div>
+                    <div className="space-y-2">
+                      {checklistQuestions.filter(q => q.category === category).map(question => (
+                        <div key={question.id}>
+                          <div className="flex items-center gap-3">
+                            <span className="flex-1 text-sm text-gray-700">#{question.id} {question.question}</span>
+                            <input
+                              type="number"
+                              min={1}
+                              max={10}
+                              value={weights[question.id] ?? ''}
+                              placeholder={String(question.weight)}
+                              disabled={!canManage}
+                              onChange={(e) => setWeights({ ...weights, [question.id]: e.target.value })}
+                              className="w-20 p-2 border border-gray-300 rounded-lg text-sm text-gray-900 disabled:bg-gray-50"
+                            />
+                          </div>
+                          {fieldError(`questionWeights.${question.id}`)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {canManage && (
+                <div className="flex items-center gap-4">
+                  <button
+                    onClick={save}
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm disabled:opacity-60"
+                  >
+                    {isSaving ? 'Saving...' : 'Save settings'}
+                  </button>
+                  {saved && <span className="text-sm text-green-700">Settings saved</span>}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
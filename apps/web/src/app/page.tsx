@@ -1,29 +1,143 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import AssessmentForm from '@/components/AssessmentForm'
 import ChecklistAssessment from '@/components/ChecklistAssessment'
 import ResultsDisplay from '@/components/ResultsDisplay'
+import AppHeader from '@/components/AppHeader'
+import { DraftChecklistAnswers, DraftSections, clearLocalDraft, emptyChecklistAnswers, getDraftLink, loadDraft, useDraftAutosave } from '@/utils/draftAutosave'
 
-export default function Home() {
+const SECTION_POLL_MS = 15000 // How often delegated sections are refreshed while the checklist is open
+
+const draftStatusLabels = {
+  idle: '',
+  saving: 'Saving draft...',
+  saved: 'Draft saved',
+  local: 'Saved on this device only; will sync when the server is reachable'
+}
+
+export default function Home({ searchParams }: { searchParams: { draft?: string } }) {
   const [currentStep, setCurrentStep] = useState('form') // 'form', 'checklist', 'results'
-  const [formData, setFormData] = useState(null)
+  const [formData, setFormData] = useState<Record<string, string> | null>(null)
   const [assessmentResult, setAssessmentResult] = useState(null)
   const [isLoading, setIsLoading] = useState(false)
 
+  // Answers mirrored from the form components for autosave
+  const [draftFormData, setDraftFormData] = useState<Record<string, string>>({})
+  const [draftChecklist, setDraftChecklist] = useState<DraftChecklistAnswers>(emptyChecklistAnswers)
+  const [resumedDraftId, setResumedDraftId] = useState<string | undefined>(undefined)
+  const [draftLoaded, setDraftLoaded] = useState(false)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [draftSections, setDraftSections] = useState<DraftSections>({})
+  const [delegatedAnswers, setDelegatedAnswers] = useState<DraftChecklistAnswers>(emptyChecklistAnswers)
+
+  const { draftId, status: draftStatus, resetDraft } = useDraftAutosave(
+    { step: currentStep === 'checklist' ? 'checklist' : 'form', formData: draftFormData, checklist: draftChecklist },
+    draftLoaded && currentStep !== 'results' && Object.values(draftFormData).some(Boolean),
+    resumedDraftId
+  )
+
+  // Resume the draft from ?draft=<id>, or an unsynced local one; submitted drafts open their assessment
+  useEffect(() => {
+    const resume = async () => {
+      const draft = await loadDraft(searchParams.draft)
+      if (draft.assessmentId) {
+        window.location.replace(`/assessments/${draft.assessmentId}`)
+        return
+      }
+      if (draft.error) {
+        alert(draft.error)
+      }
+      if (draft.content) {
+        setDraftFormData(draft.content.formData || {})
+        setDraftChecklist(draft.content.checklist || emptyChecklistAnswers)
+        setDraftSections(draft.sections || {})
+        setDelegatedAnswers(draft.content.checklist || emptyChecklistAnswers)
+        if (draft.content.step === 'checklist') {
+          setFormData(draft.content.formData || {})
+          setCurrentStep('checklist')
+        }
+      }
+      setResumedDraftId(draft.id)
+      setDraftLoaded(true)
+    }
+
+    resume()
+  }, [])
+
+  // Keep the resumable link in the address bar
+  useEffect(() => {
+    if (draftId && currentStep !== 'results') {
+      window.history.replaceState(null, '', `/?draft=${draftId}`)
+    }
+  }, [draftId])
+
+  // Pick up section owners' answers while any section is delegated
+  const hasDelegatedSections = Object.keys(draftSections).length > 0
+  useEffect(() => {
+    if (!draftId || currentStep !== 'checklist' || !hasDelegatedSections) return
+
+    const refresh = async () => {
+      try {
+        const response = await fetch(`/api/drafts/${draftId}`)
+        if (!response.ok) return
+        const data = await response.json()
+        applyDraft(data.draft)
+      } catch (error) {
+        console.error('Failed to refresh delegated sections:', error)
+      }
+    }
+
+    const timer = setInterval(refresh, SECTION_POLL_MS)
+    return () => clearInterval(timer)
+  }, [draftId, currentStep, hasDelegatedSections])
+
+  const applyDraft = (draft: any) => {
+    setDraftSections(draft.sections || {})
+    setDelegatedAnswers(draft.checklist)
+  }
+
+  const assignSection = async (category: string, owner: string, email: string) => {
+    const response = await fetch(`/api/drafts/${draftId}/sections/${category}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ owner, email })
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to assign section')
+    applyDraft(data.draft)
+  }
+
+  const unassignSection = async (category: string) => {
+    const response = await fetch(`/api/drafts/${draftId}/sections/${category}`, { method: 'DELETE' })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to unassign section')
+    applyDraft(data.draft)
+  }
+
+  // Point the address bar at the stored assessment so a refresh reopens it
+  const showResults = (result: any) => {
+    setAssessmentResult(result)
+    setCurrentStep('results')
+    // The submitted draft is now the assessment; drop any unsynced local copy
+    clearLocalDraft(draftId)
+    clearLocalDraft()
+    if (result.id) {
+      window.history.replaceState(null, '', `/assessments/${result.id}`)
+    }
+  }
+
   const handleFormComplete = (result: any) => {
     if (result.showChecklist) {
       setFormData(result.formData)
       setCurrentStep('checklist')
     } else {
-      setAssessmentResult(result)
-      setCurrentStep('results')
+      showResults(result)
     }
   }
 
   const handleChecklistComplete = (result: any) => {
-    setAssessmentResult(result)
-    setCurrentStep('results')
+    showResults(result)
   }
 
   const handleBackToForm = () => {
@@ -34,36 +148,48 @@ export default function Home() {
     setCurrentStep('form')
     setFormData(null)
     setAssessmentResult(null)
+    setDraftFormData({})
+    setDraftChecklist(emptyChecklistAnswers)
+    setDraftSections({})
+    setDelegatedAnswers(emptyChecklistAnswers)
+    resetDraft()
+    window.history.replaceState(null, '', '/')
+  }
+
+  const copyDraftLink = async () => {
+    if (!draftId) return
+    await navigator.clipboard.writeText(getDraftLink(draftId))
+    setLinkCopied(true)
+    setTimeout(() => setLinkCopied(false), 2000)
   }
 
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Clean Header */}
-      <header className="bg-white border-b border-gray-200 px-6 py-4">
-        <div className="max-w-7xl mx-auto">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-4">
-              <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
-                <span className="text-white font-bold">🛡️</span>
-              </div>
-              <div>
-                <h1 className="text-xl font-semibold text-gray-900">FinAIReadiness</h1>
-                <p className="text-sm text-gray-600">Enterprise AI Risk Assessment</p>
-              </div>
-            </div>
-            <div className="hidden md:flex items-center space-x-6 text-sm text-gray-500">
-              <span>Framework v2.0</span>
-              <span>•</span>
-              <span>Industry Standard</span>
-            </div>
-          </div>
-        </div>
-      </header>
+      <AppHeader />
 
       {/* Main Content */}
       <main className="px-6 py-8">
         <div className="max-w-7xl mx-auto">
-          {currentStep === 'form' && (
+          {/* Draft autosave status and resumable link */}
+          {currentStep !== 'results' && draftStatus !== 'idle' && (
+            <div className="flex items-center justify-end gap-4 text-sm text-gray-500 mb-4">
+              <span className={draftStatus === 'local' ? 'text-amber-700' : ''}>{draftStatusLabels[draftStatus]}</span>
+              {draftId && (
+                <button onClick={copyDraftLink} className="text-blue-600 hover:underline">
+                  {linkCopied ? 'Link copied' : 'Copy resume link'}
+                </button>
+              )}
+            </div>
+          )}
+
+          {!draftLoaded && (
+            <div className="flex justify-center py-16">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {draftLoaded && currentStep === 'form' && (
             <div>
               {/* Hero Section */}
               <div className="text-center mb-6">
@@ -81,6 +207,9 @@ export default function Home() {
                 onComplete={handleFormComplete}
                 isLoading={isLoading}
                 setIsLoading={setIsLoading}
+                initialData={draftFormData}
+                onChange={setDraftFormData}
+                draftId={draftId}
               />
             </div>
           )}
@@ -92,6 +221,13 @@ export default function Home() {
               onBack={handleBackToForm}
               isLoading={isLoading}
               setIsLoading={setIsLoading}
+              initialAnswers={draftChecklist}
+              onChange={setDraftChecklist}
+              draftId={draftId}
+              sections={draftSections}
+              delegatedAnswers={delegatedAnswers}
+              onAssignSection={assignSection}
+              onUnassignSection={unassignSection}
             />
           )}
           
@@ -100,6 +236,7 @@ export default function Home() {
               <ResultsDisplay 
                 result={assessmentResult} 
                 onReset={handleReset}
+                onResultChange={setAssessmentResult}
               />
             </div>
           )}
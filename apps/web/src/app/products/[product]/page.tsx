@@ -0,0 +1,144 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import AppHeader from '@/components/AppHeader'
+import ScoreTrendChart, { formatRunDate } from '@/components/ScoreTrendChart'
+import { ProductHistory, formatAnswerState } from '@/utils/assessmentHistory'
+import { getRiskShortName } from '@/utils/riskManifest'
+
+export default function ProductHistoryPage({ params }: { params: { product: string } }) {
+  const [history, setHistory] = useState<ProductHistory | null>(null)
+  const [mitigationUrls, setMitigationUrls] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const [historyResponse, frameworkResponse] = await Promise.all([
+          fetch(`/api/products/${params.product}/history`),
+          fetch('/api/framework-data')
+        ])
+        const data = await historyResponse.json()
+        if (historyResponse.ok) {
+          setHistory(data)
+        } else {
+          setError(data.error || 'Failed to load product history')
+        }
+        if (frameworkResponse.ok) {
+          const frameworkData = await frameworkResponse.json()
+          setMitigationUrls(frameworkData.mitigationUrls || {})
+        }
+      } catch (err) {
+        console.error('Failed to load product history:', err)
+        setError('Failed to load product history')
+      }
+    }
+
+    loadHistory()
+  }, [params.product])
+
+  const riskKeys = history ? Array.from(new Set(history.runs.flatMap(run => Object.keys(run.riskScores)))) : []
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <main className="px-6 py-8">
+        <div className="max-w-7xl mx-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-6 text-center">
+              <p className="font-medium">{error}</p>
+            </div>
+          )}
+
+          {!error && !history && (
+            <div className="flex justify-center py-16">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {history && (
+            <div className="space-y-8">
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900">{history.productName}</h2>
+                <p className="text-gray-600 mt-1">
+                  {history.runs.length} assessment{history.runs.length > 1 ? 's' : ''} · Risk scores over time (higher = higher risk)
+                </p>
+              </div>
+
+              <ScoreTrendChart runs={history.runs} />
+
+              {/* Run by run: scores, changed answers and newly satisfied mitigations */}
+              <div className="bg-white rounded-lg border border-gray-200 overflow-hidden shadow-sm">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-gray-100 border-b border-gray-200">
+                        <th className="text-left p-3 text-gray-900 font-semibold">Date</th>
+                        <th className="text-left p-3 text-gray-900 font-semibold">Type</th>
+                        <th className="text-left p-3 text-gray-900 font-semibold">Overall</th>
+                        {riskKeys.map(risk => (
+                          <th key={risk} className="text-left p-3 text-gray-900 font-semibold">{getRiskShortName(risk)}</th>
+                        ))}
+                        <th className="text-left p-3 text-gray-900 font-semibold">Changes since previous checklist</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {history.runs.map((run, index) => ({ run, previous: history.runs[index - 1] })).reverse().map(({ run, previous }) => (
+                        <tr key={run.id} className="border-b border-gray-100 align-top">
+                          <td className="p-3">
+                            <a href={`/assessments/${run.id}`} className="text-blue-600 hover:underline">{formatRunDate(run.createdAt)}</a>
+                            {previous && (
+                              <div>
+                                <a href={`/assessments/compare?from=${previous.id}&to=${run.id}`} className="text-xs text-gray-500 hover:underline">Compare with previous</a>
+                              </div>
+                            )}
+                          </td>
+                          <td className="p-3 text-gray-700">{run.assessmentType === 'gap_analysis' ? 'Gap analysis' : 'Standard'}</td>
+                          <td className="p-3 font-semibold text-gray-900">{run.overallRiskScore}</td>
+                          {riskKeys.map(risk => (
+                            <td key={risk} className="p-3 text-gray-700">{run.riskScores[risk] ?? '-'}</td>
+                          ))}
+                          <td className="p-3 text-gray-700">
+                            {run.answerChanges.length === 0 && run.newlySatisfiedMitigations.length === 0 ? (
+                              <span className="text-gray-400">{run.comparedTo ? 'No changes' : '-'}</span>
+                            ) : (
+                              <div className="space-y-2">
+                                {run.answerChanges.length > 0 && (
+                                  <ul className="space-y-1">
+                                    {run.answerChanges.map(change => (
+                                      <li key={change.questionId}>
+                                        #{change.questionId} {change.shortName}: {formatAnswerState(change.before)} → {formatAnswerState(change.after)}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                                {run.newlySatisfiedMitigations.length > 0 && (
+                                  <div className="text-green-700">
+                                    Newly satisfied:{' '}
+                                    {run.newlySatisfiedMitigations.map((mitigationId, index) => (
+                                      <span key={mitigationId}>
+                                        {index > 0 && ', '}
+                                        {mitigationUrls[mitigationId] ? (
+                                          <a href={mitigationUrls[mitigationId]} target="_blank" rel="noopener noreferrer" className="hover:underline">{mitigationId}</a>
+                                        ) : mitigationId}
+                                      </span>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
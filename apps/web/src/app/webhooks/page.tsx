@@ -0,0 +1,336 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import AppHeader from '@/components/AppHeader'
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookSubscription, webhookDeliveryStatusLabels, webhookEventLabels } from '@/utils/webhooks'
+
+type SubscriptionView = Omit<WebhookSubscription, 'secret'>
+
+const statusClasses: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+const emptyForm = { url: '', events: ['assessment.completed'] as WebhookEvent[], description: '' }
+
+export default function WebhooksPage() {
+  const [subscriptions, setSubscriptions] = useState<SubscriptionView[] | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [secret, setSecret] = useState<{ subscriptionId: string, value: string } | null>(null)
+  const [filter, setFilter] = useState({ subscriptionId: '', status: '' })
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadSubscriptions = async () => {
+    try {
+      const response = await fetch('/api/webhooks')
+      const data = await response.json()
+      if (response.ok) {
+        setSubscriptions(data.subscriptions)
+      } else {
+        setError(data.error || 'Failed to load webhooks')
+      }
+    } catch (err) {
+      console.error('Failed to load webhooks:', err)
+      setError('Failed to load webhooks')
+    }
+  }
+
+  const loadDeliveries = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (filter.subscriptionId) params.set('subscriptionId', filter.subscriptionId)
+      if (filter.status) params.set('status', filter.status)
+      const response = await fetch(`/api/webhooks/deliveries?${params.toString()}`)
+      const data = await response.json()
+      if (response.ok) setDeliveries(data.deliveries)
+    } catch (err) {
+      console.error('Failed to load webhook deliveries:', err)
+    }
+  }
+
+  useEffect(() => {
+    loadSubscriptions()
+  }, [])
+
+  useEffect(() => {
+    loadDeliveries()
+  }, [filter])
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setForm({ ...form, events: form.events.includes(event) ? form.events.filter(e => e !== event) : [...form.events, event] })
+  }
+
+  const createWebhook = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
+        if (!data.fieldErrors) alert('Failed to create webhook: ' + data.error)
+        return
+      }
+      setFieldErrors({})
+      setForm(emptyForm)
+      setSecret({ subscriptionId: data.subscription.id, value: data.secret })
+      loadSubscriptions()
+    } catch (err) {
+      alert('Failed to create webhook')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const setActive = async (subscription: SubscriptionView, active: boolean) => {
+    const response = await fetch(`/api/webhooks/${subscription.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active })
+    })
+    if (!response.ok) alert('Failed to update webhook')
+    loadSubscriptions()
+  }
+
+  const rotateSecret = async (subscription: SubscriptionView) => {
+    if (!confirm(`Rotate the secret for ${subscription.url}? Signatures made with the old secret stop verifying right away.`)) return
+    const response = await fetch(`/api/webhooks/${subscription.id}/secret`, { method: 'POST' })
+    const data = await response.json()
+    if (!response.ok) {
+      alert('Failed to rotate secret: ' + data.error)
+      return
+    }
+    setSecret({ subscriptionId: subscription.id, value: data.secret })
+  }
+
+  const deleteWebhook = async (subscription: SubscriptionView) => {
+    if (!confirm(`Delete the webhook for ${subscription.url}? Its delivery log is kept.`)) return
+    const response = await fetch(`/api/webhooks/${subscription.id}`, { method: 'DELETE' })
+    if (!response.ok) alert('Failed to delete webhook')
+    if (secret?.subscriptionId === subscription.id) setSecret(null)
+    loadSubscriptions()
+  }
+
+  const replay = async (delivery: WebhookDelivery) => {
+    const response = await fetch(`/api/webhooks/deliveries/${delivery.id}/replay`, { method: 'POST' })
+    const data = await response.json()
+    if (!response.ok) {
+      alert('Failed to replay delivery: ' + data.error)
+      return
+    }
+    // The first attempt is already under way; give it a moment before refreshing
+    setTimeout(loadDeliveries, 1000)
+  }
+
+  const inputClass = 'w-full p-2 border border-gray-300 rounded-lg text-sm text-gray-900'
+  const subscriptionUrl = (id: string) => subscriptions?.find(s => s.id === id)?.url
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <main className="px-6 py-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900">Webhooks</h2>
+            <p className="text-gray-600 mt-1">
+              Send assessment events to GRC tools and model inventories. Each request is a signed JSON POST;
+              failed deliveries are retried with backoff.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-6 text-center">{error}</div>
+          )}
+
+          {secret && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-900">
+              <p className="font-medium">Signing secret for {subscriptionUrl(secret.subscriptionId)}</p>
+              <p className="mt-1">Copy it now; it is not shown again.</p>
+              <code className="block mt-2 p-2 bg-white border border-yellow-200 rounded break-all">{secret.value}</code>
+              <button onClick={() => setSecret(null)} className="mt-2 text-blue-600 hover:underline">Done</button>
+            </div>
+          )}
+
+          {subscriptions && (
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900">Subscriptions</h3>
+              {subscriptions.length === 0 ? (
+                <p className="text-sm text-gray-500">No webhooks yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-100 border-b border-gray-200">
+                      <th className="text-left p-3 text-gray-900 font-semibold">URL</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">Events</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">Status</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {subscriptions.map(subscription => (
+                      <tr key={subscription.id} className="border-b border-gray-100">
+                        <td className="p-3 text-gray-700 break-all">
+                          {subscription.url}
+                          {subscription.description && <div className="text-gray-500">{subscription.description}</div>}
+                        </td>
+                        <td className="p-3 text-gray-700">{subscription.events.map(event => webhookEventLabels[event]).join(', ')}</td>
+                        <td className="p-3 text-gray-700">{subscription.active ? 'Active' : 'Paused'}</td>
+                        <td className="p-3 text-right space-x-3 whitespace-nowrap">
+                          <button onClick={() => setActive(subscription, !subscription.active)} className="text-blue-600 hover:underline">
+                            {subscription.active ? 'Pause' : 'Resume'}
+                          </button>
+                          <button onClick={() => rotateSecret(subscription)} className="text-blue-600 hover:underline">Rotate secret</button>
+                          <button onClick={() => deleteWebhook(subscription)} className="text-red-600 hover:underline">Delete</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <div className="border-t border-gray-200 pt-4 space-y-3">
+                <h4 className="font-medium text-gray-900">Add a webhook</h4>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Payload URL</label>
+                  <input type="url" value={form.url} placeholder="https://grc.example.com/hooks/finai" onChange={(e) => setForm({ ...form, url: e.target.value })} className={inputClass} />
+                  {fieldErrors.url && <p className="text-sm text-red-600 mt-1">{fieldErrors.url}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Events</label>
+                  <div className="flex flex-wrap gap-4">
+                    {(Object.keys(webhookEventLabels) as WebhookEvent[]).map(event => (
+                      <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="checkbox" checked={form.events.includes(event)} onChange={() => toggleEvent(event)} />
+                        {webhookEventLabels[event]} <code className="text-gray-500">{event}</code>
+                      </label>
+                    ))}
+                  </div>
+                  {fieldErrors.events && <p className="text-sm text-red-600 mt-1">{fieldErrors.events}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+                  <input type="text" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} className={inputClass} />
+                </div>
+                <button
+                  onClick={createWebhook}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Add webhook'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {subscriptions && (
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <h3 className="text-lg font-semibold text-gray-900">Recent deliveries</h3>
+                <div className="flex items-center gap-3 text-sm">
+                  <select value={filter.subscriptionId} onChange={(e) => setFilter({ ...filter, subscriptionId: e.target.value })} className="p-2 border border-gray-300 rounded-lg text-gray-900">
+                    <option value="">All webhooks</option>
+                    {subscriptions.map(subscription => <option key={subscription.id} value={subscription.id}>{subscription.url}</option>)}
+                  </select>
+                  <select value={filter.status} onChange={(e) => setFilter({ ...filter, status: e.target.value })} className="p-2 border border-gray-300 rounded-lg text-gray-900">
+                    <option value="">Any status</option>
+                    {(Object.keys(webhookDeliveryStatusLabels) as WebhookDeliveryStatus[]).map(status => (
+                      <option key={status} value={status}>{webhookDeliveryStatusLabels[status]}</option>
+                    ))}
+                  </select>
+                  <button onClick={loadDeliveries} className="text-blue-600 hover:underline">Refresh</button>
+                </div>
+              </div>
+
+              {deliveries.length === 0 ? (
+                <p className="text-sm text-gray-500">No deliveries yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-100 border-b border-gray-200">
+                      <th className="text-left p-3 text-gray-900 font-semibold">Created</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">Event</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">Assessment</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">Status</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">Attempts</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold">Last result</th>
+                      <th className="text-left p-3 text-gray-900 font-semibold"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {deliveries.map(delivery => {
+                      const last = delivery.attempts[delivery.attempts.length - 1]
+                      return (
+                        <Fragment key={delivery.id}>
+                          <tr className="border-b border-gray-100">
+                            <td className="p-3 text-gray-700 whitespace-nowrap">
+                              {new Date(delivery.createdAt).toLocaleString()}
+                              {delivery.replayOf && <div className="text-gray-500">Replay</div>}
+                            </td>
+                            <td className="p-3 text-gray-700">{webhookEventLabels[delivery.event]}</td>
+                            <td className="p-3">
+                              <a href={`/assessments/${delivery.payload.data.assessment.id}`} className="text-blue-600 hover:underline">
+                                {delivery.payload.data.assessment.productName}
+                              </a>
+                            </td>
+                            <td className="p-3">
+                              <span className={`px-2 py-1 rounded text-xs font-medium ${statusClasses[delivery.status]}`}>
+                                {webhookDeliveryStatusLabels[delivery.status]}
+                              </span>
+                              {delivery.nextAttemptAt && (
+                                <div className="text-gray-500 mt-1">Next try {new Date(delivery.nextAttemptAt).toLocaleString()}</div>
+                              )}
+                            </td>
+                            <td className="p-3 text-gray-700">{delivery.attempts.length}</td>
+                            <td className="p-3 text-gray-700">{last ? last.statusCode ? `HTTP ${last.statusCode}` : last.error : '-'}</td>
+                            <td className="p-3 text-right space-x-3 whitespace-nowrap">
+                              <button onClick={() => setExpanded(expanded === delivery.id ? null : delivery.id)} className="text-blue-600 hover:underline">
+                                {expanded === delivery.id ? 'Hide' : 'Details'}
+                              </button>
+                              <button onClick={() => replay(delivery)} className="text-blue-600 hover:underline">Replay</button>
+                            </td>
+                          </tr>
+                          {expanded === delivery.id && (
+                            <tr className="border-b border-gray-100 bg-gray-50">
+                              <td colSpan={7} className="p-3 space-y-3">
+                                <div className="text-gray-700">
+                                  Sent to <span className="break-all">{delivery.url}</span> · delivery <code>{delivery.id}</code> · event <code>{delivery.payload.id}</code>
+                                </div>
+                                {delivery.attempts.length > 0 && (
+                                  <ul className="text-gray-700 space-y-1">
+                                    {delivery.attempts.map((attempt, i) => (
+                                      <li key={i}>
+                                        {new Date(attempt.at).toLocaleString()}: {attempt.statusCode ? `HTTP ${attempt.statusCode}` : 'no response'}
+                                        {attempt.error && ` (${attempt.error})`}, {attempt.durationMs} ms
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                                <pre className="p-3 bg-white border border-gray-200 rounded text-xs text-gray-800 overflow-x-auto">
+                                  {JSON.stringify(delivery.payload, null, 2)}
+                                </pre>
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
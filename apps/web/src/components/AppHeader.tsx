@@ -0,0 +1,46 @@
+'use client'
+
+import { signOut, useSession } from '../utils/useSession'
+import { hasPermission, roleLabels } from '../utils/permissions'
+
+export default function AppHeader() {
+  const user = useSession()
+
+  return (
+    <header className="bg-white border-b border-gray-200 px-6 py-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between">
+          <a href="/" className="flex items-center space-x-4">
+            <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold">🛡️</span>
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900">FinAIReadiness</h1>
+              <p className="text-sm text-gray-600">Enterprise AI Risk Assessment</p>
+            </div>
+          </a>
+          <div className="hidden md:flex items-center space-x-6 text-sm text-gray-500">
+            <span>Framework v2.0</span>
+            <span>•</span>
+            <span>Industry Standard</span>
+            {user && (
+              <>
+                <span>•</span>
+                <span className="text-gray-700">
+                  {user.name}
+                  <span className="text-gray-500"> ({user.roles.map(role => roleLabels[role]).join(', ')})</span>
+                </span>
+                <a href="/batches" className="text-blue-600 hover:underline">Batch</a>
+                <a href="/organization" className="text-blue-600 hover:underline">Organization</a>
+                {hasPermission(user, 'webhooks:manage') && (
+                  <a href="/webhooks" className="text-blue-600 hover:underline">Webhooks</a>
+                )}
+                <button onClick={signOut} className="text-blue-600 hover:underline">Sign out</button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </header>
+  )
+}
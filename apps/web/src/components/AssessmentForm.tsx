@@ -1,14 +1,17 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 
 interface AssessmentFormProps {
   onComplete: (result: any) => void
   isLoading: boolean
   setIsLoading: (loading: boolean) => void
+  initialData?: Record<string, string> // Answers restored from a draft
+  onChange?: (formData: Record<string, string>) => void
+  draftId?: string
 }
 
-export default function AssessmentForm({ onComplete, isLoading, setIsLoading }: AssessmentFormProps) {
+export default function AssessmentForm({ onComplete, isLoading, setIsLoading, initialData, onChange, draftId }: AssessmentFormProps) {
   const [formData, setFormData] = useState({
     productName: '',
     productManagerName: '',
@@ -18,13 +21,18 @@ export default function AssessmentForm({ onComplete, isLoading, setIsLoading }:
     dataSensitivity: '',
     industry: '',
     accuracyReq: '',
-    hasRiskAssessment: ''
+    hasRiskAssessment: '',
+    ...initialData
   })
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  useEffect(() => {
+    onChange?.(formData)
+  }, [formData])
+
   const isFormValid = () => {
     return formData.productName && formData.productManagerName && formData.productManagerEmail &&
            formData.aiModel && formData.useCase && 
@@ -46,7 +54,8 @@ export default function AssessmentForm({ onComplete, isLoading, setIsLoading }:
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ 
             userInputs: formData,
-            hasRiskAssessment: false 
+            hasRiskAssessment: false,
+            draftId
           })
         })
 
@@ -1,7 +1,22 @@
 'use client'
 
-import { useState } from 'react'
-import { checklistQuestions, categoryInfo, ChecklistData, ChecklistResponse, ChecklistAnswer } from './checklistData'
+import { useEffect, useState } from 'react'
+import {
+  checklistQuestions,
+  categoryInfo,
+  answerFromMaturity,
+  isQuestionAnswered,
+  buildChecklistData,
+  mergeAnswers,
+  ChecklistAnswers,
+  ChecklistQuestion,
+  ChecklistAnswer,
+  Evidence,
+  MaturityLevel
+} from './checklistData'
+import { riskCategoryKeys } from '../utils/riskManifest'
+import ChecklistQuestionCard from './ChecklistQuestionCard'
+import { DraftChecklistAnswers, DraftSections, getSectionLink } from '../utils/draftAutosave'
 
 interface ChecklistAssessmentProps {
   formData: any
@@ -9,6 +24,13 @@ interface ChecklistAssessmentProps {
   onBack: () => void
   isLoading: boolean
   setIsLoading: (loading: boolean) => void
+  initialAnswers?: DraftChecklistAnswers // Answers restored from a draft
+  onChange?: (answers: DraftChecklistAnswers) => void
+  draftId?: string
+  sections?: DraftSections // Sections delegated to other owners
+  delegatedAnswers?: DraftChecklistAnswers // Latest server copy, holding the owners' answers
+  onAssignSection?: (category: string, owner: string, email: string) => Promise<void>
+  onUnassignSection?: (category: string) => Promise<void>
 }
 
 export default function ChecklistAssessment({ 
@@ -16,46 +38,111 @@ export default function ChecklistAssessment({
   onComplete, 
   onBack, 
   isLoading, 
-  setIsLoading 
+  setIsLoading,
+  initialAnswers,
+  onChange,
+  draftId,
+  sections = {},
+  delegatedAnswers,
+  onAssignSection,
+  onUnassignSection
 }: ChecklistAssessmentProps) {
-  const [responses, setResponses] = useState<Record<number, ChecklistAnswer>>({})
+  const [responses, setResponses] = useState<Record<number, ChecklistAnswer>>(initialAnswers?.responses || {})
+  const [maturities, setMaturities] = useState<Record<number, MaturityLevel>>(initialAnswers?.maturities || {})
+  const [justifications, setJustifications] = useState<Record<number, string>>(initialAnswers?.justifications || {})
+  const [evidence, setEvidence] = useState<Record<number, Evidence[]>>(initialAnswers?.evidence || {})
+  const [assigningCategory, setAssigningCategory] = useState<string | null>(null)
+  const [ownerName, setOwnerName] = useState('')
+  const [ownerEmail, setOwnerEmail] = useState('')
+  const [copiedCategory, setCopiedCategory] = useState<string | null>(null)
+
+  useEffect(() => {
+    onChange?.({ responses, maturities, justifications, evidence })
+  }, [responses, maturities, justifications, evidence])
 
   const handleResponseChange = (questionId: number, answer: ChecklistAnswer) => {
     setResponses(prev => ({ ...prev, [questionId]: answer }))
   }
 
+  // Maturity drives the answer: at or above target is 'yes', in between is 'partial'
+  const handleMaturityChange = (question: ChecklistQuestion, level: MaturityLevel) => {
+    setMaturities(prev => ({ ...prev, [question.id]: level }))
+    handleResponseChange(question.id, answerFromMaturity(level, question.targetMaturity))
+  }
+
+  const handleJustificationChange = (questionId: number, justification: string) => {
+    setJustifications(prev => ({ ...prev, [questionId]: justification }))
+  }
+
+  const handleEvidenceChange = (questionId: number, items: Evidence[]) => {
+    setEvidence(prev => ({ ...prev, [questionId]: items }))
+  }
+
+  // Delegated sections show the owners' answers instead of the local ones
+  const delegatedQuestionIds = checklistQuestions.filter(q => sections[q.category]).map(q => q.id)
+  const answers: ChecklistAnswers = delegatedAnswers
+    ? mergeAnswers({ responses, maturities, justifications, evidence }, delegatedAnswers, delegatedQuestionIds)
+    : { responses, maturities, justifications, evidence }
+
+  const isAnswered = (questionId: number) => isQuestionAnswered(answers, questionId)
+
+  const assignSection = async (category: string) => {
+    if (!onAssignSection || !ownerName.trim()) return
+    try {
+      await onAssignSection(category, ownerName.trim(), ownerEmail.trim())
+      setAssigningCategory(null)
+      setOwnerName('')
+      setOwnerEmail('')
+    } catch (error) {
+      alert('Failed to assign section')
+      console.error(error)
+    }
+  }
+
+  // Take the section back, keeping whatever the owner answered so far
+  const unassignSection = async (category: string) => {
+    if (!onUnassignSection) return
+    const sectionIds = checklistQuestions.filter(q => q.category === category).map(q => q.id)
+    const sectionAnswers = mergeAnswers({ responses, maturities, justifications, evidence }, answers, sectionIds)
+    try {
+      await onUnassignSection(category)
+      setResponses(sectionAnswers.responses)
+      setMaturities(sectionAnswers.maturities)
+      setJustifications(sectionAnswers.justifications)
+      setEvidence(sectionAnswers.evidence || {})
+    } catch (error) {
+      alert('Failed to unassign section')
+      console.error(error)
+    }
+  }
+
+  const copySectionLink = async (category: string) => {
+    if (!draftId || !sections[category]) return
+    await navigator.clipboard.writeText(getSectionLink(draftId, category, sections[category].token))
+    setCopiedCategory(category)
+    setTimeout(() => setCopiedCategory(null), 2000)
+  }
+
   const getCompletionStats = () => {
     const totalQuestions = checklistQuestions.length
-    const answeredQuestions = Object.keys(responses).length
+    const answeredQuestions = checklistQuestions.filter(q => isAnswered(q.id)).length
     const completionPercentage = Math.round((answeredQuestions / totalQuestions) * 100)
     
     return { totalQuestions, answeredQuestions, completionPercentage }
   }
 
+  // Delegated sections count once their owner has completed them
   const isFormComplete = () => {
-    return checklistQuestions.every(q => responses[q.id] !== undefined)
+    return checklistQuestions.every(q => isAnswered(q.id)) && Object.values(sections).every(section => section.completedAt)
   }
 
   const submitChecklist = async () => {
     if (!isFormComplete()) {
-      alert('Please answer all questions before submitting')
+      alert('Please answer all questions (with a justification for N/A) before submitting')
       return
     }
 
-    // Organize responses by category
-    const checklistData: ChecklistData = {
-      hallucination: [],
-      promptInjection: [],
-      dataLeakage: []
-    }
-
-    checklistQuestions.forEach(question => {
-      const response: ChecklistResponse = {
-        questionId: question.id,
-        answer: responses[question.id]
-      }
-      checklistData[question.category].push(response)
-    })
+    const checklistData = buildChecklistData(answers)
 
     setIsLoading(true)
     try {
@@ -65,7 +152,8 @@ export default function ChecklistAssessment({
         body: JSON.stringify({ 
           userInputs: formData,
           hasRiskAssessment: true,
-          checklistData 
+          checklistData,
+          draftId
         })
       })
 
@@ -84,13 +172,13 @@ export default function ChecklistAssessment({
   }
 
   const { totalQuestions, answeredQuestions, completionPercentage } = getCompletionStats()
+  const pendingOwners = Object.values(sections).filter(section => !section.completedAt).map(section => section.owner)
 
   // Group questions by category
-  const questionsByCategory = {
-    hallucination: checklistQuestions.filter(q => q.category === 'hallucination'),
-    promptInjection: checklistQuestions.filter(q => q.category === 'promptInjection'),
-    dataLeakage: checklistQuestions.filter(q => q.category === 'dataLeakage')
-  }
+  const questionsByCategory: Record<string, ChecklistQuestion[]> = {}
+  riskCategoryKeys.forEach(category => {
+    questionsByCategory[category] = checklistQuestions.filter(q => q.category === category)
+  })
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -124,8 +212,9 @@ export default function ChecklistAssessment({
         <div className="max-w-6xl mx-auto space-y-8">
           {/* Categories */}
           {Object.entries(questionsByCategory).map(([categoryKey, questions]) => {
-            const category = categoryInfo[categoryKey as keyof typeof categoryInfo]
-            const categoryResponses = questions.filter(q => responses[q.id] !== undefined).length
+            const category = categoryInfo[categoryKey]
+            const categoryResponses = questions.filter(q => isAnswered(q.id)).length
+            const assignment = sections[categoryKey]
             
             return (
               <div key={categoryKey} className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
@@ -145,62 +234,75 @@ export default function ChecklistAssessment({
                       {categoryResponses === questions.length && ' ✓'}
                     </div>
                   </div>
+                  {/* Delegation */}
+                  {assignment ? (
+                    <div className="text-right text-sm">
+                      <div className="text-gray-900 font-medium">👤 Assigned to {assignment.owner}</div>
+                      <div className={assignment.completedAt ? 'text-green-700' : 'text-amber-700'}>
+                        {assignment.completedAt ? 'Complete' : 'In progress'}
+                      </div>
+                      <div className="flex justify-end gap-3 mt-1">
+                        <button onClick={() => copySectionLink(categoryKey)} className="text-blue-600 hover:underline">
+                          {copiedCategory === categoryKey ? 'Link copied' : 'Copy owner link'}
+                        </button>
+                        {onUnassignSection && (
+                          <button onClick={() => unassignSection(categoryKey)} className="text-gray-500 hover:underline">
+                            Unassign
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ) : onAssignSection && draftId && (
+                    assigningCategory === categoryKey ? (
+                      <div className="flex flex-col gap-2 text-sm w-56">
+                        <input
+                          type="text"
+                          value={ownerName}
+                          onChange={(e) => setOwnerName(e.target.value)}
+                          placeholder="Owner name"
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                        />
+                        <input
+                          type="email"
+                          value={ownerEmail}
+                          onChange={(e) => setOwnerEmail(e.target.value)}
+                          placeholder="Owner email (optional)"
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                        />
+                        <div className="flex justify-end gap-3">
+                          <button onClick={() => setAssigningCategory(null)} className="text-gray-500 hover:underline">
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => assignSection(categoryKey)}
+                            disabled={!ownerName.trim()}
+                            className="px-3 py-1 bg-gray-600 hover:bg-gray-700 text-white rounded-lg disabled:opacity-60"
+                          >
+                            Assign
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <button onClick={() => setAssigningCategory(categoryKey)} className="text-sm text-blue-600 hover:underline">
+                        Assign section
+                      </button>
+                    )
+                  )}
                 </div>
 
                 <div className="space-y-6">
                   {questions.map((question, index) => (
-                    <div key={question.id} className="bg-gray-50 rounded-lg p-6 border border-gray-200">
-                      <div className="flex items-start space-x-4">
-                        <div className="flex-shrink-0">
-                          <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${
-                            responses[question.id] !== undefined
-                              ? 'bg-gray-400 text-white shadow-sm'
-                              : 'bg-gray-300 text-gray-600'
-                          }`}>
-                            {responses[question.id] !== undefined ? '✓' : index + 1}
-                          </div>
-                        </div>
-                        <div className="flex-1">
-                          <h4 className="text-lg font-semibold text-gray-900 mb-2">
-                            {question.question}
-                          </h4>
-                          <p className="text-gray-600 text-sm mb-4">
-                            Purpose: {question.purpose}
-                          </p>
-                          
-                          {/* Radio button options */}
-                          <div className="flex flex-wrap gap-4">
-                            {(['yes', 'no', 'na'] as ChecklistAnswer[]).map((option) => (
-                              <label
-                                key={option}
-                                className={`flex items-center space-x-2 cursor-pointer px-4 py-2 rounded-lg transition-all border-2 ${
-                                  responses[question.id] === option
-                                    ? 'bg-gray-100 border-gray-400 text-gray-900 shadow-sm'
-                                    : 'bg-white border-gray-200 text-gray-700 hover:border-gray-300 hover:shadow-sm'
-                                }`}
-                              >
-                                <input
-                                  type="radio"
-                                  name={`question-${question.id}`}
-                                  value={option}
-                                  checked={responses[question.id] === option}
-                                  onChange={() => handleResponseChange(question.id, option)}
-                                  className="sr-only"
-                                />
-                                <span className="capitalize">
-                                  {option === 'na' ? 'N/A' : option}
-                                </span>
-                                {responses[question.id] === option && (
-                                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                                  </svg>
-                                )}
-                              </label>
-                            ))}
-                          </div>
-                        </div>
-                      </div>
-                    </div>
+                    <ChecklistQuestionCard
+                      key={question.id}
+                      question={question}
+                      index={index}
+                      answers={answers}
+                      readOnly={!!assignment}
+                      onMaturityChange={level => handleMaturityChange(question, level)}
+                      onAnswerChange={answer => handleResponseChange(question.id, answer)}
+                      onJustificationChange={justification => handleJustificationChange(question.id, justification)}
+                      onEvidenceChange={items => handleEvidenceChange(question.id, items)}
+                    />
                   ))}
                 </div>
               </div>
@@ -241,9 +343,15 @@ export default function ChecklistAssessment({
               </button>
             </div>
             
+            {pendingOwners.length > 0 && (
+              <p className="text-center text-amber-700 text-sm mt-4">
+                Waiting for {pendingOwners.join(', ')} to complete their sections
+              </p>
+            )}
+
             {!isFormComplete() && (
               <p className="text-center text-gray-600 text-sm mt-4">
-                Please answer all {totalQuestions} questions to proceed with assessment
+                Please answer all {totalQuestions} questions to proceed with assessment (N/A answers need a justification)
               </p>
             )}
             
@@ -0,0 +1,170 @@
+'use client'
+
+import {
+  checklistAnswerLabels,
+  isQuestionAnswered,
+  maturityLevels,
+  maturityLevelLabels,
+  ChecklistAnswer,
+  ChecklistAnswers,
+  ChecklistQuestion,
+  Evidence,
+  MaturityLevel
+} from './checklistData'
+import EvidenceEditor from './EvidenceEditor'
+
+interface ChecklistQuestionCardProps {
+  question: ChecklistQuestion
+  index: number // Position within its section, shown until answered
+  answers: ChecklistAnswers
+  readOnly?: boolean // Section delegated to someone else
+  onMaturityChange?: (level: MaturityLevel) => void
+  onAnswerChange?: (answer: ChecklistAnswer) => void
+  onJustificationChange?: (justification: string) => void
+  onEvidenceChange?: (evidence: Evidence[]) => void
+}
+
+export default function ChecklistQuestionCard({
+  question,
+  index,
+  answers,
+  readOnly,
+  onMaturityChange,
+  onAnswerChange,
+  onJustificationChange,
+  onEvidenceChange
+}: ChecklistQuestionCardProps) {
+  const answered = isQuestionAnswered(answers, question.id)
+  const answer = answers.responses[question.id]
+  const evidence = answers.evidence?.[question.id] || []
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 border border-gray-200">
+      <div className="flex items-start space-x-4">
+        <div className="flex-shrink-0">
+          <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${
+            answered
+              ? 'bg-gray-400 text-white shadow-sm'
+              : 'bg-gray-300 text-gray-600'
+          }`}>
+            {answered ? '✓' : index + 1}
+          </div>
+        </div>
+        <div className="flex-1">
+          <h4 className="text-lg font-semibold text-gray-900 mb-2">
+            {question.question}
+          </h4>
+          <p className="text-gray-600 text-sm mb-4">
+            Purpose: {question.purpose}
+          </p>
+          
+          {/* Maturity level options with this control's level descriptors */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {maturityLevels.map((level) => {
+              const isSelected = answers.responses[question.id] !== 'na' && answers.maturities[question.id] === level
+              return (
+                <label
+                  key={level}
+                  className={`${readOnly ? 'cursor-default' : 'cursor-pointer'} px-4 py-3 rounded-lg transition-all border-2 ${
+                    isSelected
+                      ? 'bg-gray-100 border-gray-400 text-gray-900 shadow-sm'
+                      : 'bg-white border-gray-200 text-gray-700 hover:border-gray-300 hover:shadow-sm'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name={`question-${question.id}`}
+                    value={level}
+                    checked={isSelected}
+                    onChange={() => onMaturityChange?.(level)}
+                    disabled={readOnly}
+                    className="sr-only"
+                  />
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium">{maturityLevelLabels[level]}</span>
+                    {level === question.targetMaturity && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">Target</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-600">
+                    {question.maturityDescriptors[level] || 'No control in place yet'}
+                  </p>
+                </label>
+              )
+            })}
+
+            <label
+              className={`${readOnly ? 'cursor-default' : 'cursor-pointer'} px-4 py-3 rounded-lg transition-all border-2 ${
+                answers.responses[question.id] === 'na'
+                  ? 'bg-gray-100 border-gray-400 text-gray-900 shadow-sm'
+                  : 'bg-white border-gray-200 text-gray-700 hover:border-gray-300 hover:shadow-sm'
+              }`}
+            >
+              <input
+                type="radio"
+                name={`question-${question.id}`}
+                value="na"
+                checked={answers.responses[question.id] === 'na'}
+                onChange={() => onAnswerChange?.('na')}
+                disabled={readOnly}
+                className="sr-only"
+              />
+              <div className="font-medium mb-1">{checklistAnswerLabels.na}</div>
+              <p className="text-xs text-gray-600">This control does not apply to the system</p>
+            </label>
+          </div>
+
+          {/* Optional justification and evidence backing a yes/partial/no answer */}
+          {answer !== undefined && answer !== 'na' && (
+            <div className="mt-4 space-y-3">
+              <div>
+                <label className="block text-gray-700 text-sm font-medium mb-2">
+                  Justification (optional)
+                </label>
+                <input
+                  type="text"
+                  value={answers.justifications[question.id] || ''}
+                  onChange={(e) => onJustificationChange?.(e.target.value)}
+                  readOnly={readOnly}
+                  placeholder="e.g. TruthfulQA run on every model release, results reviewed by the ML lead"
+                  className="w-full p-3 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-gray-700 text-sm font-medium">Evidence</span>
+                  {answer !== 'no' && evidence.length === 0 && (
+                    <span className="text-xs text-amber-700">No evidence yet; auditors treat this as self-attested</span>
+                  )}
+                </div>
+                <EvidenceEditor evidence={evidence} readOnly={readOnly} onChange={items => onEvidenceChange?.(items)} />
+              </div>
+            </div>
+          )}
+
+          {/* N/A needs a short justification */}
+          {answers.responses[question.id] === 'na' && (
+            <div className="mt-4">
+              <label className="block text-gray-700 text-sm font-medium mb-2">
+                Why is this control not applicable?
+              </label>
+              <input
+                type="text"
+                value={answers.justifications[question.id] || ''}
+                onChange={(e) => onJustificationChange?.(e.target.value)}
+                readOnly={readOnly}
+                placeholder="e.g. No hosted models are used by this system"
+                className={`w-full p-3 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors ${
+                  answers.justifications[question.id]?.trim()
+                    ? 'bg-gray-100 border-gray-400 text-gray-900'
+                    : 'bg-white border-red-300 text-gray-900'
+                }`}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,285 @@
+'use client'
+
+import { AssessmentDiff, ScoreDelta } from '../utils/assessmentDiff'
+import { formatAnswerState } from '../utils/assessmentHistory'
+import { getInputDisplayValue } from '../utils/inputLabels'
+import { getRiskDisplayName } from '../utils/riskManifest'
+import { ScoreBreakdown } from '../utils/scoreBreakdown'
+import ScoreWaterfall from './ScoreWaterfall'
+import { formatRunDate } from './ScoreTrendChart'
+
+interface ComparisonDisplayProps {
+  diff: AssessmentDiff
+  before: { scoreBreakdown?: ScoreBreakdown }
+  after: { scoreBreakdown?: ScoreBreakdown }
+}
+
+const riskLabel = (risk: string) => risk === 'overall' ? 'Overall' : getRiskDisplayName(risk)
+
+// Lower risk is better, so a negative delta is an improvement
+export function formatScoreDelta(score: ScoreDelta): string {
+  if (score.delta === undefined) return score.before === undefined ? 'Newly assessed' : 'No longer assessed'
+  if (score.delta === 0) return 'No change'
+  return score.delta > 0 ? `+${score.delta}` : `${score.delta}`
+}
+
+const deltaColor = (score: ScoreDelta) => {
+  if (!score.delta) return 'text-gray-600'
+  return score.delta > 0 ? 'text-red-600' : 'text-green-600'
+}
+
+function SectionTitle({ icon, children }: { icon: string, children: React.ReactNode }) {
+  return (
+    <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
+      <span className="mr-2">{icon}</span>
+      {children}
+    </h4>
+  )
+}
+
+export default function ComparisonDisplay({ diff, before, after }: ComparisonDisplayProps) {
+  const breakdownRisks = Array.from(new Set([
+    ...Object.keys(before.scoreBreakdown || {}),
+    ...Object.keys(after.scoreBreakdown || {})
+  ]))
+
+  const downloadReport = async () => {
+    try {
+      const { default: jsPDF } = await import('jspdf')
+      const pdf = new jsPDF('p', 'mm', 'a4')
+      const pageWidth = pdf.internal.pageSize.getWidth()
+      const pageHeight = pdf.internal.pageSize.getHeight()
+      let yPosition = 20
+
+      const checkAddPage = (requiredSpace = 30) => {
+        if (yPosition + requiredSpace > pageHeight - 20) {
+          pdf.addPage()
+          yPosition = 20
+        }
+      }
+
+      const sectionTitle = (text: string) => {
+        checkAddPage(30)
+        pdf.setFontSize(16)
+        pdf.setFont('helvetica', 'bold')
+        pdf.setTextColor(51, 65, 85)
+        pdf.text(text, 20, yPosition)
+        yPosition += 10
+        pdf.setFontSize(11)
+        pdf.setFont('helvetica', 'normal')
+        pdf.setTextColor(71, 85, 105)
+      }
+
+      const line = (text: string) => {
+        const lines = pdf.splitTextToSize(text, pageWidth - 50)
+        checkAddPage(lines.length * 6)
+        pdf.text(lines, 25, yPosition)
+        yPosition += lines.length * 6
+      }
+
+      // Header with styling
+      pdf.setFillColor(102, 126, 234)
+      pdf.rect(0, 0, pageWidth, 35, 'F')
+      pdf.setFontSize(24)
+      pdf.setTextColor(255, 255, 255)
+      pdf.setFont('helvetica', 'bold')
+      const title = 'FinAIReadiness - Assessment Comparison'
+      pdf.text(title, (pageWidth - pdf.getTextWidth(title)) / 2, 22)
+      pdf.setFontSize(12)
+      pdf.setFont('helvetica', 'normal')
+      const subtitle = `${diff.after.productName || diff.before.productName || 'AI system'}: ${formatRunDate(diff.before.createdAt)} vs ${formatRunDate(diff.after.createdAt)}`
+      pdf.text(subtitle, (pageWidth - pdf.getTextWidth(subtitle)) / 2, 30)
+      yPosition = 50
+
+      sectionTitle('Score Changes')
+      diff.scoreDeltas.forEach(score => {
+        line(`${riskLabel(score.risk)}: ${score.before ?? '-'} -> ${score.after ?? '-'} (${formatScoreDelta(score)})`)
+      })
+      yPosition += 8
+
+      sectionTitle('Changed System Configuration')
+      if (diff.inputChanges.length === 0) line('No changes.')
+      diff.inputChanges.forEach(change => {
+        line(`${change.label}: ${change.before ? getInputDisplayValue(change.field, change.before) : 'Not specified'} -> ${change.after ? getInputDisplayValue(change.field, change.after) : 'Not specified'}`)
+      })
+      yPosition += 8
+
+      sectionTitle('Applicable Risks')
+      if (diff.applicability.added.length === 0 && diff.applicability.removed.length === 0) line('No changes.')
+      diff.applicability.added.forEach(risk => line(`Now applicable: ${getRiskDisplayName(risk)}`))
+      diff.applicability.removed.forEach(risk => line(`No longer applicable: ${getRiskDisplayName(risk)}`))
+      yPosition += 8
+
+      sectionTitle('Checklist Answer Changes')
+      if (diff.answerChanges.length === 0) line('No changes.')
+      diff.answerChanges.forEach(change => {
+        line(`#${change.questionId} ${change.shortName}: ${formatAnswerState(change.before)} -> ${formatAnswerState(change.after)}`)
+      })
+      yPosition += 8
+
+      sectionTitle('Mitigation Changes')
+      diff.satisfiedMitigations.added.forEach(id => line(`Now satisfied: ${id}`))
+      diff.satisfiedMitigations.removed.forEach(id => line(`No longer satisfied: ${id}`))
+      diff.recommendedMitigations.added.forEach(m => line(`Newly recommended: ${m.mitigationId} ${m.mitigationName}`))
+      diff.recommendedMitigations.removed.forEach(m => line(`No longer recommended: ${m.mitigationId} ${m.mitigationName}`))
+      if (diff.satisfiedMitigations.added.length + diff.satisfiedMitigations.removed.length +
+          diff.recommendedMitigations.added.length + diff.recommendedMitigations.removed.length === 0) {
+        line('No changes.')
+      }
+
+      const fileName = `${(diff.after.productName || 'assessment').replace(/[^a-zA-Z0-9]/g, '_')}_comparison.pdf`
+      pdf.save(fileName)
+    } catch (error) {
+      console.error('PDF generation failed:', error)
+      alert('Failed to generate PDF. Please try again.')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h3 className="text-2xl font-semibold text-gray-900">{diff.after.productName || diff.before.productName}</h3>
+          <p className="text-gray-600">
+            <a href={`/assessments/${diff.before.id}`} className="text-blue-600 hover:underline">{formatRunDate(diff.before.createdAt)}</a>
+            {' → '}
+            <a href={`/assessments/${diff.after.id}`} className="text-blue-600 hover:underline">{formatRunDate(diff.after.createdAt)}</a>
+          </p>
+        </div>
+        <button
+          onClick={downloadReport}
+          className="px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-all flex items-center justify-center shadow-sm hover:shadow-md"
+        >
+          <span className="mr-2">📄</span>
+          Download Comparison PDF
+        </button>
+      </div>
+
+      {/* Score Changes */}
+      <div>
+        <SectionTitle icon="📊">Score Changes</SectionTitle>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {diff.scoreDeltas.map(score => (
+            <div key={score.risk} className="bg-gray-50 rounded-lg p-4 text-center border border-gray-200">
+              <h5 className="font-semibold text-gray-900 mb-2">{riskLabel(score.risk)}</h5>
+              <div className="text-gray-700">{score.before ?? '-'} → {score.after ?? '-'}</div>
+              <div className={`text-sm font-semibold mt-1 ${deltaColor(score)}`}>{formatScoreDelta(score)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Changed inputs and applicability */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <SectionTitle icon="⚙️">Changed System Configuration</SectionTitle>
+          {diff.inputChanges.length === 0 ? (
+            <p className="text-gray-500 text-sm">No changes.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {diff.inputChanges.map(change => (
+                <li key={change.field} className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                  <span className="font-medium text-gray-900">{change.label}:</span>{' '}
+                  <span className="text-gray-600 line-through">{change.before ? getInputDisplayValue(change.field, change.before) : 'Not specified'}</span>
+                  {' → '}
+                  <span className="text-gray-900">{change.after ? getInputDisplayValue(change.field, change.after) : 'Not specified'}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div>
+          <SectionTitle icon="🎯">Applicable Risks</SectionTitle>
+          {diff.applicability.added.length === 0 && diff.applicability.removed.length === 0 ? (
+            <p className="text-gray-500 text-sm">No changes.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {diff.applicability.added.map(risk => (
+                <li key={risk} className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-3">Now applicable: {getRiskDisplayName(risk)}</li>
+              ))}
+              {diff.applicability.removed.map(risk => (
+                <li key={risk} className="bg-green-50 border border-green-200 text-green-800 rounded-lg p-3">No longer applicable: {getRiskDisplayName(risk)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Side-by-side score breakdowns */}
+      {breakdownRisks.length > 0 && (
+        <div>
+          <SectionTitle icon="🧮">Score Breakdown</SectionTitle>
+          <div className="space-y-4">
+            {breakdownRisks.map(risk => (
+              <div key={risk} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[before, after].map((side, index) => side.scoreBreakdown?.[risk] ? (
+                  <ScoreWaterfall
+                    key={index}
+                    title={`${getRiskDisplayName(risk)} (${index === 0 ? 'before' : 'after'})`}
+                    breakdown={side.scoreBreakdown[risk]}
+                  />
+                ) : (
+                  <div key={index} className="bg-gray-50 rounded-lg p-4 border border-gray-200 text-sm text-gray-500">
+                    {getRiskDisplayName(risk)} was not assessed {index === 0 ? 'before' : 'after'}.
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Checklist answers */}
+      <div>
+        <SectionTitle icon="✅">Checklist Answer Changes</SectionTitle>
+        {diff.answerChanges.length === 0 ? (
+          <p className="text-gray-500 text-sm">No changes.</p>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100 border-b border-gray-200">
+                  <th className="text-left p-3 text-gray-900 font-semibold">Control</th>
+                  <th className="text-left p-3 text-gray-900 font-semibold">Before</th>
+                  <th className="text-left p-3 text-gray-900 font-semibold">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.answerChanges.map(change => (
+                  <tr key={change.questionId} className="border-b border-gray-100">
+                    <td className="p-3 text-gray-900">#{change.questionId} {change.shortName}</td>
+                    <td className="p-3 text-gray-600">{formatAnswerState(change.before)}</td>
+                    <td className="p-3 text-gray-900">{formatAnswerState(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Mitigations */}
+      <div>
+        <SectionTitle icon="🛡️">Mitigation Changes</SectionTitle>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <h5 className="font-semibold text-gray-900 mb-2">Satisfied by your controls</h5>
+            {diff.satisfiedMitigations.added.map(id => <div key={id} className="text-green-700">+ {id}</div>)}
+            {diff.satisfiedMitigations.removed.map(id => <div key={id} className="text-red-700">- {id}</div>)}
+            {diff.satisfiedMitigations.added.length === 0 && diff.satisfiedMitigations.removed.length === 0 && (
+              <div className="text-gray-500">No changes.</div>
+            )}
+          </div>
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <h5 className="font-semibold text-gray-900 mb-2">Recommended in the report</h5>
+            {diff.recommendedMitigations.added.map(m => <div key={m.mitigationId} className="text-red-700">+ {m.mitigationId} {m.mitigationName}</div>)}
+            {diff.recommendedMitigations.removed.map(m => <div key={m.mitigationId} className="text-green-700">- {m.mitigationId} {m.mitigationName}</div>)}
+            {diff.recommendedMitigations.added.length === 0 && diff.recommendedMitigations.removed.length === 0 && (
+              <div className="text-gray-500">No changes.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
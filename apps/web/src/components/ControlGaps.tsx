@@ -0,0 +1,73 @@
+'use client'
+
+import { categoryInfo } from './checklistData'
+import { GapRecommendation } from '../utils/gapAnalysis'
+
+interface ControlGapsProps {
+  recommendations: GapRecommendation[]
+  mitigationUrls?: Record<string, string>
+}
+
+const priorityColor: Record<GapRecommendation['priority'], string> = {
+  Critical: 'bg-red-100 text-red-800 border-red-200',
+  High: 'bg-orange-100 text-orange-800 border-orange-200',
+  Medium: 'bg-amber-100 text-amber-800 border-amber-200',
+  Low: 'bg-gray-100 text-gray-700 border-gray-200'
+}
+
+// Keeps the priority order from generateGapRecommendations within each category
+export function groupGapsByCategory(recommendations: GapRecommendation[]): Record<string, GapRecommendation[]> {
+  return recommendations.reduce<Record<string, GapRecommendation[]>>((groups, recommendation) => {
+    groups[recommendation.category] = (groups[recommendation.category] || []).concat(recommendation)
+    return groups
+  }, {})
+}
+
+export default function ControlGaps({ recommendations, mitigationUrls }: ControlGapsProps) {
+  const gapsByCategory = groupGapsByCategory(recommendations)
+
+  return (
+    <div className="space-y-6">
+      {Object.entries(gapsByCategory).map(([categoryKey, gaps]) => (
+        <div key={categoryKey} className="bg-white rounded-lg border border-gray-200 overflow-hidden shadow-sm">
+          <div className="bg-gray-100 border-b border-gray-200 px-4 py-3 flex items-center">
+            <span className="mr-2">{categoryInfo[categoryKey]?.icon}</span>
+            <h5 className="font-semibold text-gray-900">{categoryInfo[categoryKey]?.title || categoryKey}</h5>
+            <span className="ml-auto text-sm text-gray-600">{gaps.length} missing control{gaps.length > 1 ? 's' : ''}</span>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {gaps.map(gap => (
+              <li key={gap.questionId} className="p-4 flex items-start gap-4">
+                <span className={`flex-shrink-0 px-2 py-1 rounded text-xs font-semibold border ${priorityColor[gap.priority]}`}>
+                  {gap.priority}
+                </span>
+                <div className="flex-1">
+                  <div className="text-gray-900 font-medium">#{gap.questionId} {gap.question}</div>
+                  <div className="text-sm text-gray-600 mt-1">{gap.reason}</div>
+                  {gap.acceptanceExpiredOn && (
+                    <span className="inline-block mt-2 text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800">
+                      Risk acceptance expired {gap.acceptanceExpiredOn}
+                    </span>
+                  )}
+                </div>
+                {mitigationUrls?.[gap.finosMapping] ? (
+                  <a
+                    href={mitigationUrls[gap.finosMapping]}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex-shrink-0 text-blue-600 font-medium text-sm hover:underline"
+                    title={`View ${gap.finosMapping} on FINOS framework`}
+                  >
+                    {gap.finosMapping}
+                  </a>
+                ) : (
+                  <span className="flex-shrink-0 text-blue-600 font-medium text-sm">{gap.finosMapping}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import { evidenceTypeLabels, Evidence, EvidenceType } from './checklistData'
+import { getEvidenceHref } from './EvidenceList'
+
+interface EvidenceEditorProps {
+  evidence: Evidence[]
+  readOnly?: boolean
+  onChange: (evidence: Evidence[]) => void
+}
+
+// Evidence list with link/ticket entry and file upload, used by checklist answers and remediation items
+export default function EvidenceEditor({ evidence, readOnly, onChange }: EvidenceEditorProps) {
+  const [evidenceType, setEvidenceType] = useState<Exclude<EvidenceType, 'file'>>('url')
+  const [evidenceValue, setEvidenceValue] = useState('')
+  const [isUploading, setIsUploading] = useState(false)
+
+  const addEvidence = (item: Evidence) => {
+    onChange([...evidence, item])
+  }
+
+  const addReference = () => {
+    const value = evidenceValue.trim()
+    if (!value) return
+    if (evidenceType === 'url' && !/^https?:\/\//i.test(value)) {
+      alert('Links must start with http:// or https://')
+      return
+    }
+    addEvidence({ type: evidenceType, value })
+    setEvidenceValue('')
+  }
+
+  // Files are stored on upload; the list only keeps a reference to them
+  const uploadFile = async (file: File) => {
+    setIsUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetch('/api/evidence', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) {
+        alert('Upload failed: ' + data.error)
+        return
+      }
+      addEvidence(data.evidence)
+    } catch (error) {
+      alert('Error uploading evidence')
+      console.error(error)
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <div>
+      {evidence.length > 0 && (
+        <ul className="space-y-1 mb-2">
+          {evidence.map((item, itemIndex) => (
+            <li key={itemIndex} className="flex items-center justify-between bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm">
+              <span className="text-gray-900 truncate">
+                <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 mr-2">{evidenceTypeLabels[item.type]}</span>
+                {getEvidenceHref(item) ? (
+                  <a href={getEvidenceHref(item)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    {item.label || item.value}
+                  </a>
+                ) : (item.label || item.value)}
+              </span>
+              {!readOnly && (
+                <button
+                  onClick={() => onChange(evidence.filter((_, i) => i !== itemIndex))}
+                  className="text-gray-500 hover:text-gray-700 ml-3"
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && (
+        <div className="flex flex-col md:flex-row gap-2">
+          <select
+            value={evidenceType}
+            onChange={(e) => setEvidenceType(e.target.value as 'url' | 'ticket')}
+            className="p-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+          >
+            <option value="url">{evidenceTypeLabels.url}</option>
+            <option value="ticket">{evidenceTypeLabels.ticket}</option>
+          </select>
+          <input
+            type="text"
+            value={evidenceValue}
+            onChange={(e) => setEvidenceValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addReference()}
+            placeholder={evidenceType === 'url' ? 'https://wiki.example.com/benchmark-results' : 'e.g. RISK-1234'}
+            className="flex-1 p-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+          />
+          <button
+            onClick={addReference}
+            disabled={!evidenceValue.trim()}
+            className="px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg text-sm disabled:opacity-60"
+          >
+            Add
+          </button>
+          <label className={`px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 text-center ${isUploading ? 'opacity-60' : 'cursor-pointer hover:bg-gray-100'}`}>
+            {isUploading ? 'Uploading...' : 'Upload file'}
+            <input
+              type="file"
+              className="sr-only"
+              disabled={isUploading}
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) uploadFile(file)
+                e.target.value = ''
+              }}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { checklistQuestions, checklistAnswerLabels, evidenceTypeLabels, isUnevidencedClaim, ChecklistAnswer, ChecklistData, Evidence } from './checklistData'
+
+export interface EvidenceRow {
+  questionId: number
+  control: string
+  answer: ChecklistAnswer
+  justification?: string
+  evidence: Evidence[]
+  unevidenced: boolean // Claimed as implemented without evidence
+}
+
+interface EvidenceListProps {
+  checklistData: ChecklistData
+}
+
+// Uploaded files are served by the evidence API; URLs link directly; tickets have no link
+export function getEvidenceHref(evidence: Evidence): string | undefined {
+  if (evidence.type === 'file') return `/api/evidence/${evidence.value}`
+  if (evidence.type === 'url') return evidence.value
+  return undefined
+}
+
+export function formatEvidence(evidence: Evidence): string {
+  return `${evidenceTypeLabels[evidence.type]}: ${evidence.label || evidence.value}`
+}
+
+// Claimed controls plus any other answer with a justification or evidence, in checklist order
+export function getEvidenceRows(checklistData: ChecklistData): EvidenceRow[] {
+  const rows: EvidenceRow[] = []
+
+  checklistQuestions.forEach(question => {
+    const response = (checklistData[question.category] || []).find(r => r.questionId === question.id)
+    if (!response || response.answer === 'na') return
+
+    const evidence = response.evidence || []
+    const unevidenced = isUnevidencedClaim(response)
+    if (!unevidenced && evidence.length === 0 && !response.justification) return
+
+    rows.push({
+      questionId: question.id,
+      control: question.shortName,
+      answer: response.answer,
+      justification: response.justification,
+      evidence,
+      unevidenced
+    })
+  })
+
+  return rows
+}
+
+export default function EvidenceList({ checklistData }: EvidenceListProps) {
+  const rows = getEvidenceRows(checklistData)
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden shadow-sm">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-100 border-b border-gray-200">
+              <th className="text-left p-3 text-gray-900 font-semibold">Control</th>
+              <th className="text-left p-3 text-gray-900 font-semibold">Answer</th>
+              <th className="text-left p-3 text-gray-900 font-semibold">Justification</th>
+              <th className="text-left p-3 text-gray-900 font-semibold">Evidence</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.questionId} className="border-b border-gray-100 align-top">
+                <td className="p-3 text-gray-900">#{row.questionId} {row.control}</td>
+                <td className="p-3 text-gray-700">{checklistAnswerLabels[row.answer]}</td>
+                <td className="p-3 text-gray-700">{row.justification || '-'}</td>
+                <td className="p-3">
+                  {row.unevidenced ? (
+                    <span className="font-medium text-amber-700">No evidence (self-attested)</span>
+                  ) : row.evidence.length === 0 ? (
+                    <span className="text-gray-500">-</span>
+                  ) : (
+                    <ul className="space-y-1">
+                      {row.evidence.map((item, index) => {
+                        const href = getEvidenceHref(item)
+                        return (
+                          <li key={index} className="text-gray-700">
+                            {href ? (
+                              <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                                {formatEvidence(item)}
+                              </a>
+                            ) : formatEvidence(item)}
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { checklistQuestions, getMaturityIndex, maturityLevelLabels, ChecklistData, MaturityLevel } from './checklistData'
+
+export interface MaturityRow {
+  questionId: number
+  control: string
+  current?: MaturityLevel
+  target: MaturityLevel
+  notApplicable: boolean
+}
+
+interface MaturityTableProps {
+  checklistData: ChecklistData
+}
+
+// One row per answered control, in checklist order
+export function getMaturityRows(checklistData: ChecklistData): MaturityRow[] {
+  const rows: MaturityRow[] = []
+
+  checklistQuestions.forEach(question => {
+    const response = (checklistData[question.category] || []).find(r => r.questionId === question.id)
+    if (!response) return
+
+    rows.push({
+      questionId: question.id,
+      control: question.shortName,
+      current: response.maturity,
+      target: question.targetMaturity,
+      notApplicable: response.answer === 'na'
+    })
+  })
+
+  return rows
+}
+
+export function formatMaturityGap(row: MaturityRow): string {
+  if (row.notApplicable) return 'N/A'
+  if (!row.current) return '-'
+  const gap = getMaturityIndex(row.target) - getMaturityIndex(row.current)
+  return gap > 0 ? `${gap} level${gap > 1 ? 's' : ''} below target` : 'Target met'
+}
+
+export default function MaturityTable({ checklistData }: MaturityTableProps) {
+  const rows = getMaturityRows(checklistData)
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden shadow-sm">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-100 border-b border-gray-200">
+              <th className="text-left p-3 text-gray-900 font-semibold">Control</th>
+              <th className="text-left p-3 text-gray-900 font-semibold">Current</th>
+              <th className="text-left p-3 text-gray-900 font-semibold">Target</th>
+              <th className="text-left p-3 text-gray-900 font-semibold">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const belowTarget = !row.notApplicable && row.current !== undefined &&
+                getMaturityIndex(row.current) < getMaturityIndex(row.target)
+              return (
+                <tr key={row.questionId} className="border-b border-gray-100">
+                  <td className="p-3 text-gray-900">#{row.questionId} {row.control}</td>
+                  <td className="p-3 text-gray-700">{row.notApplicable ? 'N/A' : row.current ? maturityLevelLabels[row.current] : '-'}</td>
+                  <td className="p-3 text-gray-700">{maturityLevelLabels[row.target]}</td>
+                  <td className={`p-3 font-medium ${belowTarget ? 'text-amber-700' : 'text-gray-600'}`}>{formatMaturityGap(row)}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  RemediationItem,
+  RemediationSource,
+  RemediationStatus,
+  remediationStatusLabels,
+  getSourceKey,
+  getLinkedQuestionIds,
+  isOverdue
+} from '../utils/remediation'
+import { Evidence } from './checklistData'
+import EvidenceEditor from './EvidenceEditor'
+import { hasPermission } from '../utils/permissions'
+import { useSession } from '../utils/useSession'
+
+interface RemediationTrackerProps {
+  assessmentId: string
+  result: any // Stored assessment, for its gaps, mitigations and checklist
+  onAssessmentChange?: (assessment: any) => void // Called after a closed item re-scored the assessment
+}
+
+// Everything in the report that can become a remediation item
+function getTrackableSources(result: any): { source: RemediationSource, label: string }[] {
+  const gaps = (result.gapRecommendations || []).map((gap: any) => ({
+    source: { type: 'control', questionId: gap.questionId } as RemediationSource,
+    label: `[${gap.priority}] #${gap.questionId} ${gap.question}`
+  }))
+  const mitigations = (result.riskMitigations || []).map((mitigation: any) => ({
+    source: { type: 'mitigation', riskId: mitigation.riskId, mitigationId: mitigation.mitigationId } as RemediationSource,
+    label: `${mitigation.mitigationId} ${mitigation.mitigationName}`
+  }))
+  // A mitigation recommended for several risks is tracked once
+  return [...gaps, ...mitigations].filter((option, index, all) =>
+    all.findIndex(other => getSourceKey(other.source) === getSourceKey(option.source)) === index
+  )
+}
+
+export default function RemediationTracker({ assessmentId, result, onAssessmentChange }: RemediationTrackerProps) {
+  const [items, setItems] = useState<RemediationItem[]>([])
+  const [newSource, setNewSource] = useState('')
+  const [expandedItem, setExpandedItem] = useState<string | null>(null)
+  const user = useSession()
+  const canManage = !!user && hasPermission(user, 'remediation:manage') // Others see the plan read-only
+
+  useEffect(() => {
+    const loadItems = async () => {
+      try {
+        const response = await fetch(`/api/assessments/${assessmentId}/remediation`)
+        if (response.ok) {
+          const data = await response.json()
+          setItems(data.items)
+        }
+      } catch (error) {
+        console.error('Failed to load remediation items:', error)
+      }
+    }
+
+    loadItems()
+  }, [assessmentId])
+
+  const trackedKeys = items.map(item => getSourceKey(item.source))
+  const untracked = getTrackableSources(result).filter(option => !trackedKeys.includes(getSourceKey(option.source)))
+
+  const replaceItem = (updated: RemediationItem) => {
+    setItems(prev => prev.map(item => item.id === updated.id ? updated : item))
+  }
+
+  const trackItem = async () => {
+    const option = untracked.find(o => getSourceKey(o.source) === newSource)
+    if (!option) return
+    try {
+      const response = await fetch(`/api/assessments/${assessmentId}/remediation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source: option.source })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        alert('Failed to track item: ' + data.error)
+        return
+      }
+      setItems(prev => [...prev, data.item])
+      setNewSource('')
+      setExpandedItem(data.item.id)
+    } catch (error) {
+      alert('Failed to track item')
+      console.error(error)
+    }
+  }
+
+  // Offer to update the checklist once an item with linked controls is done
+  const applyToChecklist = async (item: RemediationItem) => {
+    const answered = Object.values(result.checklistData || {}).reduce<number[]>(
+      (ids: number[], responses: any) => ids.concat((responses || []).map((r: any) => r.questionId)),
+      []
+    )
+    const linked = getLinkedQuestionIds(item.source).filter(id => answered.includes(id))
+    if (linked.length === 0) return
+    if (!confirm(`Mark control${linked.length > 1 ? 's' : ''} ${linked.map(id => `#${id}`).join(', ')} as implemented and re-score this assessment?`)) return
+
+    try {
+      const response = await fetch(`/api/remediation/${item.id}/apply`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        alert('Failed to update the assessment: ' + data.error)
+        return
+      }
+      replaceItem(data.item)
+      if (onAssessmentChange) {
+        onAssessmentChange(data.assessment)
+      } else {
+        window.location.reload()
+      }
+    } catch (error) {
+      alert('Failed to update the assessment')
+      console.error(error)
+    }
+  }
+
+  const updateItem = async (item: RemediationItem, update: { owner?: string, dueDate?: string, status?: RemediationStatus, evidence?: Evidence[] }) => {
+    try {
+      const response = await fetch(`/api/remediation/${item.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        alert('Failed to update item: ' + data.error)
+        return
+      }
+      replaceItem(data.item)
+      if (update.status === 'done' && item.status !== 'done' && !data.item.appliedAt) {
+        await applyToChecklist(data.item)
+      }
+    } catch (error) {
+      alert('Failed to update item')
+      console.error(error)
+    }
+  }
+
+  const doneCount = items.filter(item => item.status === 'done').length
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      {items.length > 0 && (
+        <p className="text-sm text-gray-600 mb-4">{doneCount} of {items.length} remediation item{items.length > 1 ? 's' : ''} done</p>
+      )}
+
+      <div className="space-y-3">
+        {items.map(item => (
+          <div key={item.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex flex-col md:flex-row md:items-center gap-3">
+              <button
+                onClick={() => setExpandedItem(expandedItem === item.id ? null : item.id)}
+                className="flex-1 text-left text-sm font-medium text-gray-900"
+              >
+                {item.title}
+                {isOverdue(item) && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800">Overdue</span>}
+                {item.appliedAt && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">Checklist updated</span>}
+              </button>
+              <input
+                type="text"
+                defaultValue={item.owner || ''}
+                onBlur={(e) => e.target.value !== (item.owner || '') && updateItem(item, { owner: e.target.value })}
+                placeholder="Owner"
+                disabled={!canManage}
+                className="p-2 border border-gray-300 rounded-lg text-sm text-gray-900 md:w-40"
+              />
+              <input
+                type="date"
+                defaultValue={item.dueDate || ''}
+                onChange={(e) => updateItem(item, { dueDate: e.target.value })}
+                disabled={!canManage}
+                className="p-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+              <select
+                value={item.status}
+                onChange={(e) => updateItem(item, { status: e.target.value as RemediationStatus })}
+                disabled={!canManage}
+                className="p-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+              >
+                {(Object.keys(remediationStatusLabels) as RemediationStatus[]).map(status => (
+                  <option key={status} value={status}>{remediationStatusLabels[status]}</option>
+                ))}
+              </select>
+            </div>
+
+            {expandedItem === item.id && (
+              <div className="mt-4">
+                <div className="text-gray-700 text-sm font-medium mb-2">Evidence</div>
+                <EvidenceEditor evidence={item.evidence} readOnly={!canManage} onChange={evidence => updateItem(item, { evidence })} />
+                {canManage && item.status === 'done' && !item.appliedAt && (
+                  <button onClick={() => applyToChecklist(item)} className="mt-3 text-sm text-blue-600 hover:underline">
+                    Update checklist answers and re-score
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canManage && untracked.length > 0 && (
+        <div className="flex flex-col md:flex-row gap-3 mt-4">
+          <select
+            value={newSource}
+            onChange={(e) => setNewSource(e.target.value)}
+            className="flex-1 p-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+          >
+            <option value="">Select a control gap or mitigation to track...</option>
+            {untracked.map(option => (
+              <option key={getSourceKey(option.source)} value={getSourceKey(option.source)}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={trackItem}
+            disabled={!newSource}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg text-sm disabled:opacity-60"
+          >
+            Track
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
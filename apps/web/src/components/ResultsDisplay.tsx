@@ -3,6 +3,22 @@
 import { useState, useEffect } from 'react'
 // Import PDF libraries dynamically to prevent SSR issues
 import dynamic from 'next/dynamic'
+import { riskCategoryKeys, getRiskDisplayName, getRiskDescription } from '../utils/riskManifest'
+import { ScoreBreakdown, formatStepDelta } from '../utils/scoreBreakdown'
+import ScoreWaterfall from './ScoreWaterfall'
+import ControlGaps, { groupGapsByCategory } from './ControlGaps'
+import MaturityTable, { getMaturityRows, formatMaturityGap } from './MaturityTable'
+import EvidenceList, { getEvidenceRows, getEvidenceHref, formatEvidence } from './EvidenceList'
+import { checklistQuestions, categoryInfo, checklistAnswerLabels, maturityLevelLabels, ChecklistData } from './checklistData'
+import { AcceptedGap, GapRecommendation } from '../utils/gapAnalysis'
+import { getInputDisplayValue } from '../utils/inputLabels'
+import { AssessmentReview, ReviewAction, reviewStatusLabels, formatReviewDecision } from '../utils/assessmentReview'
+import ReviewPanel, { reviewStatusStyles } from './ReviewPanel'
+import RemediationTracker from './RemediationTracker'
+import RiskAcceptances from './RiskAcceptances'
+import { RiskAcceptance, describeScope, isAcceptanceExpired } from '../utils/riskAcceptance'
+import { RemediationItem, remediationStatusLabels, isOverdue } from '../utils/remediation'
+import { DEFAULT_REPORT_TITLE, DEFAULT_RISK_THRESHOLDS, OrganizationSnapshot, RiskThresholds } from '../utils/organization'
 
 // Dynamic imports for PDF generation
 const importPDFLibraries = async () => {
@@ -15,6 +31,7 @@ const importPDFLibraries = async () => {
 
 interface ResultsDisplayProps {
   result: {
+    id?: string // Set once the assessment has been stored
     overallRiskScore: number // Changed from overallScore to overallRiskScore
     riskScores: Record<string, number>
     analysis: string
@@ -60,26 +77,63 @@ interface ResultsDisplayProps {
       accuracyReq: string
       hasRiskAssessment: string
     }
-    checklistData?: {
-      hallucination: Array<{ questionId: number; answer: string }>
-      promptInjection: Array<{ questionId: number; answer: string }>
-      dataLeakage: Array<{ questionId: number; answer: string }>
-    }
+    checklistData?: ChecklistData
     gapAnalysis?: {
       implementedControls: number
+      partialControls?: number
+      notApplicableControls?: number
+      evidencedControls?: number
+      unevidencedControls?: number
+      acceptedControls?: number
+      expiredAcceptanceControls?: number
       totalControls: number
       gapPercentage: number
       riskReduction: number
     }
+    scoreBreakdown?: ScoreBreakdown
+    gapRecommendations?: GapRecommendation[]
+    acceptedGaps?: AcceptedGap[] // Gaps covered by a risk acceptance in force, left out of gapRecommendations
+    riskAcceptances?: RiskAcceptance[]
+    assessmentMode?: 'llm' | 'offline'
+    rescoredAt?: string // Set when remediation updates re-scored the stored assessment
+    organization?: OrganizationSnapshot // Missing on assessments stored before organizations existed
   }
   onReset: () => void
+  onResultChange?: (result: any) => void // Receives the re-scored assessment after remediation updates
 }
 
-export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps) {
+export default function ResultsDisplay({ result, onReset, onResultChange }: ResultsDisplayProps) {
   const [isEmailSending, setIsEmailSending] = useState(false)
   const [emailStatus, setEmailStatus] = useState<string | null>(null)
   // Load framework data to get mitigation URLs
   const [frameworkData, setFrameworkData] = useState<any>(null)
+  // Review status of stored assessments
+  const [review, setReview] = useState<AssessmentReview | null>(null)
+  const [availableActions, setAvailableActions] = useState<ReviewAction[]>([])
+
+  useEffect(() => {
+    if (!result.id) return
+
+    const loadReview = async () => {
+      try {
+        const response = await fetch(`/api/assessments/${result.id}/review`)
+        if (response.ok) {
+          const data = await response.json()
+          setReview(data.review)
+          setAvailableActions(data.availableActions)
+        }
+      } catch (error) {
+        console.error('Failed to load review:', error)
+      }
+    }
+
+    loadReview()
+  }, [result.id])
+
+  const handleReviewChange = (updated: AssessmentReview, actions?: ReviewAction[]) => {
+    setReview(updated)
+    if (actions) setAvailableActions(actions)
+  }
   
   // Load framework data on component mount to get mitigation links
   useEffect(() => {
@@ -156,44 +210,29 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
 
   const frameworkRefs = getFrameworkReferences()
 
+  // Bands and branding of the organization the assessment was run for
+  const thresholds: RiskThresholds = result.organization?.riskThresholds || DEFAULT_RISK_THRESHOLDS
+
   const getRiskLevel = (score: number) => {
-    if (score >= 55) return { level: 'High Risk', color: 'text-white bg-gradient-to-r from-red-500 to-red-600' }
-    if (score >= 40) return { level: 'Medium Risk', color: 'text-white bg-gradient-to-r from-amber-500 to-yellow-500' }
+    if (score >= thresholds.high) return { level: 'High Risk', color: 'text-white bg-gradient-to-r from-red-500 to-red-600' }
+    if (score >= thresholds.medium) return { level: 'Medium Risk', color: 'text-white bg-gradient-to-r from-amber-500 to-yellow-500' }
     return { level: 'Low Risk', color: 'text-white bg-gradient-to-r from-green-500 to-green-600' }
   }
 
   const getRiskScoreColor = (score: number) => {
     // Risk score: higher = worse (20-80 scale)
-    if (score >= 55) return 'text-white bg-gradient-to-r from-red-500 to-red-600' // High risk
-    if (score >= 40) return 'text-white bg-gradient-to-r from-amber-500 to-yellow-500' // Medium risk
+    if (score >= thresholds.high) return 'text-white bg-gradient-to-r from-red-500 to-red-600' // High risk
+    if (score >= thresholds.medium) return 'text-white bg-gradient-to-r from-amber-500 to-yellow-500' // Medium risk
     return 'text-white bg-gradient-to-r from-green-500 to-green-600' // Low risk
   }
 
   const getRiskScoreLabel = (score: number) => {
     // Risk score labels (20-80 scale)
-    if (score >= 55) return 'High Risk'
-    if (score >= 40) return 'Medium Risk' 
+    if (score >= thresholds.high) return 'High Risk'
+    if (score >= thresholds.medium) return 'Medium Risk' 
     return 'Low Risk'
   }
 
-  const getRiskDisplayName = (riskKey: string) => {
-    const riskNames: Record<string, string> = {
-      hallucination: 'Hallucination Risk',
-      promptInjection: 'Prompt Injection Risk',
-      dataLeakage: 'Data Leakage Risk'
-    }
-    return riskNames[riskKey] || riskKey
-  }
-  
-  const getRiskDescription = (riskKey: string) => {
-    const descriptions: Record<string, string> = {
-      hallucination: 'Accuracy and output reliability',
-      promptInjection: 'Security and input validation',
-      dataLeakage: 'Privacy and data protection'
-    }
-    return descriptions[riskKey] || 'Risk assessment'
-  }
-
   const downloadReport = async () => {
     console.log('Starting comprehensive PDF download...')
     
@@ -210,38 +249,6 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
       hasRiskAssessment: 'no'
     }
     
-    // Helper function to convert form values to display names
-    const getDisplayValue = (field: string, value: string) => {
-      const mappings: Record<string, Record<string, string>> = {
-        aiModel: {
-          'selfHosted': 'Self-Hosted',
-          'apiBased': 'API Based (OpenAI, Anthropic, etc.)',
-          'thirdParty': 'Third-Party Cloud (AWS, Azure, GCP)'
-        },
-        useCase: {
-          'customerService': 'Customer Service & Support',
-          'documentAnalysis': 'Document Analysis & Processing',
-          'codeGeneration': 'Code Generation & Development',
-          'dataAnalysis': 'Data Analysis & Insights',
-          'contentGeneration': 'Content Creation & Marketing',
-          'decisionSupport': 'Decision Support Systems'
-        },
-        dataSensitivity: {
-          'public': 'Public',
-          'internal': 'Internal',
-          'confidential': 'Confidential',
-          'restricted': 'Restricted (PII, Financial, Regulated)'
-        },
-        accuracyReq: {
-          'low': 'Low',
-          'moderate': 'Moderate',
-          'high': 'High',
-          'critical': 'Critical'
-        }
-      }
-      return mappings[field]?.[value] || value
-    }
-    
     try {
       let jsPDF
       
@@ -288,10 +295,15 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
       pdf.setFillColor(102, 126, 234) // Blue background
       pdf.rect(0, 0, pageWidth, 35, 'F')
       
-      pdf.setFontSize(28)
       pdf.setTextColor(255, 255, 255) // White text
       pdf.setFont('helvetica', 'bold')
-      const title = 'FinAIReadiness - Assessment Report'
+      const title = result.organization?.reportTitle || DEFAULT_REPORT_TITLE
+      // Shrink longer organization titles to fit the header band
+      let titleSize = 28
+      pdf.setFontSize(titleSize)
+      while (titleSize > 14 && pdf.getTextWidth(title) > pageWidth - 20) {
+        pdf.setFontSize(--titleSize)
+      }
       const titleWidth = pdf.getTextWidth(title)
       pdf.text(title, (pageWidth - titleWidth) / 2, 22)
       
@@ -303,6 +315,31 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
       
       yPosition = 50
       
+      // Approval status on the cover
+      if (review) {
+        pdf.setFontSize(12)
+        pdf.setFont('helvetica', 'bold')
+        if (review.status === 'approved') {
+          pdf.setTextColor(21, 128, 61)
+        } else if (review.status === 'rejected') {
+          pdf.setTextColor(185, 28, 28)
+        } else {
+          pdf.setTextColor(71, 85, 105)
+        }
+        const approvalText = review.decision && review.decision.status === review.status
+          ? formatReviewDecision(review.decision)
+          : `Review status: ${reviewStatusLabels[review.status]}`
+        pdf.text(approvalText, 20, yPosition)
+        yPosition += 6
+        if (review.decision?.actor?.email && review.decision.status === review.status) {
+          pdf.setFontSize(10)
+          pdf.setFont('helvetica', 'normal')
+          pdf.text(review.decision.actor.email, 20, yPosition)
+          yPosition += 6
+        }
+        yPosition += 8
+      }
+      
       // Product Information Section
       pdf.setFontSize(18)
       pdf.setTextColor(51, 65, 85) // Dark gray
@@ -345,11 +382,11 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
       
       // Add user's system configuration based on form data
       const systemConfig = [
-        ['AI Model Type:', getDisplayValue('aiModel', userInputs.aiModel) || 'Not specified'],
-        ['Use Case:', getDisplayValue('useCase', userInputs.useCase) || 'Not specified'],
-        ['Data Sensitivity:', getDisplayValue('dataSensitivity', userInputs.dataSensitivity) || 'Not specified'],
+        ['AI Model Type:', getInputDisplayValue('aiModel', userInputs.aiModel) || 'Not specified'],
+        ['Use Case:', getInputDisplayValue('useCase', userInputs.useCase) || 'Not specified'],
+        ['Data Sensitivity:', getInputDisplayValue('dataSensitivity', userInputs.dataSensitivity) || 'Not specified'],
         ['Industry:', userInputs.industry || 'Not specified'],
-        ['Accuracy Requirements:', getDisplayValue('accuracyReq', userInputs.accuracyReq) || 'Not specified'],
+        ['Accuracy Requirements:', getInputDisplayValue('accuracyReq', userInputs.accuracyReq) || 'Not specified'],
         ['Prior Risk Assessment:', userInputs.hasRiskAssessment === 'yes' ? 'Yes - Gap Analysis Conducted' : 'No - Standard Assessment']
       ]
       
@@ -397,8 +434,8 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
         
         // Risk box with subtle color coding
         let bgColor = [144, 238, 144] // Light green for low risk (much lighter)
-        if (score >= 55) bgColor = [255, 182, 193] // Light pink for high risk (much lighter)
-        else if (score >= 40) bgColor = [255, 218, 185] // Light peach for medium risk (much lighter)
+        if (score >= thresholds.high) bgColor = [255, 182, 193] // Light pink for high risk (much lighter)
+        else if (score >= thresholds.medium) bgColor = [255, 218, 185] // Light peach for medium risk (much lighter)
         
         pdf.setFillColor(bgColor[0], bgColor[1], bgColor[2])
         pdf.rect(20, yPosition - 3, pageWidth - 40, 20, 'F')
@@ -417,6 +454,52 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
         yPosition += 25
       })
       
+      // Score Breakdown Section - waterfall of every contribution to each risk score
+      if (result.scoreBreakdown && Object.keys(result.scoreBreakdown).length > 0) {
+        checkAddPage(40)
+        pdf.setFontSize(16)
+        pdf.setFont('helvetica', 'bold')
+        pdf.setTextColor(51, 65, 85)
+        pdf.text('Score Breakdown', 20, yPosition)
+        
+        yPosition += 12
+        
+        const barLeft = 110
+        const barWidth = pageWidth - barLeft - 35
+        
+        Object.entries(result.scoreBreakdown).forEach(([riskKey, breakdown]) => {
+          checkAddPage(20 + breakdown.steps.length * 6)
+          pdf.setFontSize(12)
+          pdf.setFont('helvetica', 'bold')
+          pdf.setTextColor(51, 65, 85)
+          pdf.text(`${getRiskDisplayName(riskKey)} (final score ${breakdown.finalScore})`, 25, yPosition)
+          yPosition += 7
+          
+          pdf.setFontSize(9)
+          pdf.setFont('helvetica', 'normal')
+          breakdown.steps.forEach(step => {
+            checkAddPage(8)
+            const previous = step.type === 'base' ? 0 : step.total - step.delta
+            const start = Math.max(0, Math.min(100, Math.min(previous, step.total)))
+            const end = Math.max(0, Math.min(100, Math.max(previous, step.total)))
+            
+            // Grey for the base, red for increases, green for reductions
+            if (step.type === 'base') pdf.setFillColor(156, 163, 175)
+            else if (step.delta > 0) pdf.setFillColor(248, 113, 113)
+            else pdf.setFillColor(34, 197, 94)
+            pdf.rect(barLeft + (start / 100) * barWidth, yPosition - 3, Math.max(((end - start) / 100) * barWidth, 0.5), 4, 'F')
+            
+            pdf.setTextColor(71, 85, 105)
+            pdf.text(pdf.splitTextToSize(step.label, barLeft - 35)[0], 30, yPosition)
+            pdf.text(formatStepDelta(step, true), pageWidth - 32, yPosition)
+            pdf.text(`${step.total}`, pageWidth - 22, yPosition)
+            yPosition += 6
+          })
+          
+          yPosition += 6
+        })
+      }
+      
       // Assessment Scope
       if (result.assessedRisks && result.assessedRisks.length > 0) {
         checkAddPage(25)
@@ -453,6 +536,26 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
         pdf.setFont('helvetica', 'bold')
         pdf.text(`Controls Implemented: ${result.gapAnalysis.implementedControls}/${result.gapAnalysis.totalControls}`, 25, yPosition)
         yPosition += 8
+        if (result.gapAnalysis.partialControls) {
+          pdf.text(`Controls Partially Implemented: ${result.gapAnalysis.partialControls}`, 25, yPosition)
+          yPosition += 8
+        }
+        if (result.gapAnalysis.notApplicableControls) {
+          pdf.text(`Controls Not Applicable (excluded): ${result.gapAnalysis.notApplicableControls}`, 25, yPosition)
+          yPosition += 8
+        }
+        if (result.gapAnalysis.unevidencedControls) {
+          pdf.text(`Claimed Controls Without Evidence: ${result.gapAnalysis.unevidencedControls}`, 25, yPosition)
+          yPosition += 8
+        }
+        if (result.gapAnalysis.acceptedControls) {
+          pdf.text(`Gaps Covered by Risk Acceptance: ${result.gapAnalysis.acceptedControls}`, 25, yPosition)
+          yPosition += 8
+        }
+        if (result.gapAnalysis.expiredAcceptanceControls) {
+          pdf.text(`Gaps With Expired Risk Acceptance: ${result.gapAnalysis.expiredAcceptanceControls}`, 25, yPosition)
+          yPosition += 8
+        }
         pdf.text(`Risk Reduction Achieved: ${result.gapAnalysis.riskReduction} points`, 25, yPosition)
         yPosition += 8
         pdf.text(`Implementation Gap: ${result.gapAnalysis.gapPercentage}%`, 25, yPosition)
@@ -480,40 +583,22 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
         
         // Helper function to get short control name
         const getShortControlName = (questionId: number) => {
-          const controlNames: Record<number, string> = {
-            1: 'Human-in-the-loop review',
-            2: 'Output accuracy testing',
-            3: 'Training data verification',
-            4: 'Deterministic prompt testing',
-            5: 'RAG with verified sources',
-            6: 'User warnings for speculation',
-            7: 'Hallucination benchmark testing',
-            8: 'Input sanitization',
-            9: 'Jailbreak vulnerability testing',
-            10: 'System prompt guardrails',
-            11: 'Input monitoring and logging',
-            12: 'Restricted prompt control',
-            13: 'Validated prompt-building logic',
-            14: 'Third-party injection detection',
-            15: 'Data classification for LLM inputs',
-            16: 'PII masking and redaction',
-            17: 'Hosted model contract review',
-            18: 'Inference log monitoring',
-            19: 'In-house models for sensitive data',
-            20: 'Encrypted vector store with RBAC',
-            21: 'Smart routing to private LLMs'
-          }
-          return controlNames[questionId] || `Control ${questionId}`
+          return checklistQuestions.find(q => q.id === questionId)?.shortName || `Control ${questionId}`
         }
         
-        // Get all "Yes" responses
+        // Sort responses into implemented, partial and not applicable controls
         const implementedControls: string[] = []
+        const partialControls: string[] = []
+        const notApplicableControls: string[] = []
         
-        // Check each category for "yes" answers
         Object.entries(result.checklistData).forEach(([category, responses]) => {
           responses.forEach(response => {
             if (response.answer === 'yes') {
               implementedControls.push(getShortControlName(response.questionId))
+            } else if (response.answer === 'partial') {
+              partialControls.push(getShortControlName(response.questionId))
+            } else if (response.answer === 'na') {
+              notApplicableControls.push(`${getShortControlName(response.questionId)} - ${response.justification || 'no justification given'}`)
             }
           })
         })
@@ -534,6 +619,238 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
           pdf.text('No controls have been implemented yet - this represents an opportunity for risk reduction.', 25, yPosition)
           yPosition += 10
         }
+        
+        if (partialControls.length > 0) {
+          checkAddPage(20)
+          pdf.text('Partially implemented (below target maturity):', 25, yPosition)
+          yPosition += 10
+          
+          partialControls.forEach((control, index) => {
+            checkAddPage(10)
+            pdf.text(`${index + 1}. ${control}`, 30, yPosition)
+            yPosition += 6
+          })
+          
+          yPosition += 10
+        }
+        
+        if (notApplicableControls.length > 0) {
+          checkAddPage(20)
+          pdf.text('Not applicable (excluded from the gap analysis):', 25, yPosition)
+          yPosition += 10
+          
+          notApplicableControls.forEach((control, index) => {
+            const controlLines = pdf.splitTextToSize(`${index + 1}. ${control}`, pageWidth - 60)
+            checkAddPage(controlLines.length * 6 + 4)
+            pdf.text(controlLines, 30, yPosition)
+            yPosition += controlLines.length * 6
+          })
+          
+          yPosition += 10
+        }
+      }
+      
+      // Control Maturity Section - current versus target maturity per control
+      const maturityRows = result.checklistData ? getMaturityRows(result.checklistData).filter(row => row.current || row.notApplicable) : []
+      if (maturityRows.length > 0) {
+        checkAddPage(40)
+        pdf.setFontSize(16)
+        pdf.setFont('helvetica', 'bold')
+        pdf.setTextColor(51, 65, 85)
+        pdf.text('Control Maturity (Current vs Target)', 20, yPosition)
+        
+        yPosition += 10
+        pdf.setFontSize(10)
+        pdf.text('Control', 25, yPosition)
+        pdf.text('Current', 110, yPosition)
+        pdf.text('Target', 135, yPosition)
+        pdf.text('Status', 160, yPosition)
+        yPosition += 6
+        
+        pdf.setFont('helvetica', 'normal')
+        pdf.setTextColor(71, 85, 105)
+        maturityRows.forEach(row => {
+          checkAddPage(8)
+          pdf.text(`#${row.questionId} ${row.control}`, 25, yPosition)
+          pdf.text(row.notApplicable ? 'N/A' : maturityLevelLabels[row.current!], 110, yPosition)
+          pdf.text(maturityLevelLabels[row.target], 135, yPosition)
+          pdf.text(formatMaturityGap(row), 160, yPosition)
+          yPosition += 6
+        })
+        
+        yPosition += 10
+      }
+      
+      // Control Evidence Section - justification and evidence behind each claimed control
+      const evidenceRows = result.checklistData ? getEvidenceRows(result.checklistData) : []
+      if (evidenceRows.length > 0) {
+        checkAddPage(40)
+        pdf.setFontSize(16)
+        pdf.setFont('helvetica', 'bold')
+        pdf.setTextColor(51, 65, 85)
+        pdf.text('Control Evidence', 20, yPosition)
+        
+        yPosition += 12
+        
+        evidenceRows.forEach(row => {
+          checkAddPage(14)
+          pdf.setFontSize(10)
+          pdf.setFont('helvetica', 'bold')
+          pdf.setTextColor(51, 65, 85)
+          pdf.text(`#${row.questionId} ${row.control} (${checklistAnswerLabels[row.answer]})`, 25, yPosition)
+          yPosition += 6
+          
+          pdf.setFont('helvetica', 'normal')
+          pdf.setTextColor(71, 85, 105)
+          if (row.justification) {
+            const justificationLines = pdf.splitTextToSize(`Justification: ${row.justification}`, pageWidth - 60)
+            checkAddPage(justificationLines.length * 5)
+            pdf.text(justificationLines, 30, yPosition)
+            yPosition += justificationLines.length * 5
+          }
+          if (row.unevidenced) {
+            pdf.setTextColor(180, 83, 9)
+            pdf.text('No evidence provided (self-attested)', 30, yPosition)
+            yPosition += 5
+          }
+          row.evidence.forEach(item => {
+            checkAddPage(6)
+            const href = getEvidenceHref(item)
+            const label = pdf.splitTextToSize(formatEvidence(item), pageWidth - 60)[0]
+            if (href) {
+              pdf.setTextColor(37, 99, 235)
+              pdf.textWithLink(label, 30, yPosition, { url: href.startsWith('/') ? `${window.location.origin}${href}` : href })
+            } else {
+              pdf.setTextColor(71, 85, 105)
+              pdf.text(label, 30, yPosition)
+            }
+            yPosition += 5
+          })
+          yPosition += 3
+        })
+        
+        yPosition += 7
+      }
+      
+      // Control Gaps Section - prioritized missing controls grouped by category
+      if (result.gapRecommendations && result.gapRecommendations.length > 0) {
+        checkAddPage(40)
+        pdf.setFontSize(16)
+        pdf.setFont('helvetica', 'bold')
+        pdf.setTextColor(51, 65, 85)
+        pdf.text('Your Control Gaps', 20, yPosition)
+        
+        yPosition += 12
+        
+        Object.entries(groupGapsByCategory(result.gapRecommendations)).forEach(([categoryKey, gaps]) => {
+          checkAddPage(20)
+          pdf.setFontSize(12)
+          pdf.setFont('helvetica', 'bold')
+          pdf.setTextColor(51, 65, 85)
+          pdf.text(categoryInfo[categoryKey]?.title || categoryKey, 25, yPosition)
+          yPosition += 7
+          
+          gaps.forEach(gap => {
+            const expiredNote = gap.acceptanceExpiredOn ? ` (risk acceptance expired ${gap.acceptanceExpiredOn})` : ''
+            const questionLines = pdf.splitTextToSize(`[${gap.priority}] #${gap.questionId} ${gap.question}${expiredNote}`, pageWidth - 95)
+            checkAddPage(questionLines.length * 5 + 6)
+            
+            pdf.setFontSize(10)
+            pdf.setFont('helvetica', 'normal')
+            pdf.setTextColor(71, 85, 105)
+            pdf.text(questionLines, 30, yPosition)
+            
+            // Link the FINOS mitigation when we know its URL
+            pdf.setTextColor(37, 99, 235)
+            const mitigationUrl = frameworkData?.mitigationUrls?.[gap.finosMapping]
+            if (mitigationUrl) {
+              pdf.textWithLink(gap.finosMapping, pageWidth - 55, yPosition, { url: mitigationUrl })
+            } else {
+              pdf.text(gap.finosMapping, pageWidth - 55, yPosition)
+            }
+            
+            yPosition += questionLines.length * 5 + 2
+          })
+          
+          yPosition += 6
+        })
+      }
+      
+      // Accepted Risks Section - risk acceptances behind accepted or lapsed gaps
+      if (result.riskAcceptances && result.riskAcceptances.length > 0) {
+        checkAddPage(40)
+        pdf.setFontSize(16)
+        pdf.setFont('helvetica', 'bold')
+        pdf.setTextColor(51, 65, 85)
+        pdf.text('Accepted Risks', 20, yPosition)
+        
+        yPosition += 12
+        
+        result.riskAcceptances.forEach(acceptance => {
+          const expired = isAcceptanceExpired(acceptance)
+          const scopeLines = pdf.splitTextToSize(describeScope(acceptance.scope), pageWidth - 95)
+          const detailLines = pdf.splitTextToSize(
+            `Approved by ${acceptance.approver.name}. Rationale: ${acceptance.rationale} Compensating controls: ${acceptance.compensatingControls.join('; ') || 'none'}.`,
+            pageWidth - 55
+          )
+          checkAddPage((scopeLines.length + detailLines.length) * 5 + 8)
+          
+          pdf.setFontSize(10)
+          pdf.setFont('helvetica', 'bold')
+          pdf.setTextColor(71, 85, 105)
+          pdf.text(scopeLines, 25, yPosition)
+          if (expired) pdf.setTextColor(185, 28, 28)
+          pdf.text(expired ? `EXPIRED ${acceptance.expiresAt}` : `Until ${acceptance.expiresAt}`, pageWidth - 55, yPosition)
+          yPosition += scopeLines.length * 5 + 1
+          
+          pdf.setFont('helvetica', 'normal')
+          pdf.setTextColor(71, 85, 105)
+          pdf.text(detailLines, 30, yPosition)
+          yPosition += detailLines.length * 5 + 4
+        })
+        
+        yPosition += 6
+      }
+      
+      // Remediation Progress Section - tracked items for gaps and mitigations
+      let remediationItems: RemediationItem[] = []
+      if (result.id) {
+        try {
+          const response = await fetch(`/api/assessments/${result.id}/remediation`)
+          if (response.ok) remediationItems = (await response.json()).items
+        } catch (error) {
+          console.error('Failed to load remediation items for PDF:', error)
+        }
+      }
+      if (remediationItems.length > 0) {
+        checkAddPage(40)
+        pdf.setFontSize(16)
+        pdf.setFont('helvetica', 'bold')
+        pdf.setTextColor(51, 65, 85)
+        pdf.text('Remediation Progress', 20, yPosition)
+        
+        yPosition += 10
+        pdf.setFontSize(10)
+        pdf.text('Item', 25, yPosition)
+        pdf.text('Owner', 120, yPosition)
+        pdf.text('Due', 150, yPosition)
+        pdf.text('Status', 172, yPosition)
+        yPosition += 6
+        
+        pdf.setFont('helvetica', 'normal')
+        remediationItems.forEach(item => {
+          const titleLines = pdf.splitTextToSize(item.title, 90)
+          checkAddPage(titleLines.length * 5 + 2)
+          pdf.setTextColor(71, 85, 105)
+          pdf.text(titleLines, 25, yPosition)
+          pdf.text(pdf.splitTextToSize(item.owner || '-', 28)[0], 120, yPosition)
+          pdf.text(item.dueDate || '-', 150, yPosition)
+          if (isOverdue(item)) pdf.setTextColor(185, 28, 28)
+          pdf.text(isOverdue(item) ? 'Overdue' : remediationStatusLabels[item.status], 172, yPosition)
+          yPosition += titleLines.length * 5 + 2
+        })
+        
+        yPosition += 10
       }
       
       // Risk Analysis Section
@@ -550,7 +867,15 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
       
       const analysisLines = pdf.splitTextToSize(result.analysis, pageWidth - 50)
       pdf.text(analysisLines, 25, yPosition)
-      yPosition += analysisLines.length * 6 + 12
+      yPosition += analysisLines.length * 6 + 6
+
+      if (result.assessmentMode === 'offline') {
+        pdf.setFontSize(9)
+        pdf.setTextColor(107, 114, 128)
+        pdf.text('Generated offline from FINOS framework data and the scoring trace (no LLM).', 25, yPosition)
+        yPosition += 6
+      }
+      yPosition += 6
       
       // Risk Mitigations Section
       if (result.riskMitigations && result.riskMitigations.length > 0) {
@@ -747,6 +1072,26 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
                   {getRiskScoreLabel(result.overallRiskScore)}
                 </h3>
                 <p className="text-gray-600">Overall Risk Score</p>
+                {review && (
+                  <p className="mt-3">
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${reviewStatusStyles[review.status]}`}>
+                      {review.decision && review.decision.status === review.status
+                        ? formatReviewDecision(review.decision)
+                        : reviewStatusLabels[review.status]}
+                    </span>
+                  </p>
+                )}
+                {result.id && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Assessment ID: <a href={`/assessments/${result.id}`} className="text-blue-600 hover:underline">{result.id}</a>
+                    {result.productInfo?.productName && (
+                      <>
+                        {' · '}
+                        <a href={`/products/${encodeURIComponent(result.productInfo.productName)}`} className="text-blue-600 hover:underline">View product history</a>
+                      </>
+                    )}
+                  </p>
+                )}
               </div>
 
               {/* Assessment Info */}
@@ -778,7 +1123,7 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
                 
                 {/* Show not applicable risks with specific names */}
                 {(() => {
-                  const allPossibleRisks = ['hallucination', 'promptInjection', 'dataLeakage']
+                  const allPossibleRisks = riskCategoryKeys
                   const assessedRisks = Object.keys(result.riskScores)
                   const notApplicableRisks = allPossibleRisks.filter(risk => !assessedRisks.includes(risk))
                   
@@ -794,6 +1139,25 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
                 })()}
               </div>
 
+              {/* Score Breakdown - how each risk score was reached */}
+              {result.scoreBreakdown && Object.keys(result.scoreBreakdown).length > 0 && (
+                <div className="mb-8">
+                  <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
+                    <span className="mr-2">📊</span>
+                    Score Breakdown
+                  </h4>
+                  <div className="space-y-4">
+                    {Object.entries(result.scoreBreakdown).map(([riskKey, breakdown]) => (
+                      <ScoreWaterfall
+                        key={riskKey}
+                        title={getRiskDisplayName(riskKey)}
+                        breakdown={breakdown}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Analysis */}
               <div className="mb-8">
                 <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
@@ -802,9 +1166,74 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
                 </h4>
                 <div className="bg-gray-50 border-l-4 border-gray-400 p-6 rounded-r-lg border border-gray-200">
                   <p className="text-gray-800 leading-relaxed">{result.analysis}</p>
+                  {result.assessmentMode === 'offline' && (
+                    <p className="text-xs text-gray-500 mt-3">Generated offline from FINOS framework data and the scoring trace (no LLM).</p>
+                  )}
+                  {result.rescoredAt && (
+                    <p className="text-xs text-gray-500 mt-3">
+                      Scores and gaps were recalculated on {new Date(result.rescoredAt).toLocaleString()} after remediation updates; this analysis describes the original submission.
+                    </p>
+                  )}
                 </div>
               </div>
 
+              {/* Control Maturity - current versus target per control */}
+              {result.checklistData && getMaturityRows(result.checklistData).some(row => row.current) && (
+                <div className="mb-8">
+                  <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
+                    <span className="mr-2">📈</span>
+                    Control Maturity
+                  </h4>
+                  <MaturityTable checklistData={result.checklistData} />
+                </div>
+              )}
+
+              {/* Control Evidence - justification and evidence per claimed control */}
+              {result.checklistData && getEvidenceRows(result.checklistData).length > 0 && (
+                <div className="mb-8">
+                  <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
+                    <span className="mr-2">📎</span>
+                    Control Evidence
+                  </h4>
+                  {!!result.gapAnalysis?.unevidencedControls && (
+                    <p className="text-sm text-amber-700 mb-3">
+                      {result.gapAnalysis.unevidencedControls} implemented or partial control{result.gapAnalysis.unevidencedControls > 1 ? 's have' : ' has'} no evidence attached and may be discounted in an audit.
+                    </p>
+                  )}
+                  <EvidenceList checklistData={result.checklistData} />
+                </div>
+              )}
+
+              {/* Control Gaps - prioritized missing controls from the checklist */}
+              {result.gapRecommendations && result.gapRecommendations.length > 0 && (
+                <div className="mb-8">
+                  <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
+                    <span className="mr-2">🧩</span>
+                    Your Control Gaps
+                  </h4>
+                  <ControlGaps
+                    recommendations={result.gapRecommendations}
+                    mitigationUrls={frameworkData?.mitigationUrls}
+                  />
+                </div>
+              )}
+
+              {/* Accepted Risks - gaps consciously accepted instead of implemented */}
+              {((result.riskAcceptances?.length || 0) > 0 || (result.id && result.checklistData && (result.gapRecommendations?.length || 0) > 0)) && (
+                <div className="mb-8">
+                  <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
+                    <span className="mr-2">📝</span>
+                    Accepted Risks
+                  </h4>
+                  {!!result.gapAnalysis?.acceptedControls && (
+                    <p className="text-sm text-gray-600 mb-3">
+                      {result.gapAnalysis.acceptedControls} control gap{result.gapAnalysis.acceptedControls > 1 ? 's are' : ' is'} covered by a risk acceptance. Accepted gaps still count toward the risk scores but are left out of the implementation gap and the list above.
+                    </p>
+                  )}
+                  <RiskAcceptances assessmentId={result.id} result={result} onAssessmentChange={onResultChange} reviewStatus={review?.status} />
+                </div>
+              )}
+
               {/* Risk Assessment & Mitigations Table - Enhanced with Risk Factors */}
               <div className="mb-8">
                 <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
@@ -838,7 +1267,12 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
                               </td>
                               <td className="p-4">
                                 <div>
-                                  <div className="text-blue-600 font-medium text-sm">{item.mitigationId}</div>
+                                  <div className="text-blue-600 font-medium text-sm">
+                                    {item.mitigationId}
+                                    {(result.riskAcceptances || []).some(a => a.scope.type === 'mitigation' && a.scope.mitigationId === item.mitigationId && !isAcceptanceExpired(a)) && (
+                                      <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">Risk accepted</span>
+                                    )}
+                                  </div>
                                   {frameworkData?.mitigationUrls?.[item.mitigationId] ? (
                                     <a
                                       href={frameworkData.mitigationUrls[item.mitigationId]}
@@ -875,25 +1309,9 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
                     <div className="flex flex-wrap gap-2">
                       {result.assessedRisks.map(risk => {
                         const riskInfo = {
-                          hallucination: { 
-                            id: 'AIR-OP-004', 
-                            name: 'Hallucination and Inaccurate Outputs',
-                            url: frameworkData?.hallucination?.url || 'https://air-governance-framework.finos.org/risks/'
-                          },
-                          promptInjection: { 
-                            id: 'AIR-SEC-010', 
-                            name: 'Prompt Injection',
-                            url: frameworkData?.promptInjection?.url || 'https://air-governance-framework.finos.org/risks/'
-                          },
-                          dataLeakage: { 
-                            id: 'AIR-RC-001', 
-                            name: 'Information Leaked To Hosted Model',
-                            url: frameworkData?.dataLeakage?.url || 'https://air-governance-framework.finos.org/risks/'
-                          }
-                        }[risk as keyof typeof riskInfo] || { 
-                          id: risk, 
-                          name: risk, 
-                          url: 'https://air-governance-framework.finos.org/risks/'
+                          id: frameworkData?.[risk]?.id || risk,
+                          name: frameworkData?.[risk]?.title || getRiskDisplayName(risk),
+                          url: frameworkData?.[risk]?.url || 'https://air-governance-framework.finos.org/risks/'
                         }
                         
                         return (
@@ -966,6 +1384,35 @@ export default function ResultsDisplay({ result, onReset }: ResultsDisplayProps)
                 </div>
               </div>
 
+              {/* Remediation tracker - gaps and mitigations turned into owned tasks */}
+              {result.id && ((result.gapRecommendations?.length || 0) > 0 || (result.riskMitigations?.length || 0) > 0) && (
+                <div className="mb-8">
+                  <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
+                    <span className="mr-2">🛠️</span>
+                    Remediation
+                  </h4>
+                  <RemediationTracker assessmentId={result.id} result={result} onAssessmentChange={onResultChange} />
+                </div>
+              )}
+
+              {/* Review and approval */}
+              {review && result.id && (
+                <div className="mb-8">
+                  <h4 className="text-xl font-semibold mb-4 flex items-center text-gray-900">
+                    <span className="mr-2">✅</span>
+                    Review & Approval
+                  </h4>
+                  <ReviewPanel
+                    assessmentId={result.id}
+                    review={review}
+                    availableActions={availableActions}
+                    riskScores={result.riskScores}
+                    checklistData={result.checklistData}
+                    onReviewChange={handleReviewChange}
+                  />
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
                 <button
@@ -0,0 +1,208 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  AssessmentReview,
+  ReviewAction,
+  ReviewTarget,
+  reviewActions,
+  reviewStatusLabels,
+  formatReviewDecision
+} from '../utils/assessmentReview'
+import { checklistQuestions, ChecklistData } from './checklistData'
+import { getRiskDisplayName } from '../utils/riskManifest'
+
+interface ReviewPanelProps {
+  assessmentId: string
+  review: AssessmentReview
+  availableActions: ReviewAction[]
+  riskScores: Record<string, number>
+  checklistData?: ChecklistData
+  onReviewChange: (review: AssessmentReview, availableActions?: ReviewAction[]) => void
+}
+
+// Comment targets are encoded as "general", "score:<risk>" or "control:<questionId>" in the select
+function encodeTarget(target: ReviewTarget): string {
+  if (target.type === 'score') return `score:${target.risk}`
+  if (target.type === 'control') return `control:${target.questionId}`
+  return 'general'
+}
+
+function decodeTarget(value: string): ReviewTarget {
+  const [type, key] = value.split(':')
+  if (type === 'score') return { type: 'score', risk: key }
+  if (type === 'control') return { type: 'control', questionId: parseInt(key) }
+  return { type: 'general' }
+}
+
+export function describeTarget(target: ReviewTarget): string {
+  if (target.type === 'score') return target.risk === 'overall' ? 'Overall score' : `${getRiskDisplayName(target.risk)} score`
+  if (target.type === 'control') {
+    const question = checklistQuestions.find(q => q.id === target.questionId)
+    return `Control #${target.questionId} ${question?.shortName || ''}`.trim()
+  }
+  return 'General'
+}
+
+export const reviewStatusStyles: Record<string, string> = {
+  submitted: 'bg-gray-100 text-gray-800',
+  under_review: 'bg-blue-100 text-blue-800',
+  changes_requested: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  superseded: 'bg-gray-200 text-gray-600'
+}
+
+export default function ReviewPanel({ assessmentId, review, availableActions, riskScores, checklistData, onReviewChange }: ReviewPanelProps) {
+  const [note, setNote] = useState('')
+  const [commentTarget, setCommentTarget] = useState('general')
+  const [commentBody, setCommentBody] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const answeredControls = checklistQuestions.filter(question =>
+    (checklistData?.[question.category] || []).some(response => response.questionId === question.id)
+  )
+
+  const post = async (path: string, body: any) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/assessments/${assessmentId}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        alert(data.error + (data.fieldErrors ? ': ' + Object.values(data.fieldErrors).join(', ') : ''))
+        return null
+      }
+      return data
+    } catch (error) {
+      alert('Failed to update review')
+      console.error(error)
+      return null
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const runAction = async (action: ReviewAction) => {
+    const data = await post('review', { action, note })
+    if (data) {
+      setNote('')
+      onReviewChange(data.review, data.availableActions)
+    }
+  }
+
+  const addComment = async () => {
+    const data = await post('comments', { target: decodeTarget(commentTarget), body: commentBody })
+    if (data) {
+      setCommentBody('')
+      onReviewChange(data.review)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <span className={`px-3 py-1 rounded-full text-sm font-medium ${reviewStatusStyles[review.status]}`}>
+          {reviewStatusLabels[review.status]}
+        </span>
+        {review.decision && (
+          <span className="text-sm text-gray-600">{formatReviewDecision(review.decision)}</span>
+        )}
+      </div>
+
+      {/* Status history */}
+      <ol className="text-sm text-gray-600 space-y-1 mb-6">
+        {review.history.map((event, index) => (
+          <li key={index}>
+            <span className="text-gray-500">{new Date(event.at).toLocaleString()}</span>
+            {' · '}
+            <span className="font-medium text-gray-800">{reviewStatusLabels[event.status]}</span>
+            {event.actor && ` by ${event.actor.name}`}
+            {event.note && <span className="italic"> – {event.note}</span>}
+          </li>
+        ))}
+      </ol>
+
+      {/* Comments on the assessment, its scores and controls */}
+      <h5 className="font-semibold text-gray-900 mb-2">Comments</h5>
+      {review.comments.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No comments yet.</p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {review.comments.map(comment => (
+            <li key={comment.id} className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>{describeTarget(comment.target)}</span>
+                <span>{comment.author.name} · {new Date(comment.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="text-gray-800">{comment.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {review.status !== 'superseded' && (
+        <div className="border-t border-gray-200 pt-4 space-y-3">
+          <div className="flex flex-col md:flex-row gap-3">
+            <select
+              value={commentTarget}
+              onChange={(e) => setCommentTarget(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white md:w-64"
+            >
+              <option value="general">General</option>
+              <option value={encodeTarget({ type: 'score', risk: 'overall' })}>Overall score</option>
+              {Object.keys(riskScores).map(risk => (
+                <option key={risk} value={encodeTarget({ type: 'score', risk })}>{getRiskDisplayName(risk)} score</option>
+              ))}
+              {answeredControls.map(question => (
+                <option key={question.id} value={encodeTarget({ type: 'control', questionId: question.id })}>
+                  Control #{question.id} {question.shortName}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={commentBody}
+              onChange={(e) => setCommentBody(e.target.value)}
+              placeholder="Add a comment"
+              className="flex-1 p-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            <button
+              onClick={addComment}
+              disabled={isSaving || !commentBody.trim()}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg text-sm disabled:opacity-60"
+            >
+              Comment
+            </button>
+          </div>
+
+          {/* Reviewer sign-off; the API only offers actions the signed-in user may take */}
+          {availableActions.length > 0 && (
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Review note (required to reject or request changes)"
+                className="flex-1 p-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+              {availableActions.map(action => (
+                <button
+                  key={action}
+                  onClick={() => runAction(action)}
+                  disabled={isSaving || (reviewActions[action].requiresNote && !note.trim())}
+                  className="px-4 py-2 border border-gray-300 hover:bg-gray-100 text-gray-800 rounded-lg text-sm disabled:opacity-60"
+                >
+                  {reviewActions[action].label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
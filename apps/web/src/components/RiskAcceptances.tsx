@@ -0,0 +1,225 @@
+'use client'
+
+import { useState } from 'react'
+import { checklistQuestions } from './checklistData'
+import { AcceptanceScope, RiskAcceptance, describeScope, isAcceptanceExpired } from '../utils/riskAcceptance'
+import { getLinkedQuestionIds } from '../utils/remediation'
+import { hasPermission } from '../utils/permissions'
+import { ReviewStatus, isRescorable, reviewStatusLabels } from '../utils/assessmentReview'
+import { useSession } from '../utils/useSession'
+
+interface RiskAcceptancesProps {
+  assessmentId?: string // Accepting and revoking need a stored assessment
+  result: any // Assessment with gapRecommendations, riskMitigations, acceptedGaps and riskAcceptances
+  onAssessmentChange?: (assessment: any) => void // Called with the assessment re-scored against the register
+  reviewStatus?: ReviewStatus // Only re-scored while isRescorable; otherwise register changes apply from the next assessment
+}
+
+// Open gaps and mitigations that map to checklist controls can be accepted
+function getAcceptableScopes(result: any): { scope: AcceptanceScope, label: string }[] {
+  const controls = (result.gapRecommendations || []).map((gap: any) => ({
+    scope: { type: 'control', questionId: gap.questionId } as AcceptanceScope,
+    label: `[${gap.priority}] #${gap.questionId} ${gap.question}`
+  }))
+  const mitigationIds = (result.riskMitigations || [])
+    .map((mitigation: any) => mitigation.mitigationId as string)
+    .filter((id: string, index: number, all: string[]) => all.indexOf(id) === index && checklistQuestions.some(q => q.finosMapping === id))
+  const mitigations = mitigationIds.map((id: string) => {
+    const mitigation = result.riskMitigations.find((m: any) => m.mitigationId === id)
+    return { scope: { type: 'mitigation', mitigationId: id } as AcceptanceScope, label: `${id} ${mitigation.mitigationName}` }
+  })
+  return [...controls, ...mitigations]
+}
+
+const scopeKey = (scope: AcceptanceScope) => scope.type === 'control' ? `control:${scope.questionId}` : `mitigation:${scope.mitigationId}`
+
+const emptyForm = { scope: '', rationale: '', compensatingControls: '', expiresAt: '' }
+
+export default function RiskAcceptances({ assessmentId, result, onAssessmentChange, reviewStatus }: RiskAcceptancesProps) {
+  const [form, setForm] = useState(emptyForm)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const user = useSession()
+  const canManage = !!assessmentId && !!user && hasPermission(user, 'risk_acceptances:manage') // The signed-in risk officer is recorded as approver
+
+  const acceptances: RiskAcceptance[] = result.riskAcceptances || []
+  const acceptedKeys = acceptances.filter(a => !isAcceptanceExpired(a)).map(a => scopeKey(a.scope))
+  const acceptable = getAcceptableScopes(result).filter(option => !acceptedKeys.includes(scopeKey(option.scope)))
+
+  const applyChange = (assessment: any) => {
+    if (onAssessmentChange && assessment) {
+      onAssessmentChange(assessment)
+    } else {
+      window.location.reload()
+    }
+  }
+
+  const accept = async () => {
+    const option = acceptable.find(o => scopeKey(o.scope) === form.scope)
+    if (!option || !assessmentId) return
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/risk-acceptances', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          productName: result.productInfo?.productName || result.userInputs?.productName,
+          scope: option.scope,
+          rationale: form.rationale,
+          compensatingControls: form.compensatingControls.split('\n'),
+          expiresAt: form.expiresAt,
+          assessmentId
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
+        if (!data.fieldErrors) alert('Failed to record risk acceptance: ' + data.error)
+        return
+      }
+      setForm(emptyForm)
+      setFieldErrors({})
+      applyChange(data.assessment)
+    } catch (error) {
+      alert('Failed to record risk acceptance')
+      console.error(error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const revoke = async (acceptance: RiskAcceptance) => {
+    if (!assessmentId || !confirm(`Revoke the risk acceptance for ${describeScope(acceptance.scope)}? Its gaps will count as open again.`)) return
+    try {
+      const response = await fetch(`/api/risk-acceptances/${acceptance.id}?assessmentId=${assessmentId}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        alert('Failed to revoke risk acceptance: ' + data.error)
+        return
+      }
+      applyChange(data.assessment)
+    } catch (error) {
+      alert('Failed to revoke risk acceptance')
+      console.error(error)
+    }
+  }
+
+  const inputClass = 'w-full p-2 border border-gray-300 rounded-lg text-sm text-gray-900'
+
+  return (
+    <div className="space-y-4">
+      {canManage && reviewStatus && !isRescorable(reviewStatus) && (
+        <p className="text-sm text-gray-600">
+          This assessment is {reviewStatusLabels[reviewStatus].toLowerCase()}, so its scores stay as reviewed. Acceptances recorded or revoked here go into the register and apply from the next assessment of this product.
+        </p>
+      )}
+      {acceptances.map(acceptance => {
+        const expired = isAcceptanceExpired(acceptance)
+        const controls = getLinkedQuestionIds(acceptance.scope)
+        return (
+          <div key={acceptance.id} className={`bg-white rounded-lg border p-4 shadow-sm ${expired ? 'border-red-200' : 'border-gray-200'}`}>
+            <div className="flex items-start gap-3">
+              <div className="flex-1">
+                <div className="text-gray-900 font-medium">{describeScope(acceptance.scope)}</div>
+                {acceptance.scope.type === 'mitigation' && (
+                  <div className="text-sm text-gray-600 mt-1">Covers controls {controls.map(id => `#${id}`).join(', ')}</div>
+                )}
+              </div>
+              {expired ? (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800">Expired {acceptance.expiresAt}</span>
+              ) : (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">Accepted until {acceptance.expiresAt}</span>
+              )}
+            </div>
+            <dl className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-3 text-sm">
+              <div className="md:col-span-2">
+                <dt className="text-gray-500">Rationale</dt>
+                <dd className="text-gray-900">{acceptance.rationale}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Approver</dt>
+                <dd className="text-gray-900">{acceptance.approver.name}{acceptance.approver.email ? ` (${acceptance.approver.email})` : ''}</dd>
+              </div>
+              <div className="md:col-span-3">
+                <dt className="text-gray-500">Compensating controls</dt>
+                <dd className="text-gray-900">
+                  {acceptance.compensatingControls.length > 0 ? (
+                    <ul className="list-disc list-inside">
+                      {acceptance.compensatingControls.map((control, index) => <li key={index}>{control}</li>)}
+                    </ul>
+                  ) : 'None'}
+                </dd>
+              </div>
+            </dl>
+            {expired && (
+              <p className="text-sm text-red-700 mt-3">This acceptance has expired. Renew it or remediate the gap; the next assessment of this product will count it as open.</p>
+            )}
+            {canManage && !expired && (
+              <button onClick={() => revoke(acceptance)} className="mt-3 text-sm text-red-600 hover:underline">Revoke</button>
+            )}
+          </div>
+        )
+      })}
+
+      {canManage && acceptable.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4 shadow-sm space-y-3">
+          <div className="text-gray-900 font-medium">Accept a gap</div>
+          <select
+            value={form.scope}
+            onChange={(e) => setForm({ ...form, scope: e.target.value })}
+            className={`${inputClass} bg-white`}
+          >
+            <option value="">Select a control gap or mitigation to accept...</option>
+            {acceptable.map(option => (
+              <option key={scopeKey(option.scope)} value={scopeKey(option.scope)}>{option.label}</option>
+            ))}
+          </select>
+          {form.scope && (
+            <>
+              <div>
+                <textarea
+                  value={form.rationale}
+                  onChange={(e) => setForm({ ...form, rationale: e.target.value })}
+                  placeholder="Why is this risk acceptable for this product?"
+                  rows={2}
+                  className={inputClass}
+                />
+                {fieldErrors.rationale && <p className="text-sm text-red-600 mt-1">{fieldErrors.rationale}</p>}
+              </div>
+              <div>
+                <textarea
+                  value={form.compensatingControls}
+                  onChange={(e) => setForm({ ...form, compensatingControls: e.target.value })}
+                  placeholder="Compensating controls, one per line"
+                  rows={2}
+                  className={inputClass}
+                />
+                {fieldErrors.compensatingControls && <p className="text-sm text-red-600 mt-1">{fieldErrors.compensatingControls}</p>}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <input
+                    type="date"
+                    value={form.expiresAt}
+                    onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                    title="Expiry date"
+                    className={inputClass}
+                  />
+                  {fieldErrors.expiresAt && <p className="text-sm text-red-600 mt-1">{fieldErrors.expiresAt}</p>}
+                </div>
+              </div>
+              {fieldErrors.scope && <p className="text-sm text-red-600">{fieldErrors.scope}</p>}
+              <button
+                onClick={accept}
+                disabled={isSaving}
+                className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg text-sm disabled:opacity-60"
+              >
+                {isSaving ? 'Saving...' : 'Record risk acceptance'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
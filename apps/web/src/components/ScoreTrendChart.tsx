@@ -0,0 +1,75 @@
+'use client'
+
+import { HistoryEntry } from '../utils/assessmentHistory'
+import { getRiskDisplayName } from '../utils/riskManifest'
+
+interface ScoreTrendChartProps {
+  runs: HistoryEntry[] // Oldest first
+}
+
+const WIDTH = 640
+const HEIGHT = 240
+const PADDING = { top: 16, right: 16, bottom: 32, left: 40 }
+
+// Overall score first, then one line per risk in a fixed palette
+const lineColors = ['#374151', '#dc2626', '#2563eb', '#d97706', '#059669', '#7c3aed']
+
+export function formatRunDate(createdAt: string): string {
+  return new Date(createdAt).toLocaleDateString()
+}
+
+export default function ScoreTrendChart({ runs }: ScoreTrendChartProps) {
+  const riskKeys = Array.from(new Set(runs.flatMap(run => Object.keys(run.riskScores))))
+  const series = [
+    { key: 'overall', label: 'Overall', values: runs.map(run => run.overallRiskScore) },
+    ...riskKeys.map(risk => ({ key: risk, label: getRiskDisplayName(risk), values: runs.map(run => run.riskScores[risk]) }))
+  ]
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const x = (index: number) => PADDING.left + (runs.length > 1 ? (index / (runs.length - 1)) * plotWidth : plotWidth / 2)
+  const y = (score: number) => PADDING.top + (1 - Math.max(0, Math.min(100, score)) / 100) * plotHeight
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 shadow-sm">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {[20, 40, 60, 80].map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6b7280">{tick}</text>
+          </g>
+        ))}
+        {runs.map((run, index) => (
+          <text key={run.id} x={x(index)} y={HEIGHT - 10} textAnchor="middle" fontSize="10" fill="#6b7280">
+            {formatRunDate(run.createdAt)}
+          </text>
+        ))}
+        {series.map((line, seriesIndex) => {
+          const color = lineColors[seriesIndex % lineColors.length]
+          // Risks not assessed in a run get no point for that run
+          const points = line.values
+            .map((value, index) => value === undefined ? null : `${x(index)},${y(value)}`)
+            .filter(Boolean)
+          return (
+            <g key={line.key}>
+              <polyline points={points.join(' ')} fill="none" stroke={color} strokeWidth={line.key === 'overall' ? 3 : 1.5} />
+              {line.values.map((value, index) => value === undefined ? null : (
+                <circle key={index} cx={x(index)} cy={y(value)} r={line.key === 'overall' ? 4 : 3} fill={color}>
+                  <title>{`${line.label}: ${value}`}</title>
+                </circle>
+              ))}
+            </g>
+          )
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-700">
+        {series.map((line, seriesIndex) => (
+          <span key={line.key} className="flex items-center">
+            <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: lineColors[seriesIndex % lineColors.length] }}></span>
+            {line.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
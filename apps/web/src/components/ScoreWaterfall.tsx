@@ -0,0 +1,51 @@
+'use client'
+
+import { RiskScoreBreakdown, ScoreStep, formatStepDelta } from '../utils/scoreBreakdown'
+
+interface ScoreWaterfallProps {
+  title: string
+  breakdown: RiskScoreBreakdown
+}
+
+// Scores live on a 0-100 axis; bars are positioned as percentages of it
+const toAxis = (score: number) => Math.max(0, Math.min(100, score))
+
+const barStyle = (step: ScoreStep) => {
+  const start = toAxis(step.type === 'base' ? 0 : Math.min(step.total - step.delta, step.total))
+  const end = toAxis(step.type === 'base' ? step.total : Math.max(step.total - step.delta, step.total))
+  return { left: `${start}%`, width: `${Math.max(end - start, 0.5)}%` }
+}
+
+const barColor = (step: ScoreStep) => {
+  if (step.type === 'base') return 'bg-gray-400'
+  if (step.delta > 0) return 'bg-red-400'
+  if (step.delta < 0) return 'bg-green-500'
+  return 'bg-gray-300'
+}
+
+export default function ScoreWaterfall({ title, breakdown }: ScoreWaterfallProps) {
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+      <div className="flex justify-between items-baseline mb-3">
+        <h5 className="font-semibold text-gray-900">{title}</h5>
+        <span className="text-sm text-gray-600">Final score: <span className="font-semibold">{breakdown.finalScore}</span></span>
+      </div>
+      <div className="space-y-2">
+        {breakdown.steps.map((step, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center text-sm">
+            <div className="col-span-5 text-gray-700" title={step.ruleId}>{step.label}</div>
+            <div className="col-span-5 relative h-4 bg-white rounded border border-gray-200">
+              <div className={`absolute top-0 h-full rounded ${barColor(step)}`} style={barStyle(step)}></div>
+            </div>
+            <div className={`col-span-1 text-right font-medium ${
+              step.type === 'base' ? 'text-gray-700' : step.delta > 0 ? 'text-red-600' : step.delta < 0 ? 'text-green-600' : 'text-gray-500'
+            }`}>
+              {formatStepDelta(step)}
+            </div>
+            <div className="col-span-1 text-right text-gray-500">{step.total}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,220 +1,258 @@
-// checklistData.ts - Configuration for the 21 risk assessment questions
+// checklistData.ts - Configuration for the risk assessment questions
+
+import { riskManifest } from '../utils/riskManifest'
 
 export interface ChecklistQuestion {
   id: number
   question: string
+  shortName: string // Short control name used in reports
   purpose: string
-  category: 'hallucination' | 'promptInjection' | 'dataLeakage'
+  category: string // Risk key from data/manifest.json
   weight: number // Risk reduction weight (1-10, higher = more important)
   finosMapping: string // Maps to FINOS mitigation ID
+  targetMaturity: MaturityLevel
+  maturityDescriptors: Partial<Record<MaturityLevel, string>> // Per-question description of each level
 }
 
-export const checklistQuestions: ChecklistQuestion[] = [
-  // Hallucination Risk Questions (7 questions)
-  {
-    id: 1,
-    question: "Have you implemented human-in-the-loop review for critical AI outputs?",
-    purpose: "Control hallucination in high-stakes flows.",
-    category: "hallucination",
-    weight: 9,
-    finosMapping: "AIR-PREV-005"
-  },
-  {
-    id: 2,
-    question: "Are output accuracy checks part of your test suite or QA process?",
-    purpose: "Ensure systematic validation.",
-    category: "hallucination",
-    weight: 8,
-    finosMapping: "AIR-PREV-005"
-  },
-  {
-    id: 3,
-    question: "Is the model's training data documented and verified for relevance?",
-    purpose: "Reduce hallucinations from poor data.",
-    category: "hallucination",
-    weight: 7,
-    finosMapping: "AIR-PREV-006"
-  },
-  {
-    id: 4,
-    question: "Are prompts tested for deterministic output where applicable?",
-    purpose: "Control variability in generations.",
-    category: "hallucination",
-    weight: 6,
-    finosMapping: "AIR-PREV-005"
-  },
-  {
-    id: 5,
-    question: "Do you use grounding techniques (e.g., RAG with verified sources)?",
-    purpose: "Tie output to known truth sources.",
-    category: "hallucination",
-    weight: 8,
-    finosMapping: "AIR-PREV-006"
-  },
-  {
-    id: 6,
-    question: "Are users warned when outputs may be speculative or unsupported?",
-    purpose: "Transparency control.",
-    category: "hallucination",
-    weight: 5,
-    finosMapping: "AIR-PREV-005"
-  },
-  {
-    id: 7,
-    question: "Have you run hallucination benchmark tests (e.g., TruthfulQA)?",
-    purpose: "Quantify the risk systematically.",
-    category: "hallucination",
-    weight: 7,
-    finosMapping: "AIR-PREV-005"
-  },
+// Maturity scale, lowest to highest; the index is the level's numeric value
+export const maturityLevels = ['notStarted', 'adHoc', 'defined', 'measured', 'optimized'] as const
 
-  // Prompt Injection Risk Questions (7 questions)
-  {
-    id: 8,
-    question: "Are prompts and user inputs sanitized before being passed to the LLM?",
-    purpose: "Prevent prompt injection.",
-    category: "promptInjection",
-    weight: 9,
-    finosMapping: "AIR-PREV-003"
-  },
-  {
-    id: 9,
-    question: "Have you tested your prompts for jailbreak and override vulnerabilities?",
-    purpose: "Defensive testing.",
-    category: "promptInjection",
-    weight: 8,
-    finosMapping: "AIR-PREV-005"
-  },
-  {
-    id: 10,
-    question: "Do you use a 'system prompt' guardrail that is regenerated or isolated per session?",
-    purpose: "Prevent user override.",
-    category: "promptInjection",
-    weight: 7,
-    finosMapping: "AIR-PREV-003"
-  },
-  {
-    id: 11,
-    question: "Are model inputs monitored/logged for suspicious tokens or patterns?",
-    purpose: "Detection of attacks.",
-    category: "promptInjection",
-    weight: 8,
-    finosMapping: "AIR-DET-004"
-  },
-  {
-    id: 12,
-    question: "Do you restrict user control over the structure of final prompts?",
-    purpose: "Input shaping to avoid injection vectors.",
-    category: "promptInjection",
-    weight: 6,
-    finosMapping: "AIR-PREV-003"
-  },
-  {
-    id: 13,
-    question: "Is the prompt-building logic abstracted and validated at build-time?",
-    purpose: "Code hygiene and prevention.",
-    category: "promptInjection",
-    weight: 5,
-    finosMapping: "AIR-PREV-005"
-  },
-  {
-    id: 14,
-    question: "Are there any third-party prompt injection detection tools integrated?",
-    purpose: "Use of established tooling.",
-    category: "promptInjection",
-    weight: 7,
-    finosMapping: "AIR-PREV-017"
-  },
+export type MaturityLevel = typeof maturityLevels[number]
 
-  // Data Leakage Risk Questions (7 questions)
-  {
-    id: 15,
-    question: "Has data classification been performed on all inputs sent to hosted LLMs?",
-    purpose: "Identify sensitive data before exposure.",
-    category: "dataLeakage",
-    weight: 9,
-    finosMapping: "AIR-PREV-006"
-  },
-  {
-    id: 16,
-    question: "Do you mask or redact personal and confidential data before API calls?",
-    purpose: "Reduce leakage risk.",
-    category: "dataLeakage",
-    weight: 8,
-    finosMapping: "AIR-PREV-002"
-  },
-  {
-    id: 17,
-    question: "Are hosted model usage contracts reviewed for data retention and usage terms?",
-    purpose: "Regulatory control.",
-    category: "dataLeakage",
-    weight: 7,
-    finosMapping: "AIR-PREV-007"
-  },
-  {
-    id: 18,
-    question: "Are inference logs reviewed for accidental leaks (e.g., through debugging)?",
-    purpose: "Post-use monitoring.",
-    category: "dataLeakage",
-    weight: 6,
-    finosMapping: "AIR-DET-001"
-  },
-  {
-    id: 19,
-    question: "Do you use in-house models or proxies where hosted models aren't approved?",
-    purpose: "Avoid regulated exposure.",
-    category: "dataLeakage",
-    weight: 8,
-    finosMapping: "AIR-PREV-007"
-  },
-  {
-    id: 20,
-    question: "Is the vector store (if used) self-hosted or encrypted with RBAC?",
-    purpose: "Prevent search leakage.",
-    category: "dataLeakage",
-    weight: 7,
-    finosMapping: "AIR-PREV-006"
-  },
-  {
-    id: 21,
-    question: "Is your system able to route sensitive queries to a private LLM instead?",
-    purpose: "Smart routing control.",
-    category: "dataLeakage",
-    weight: 6,
-    finosMapping: "AIR-PREV-007"
-  }
-]
-
-export const categoryInfo = {
-  hallucination: {
-    title: "Hallucination and Inaccurate Outputs",
-    description: "Controls to prevent AI from generating false or misleading information",
-    icon: "🧠",
-    color: "from-purple-500 to-indigo-500"
-  },
-  promptInjection: {
-    title: "Prompt Injection",
-    description: "Security measures to prevent malicious input manipulation", 
-    icon: "🛡️",
-    color: "from-red-500 to-pink-500"
+export const maturityLevelLabels: Record<MaturityLevel, string> = {
+  notStarted: 'Not started',
+  adHoc: 'Ad hoc',
+  defined: 'Defined',
+  measured: 'Measured',
+  optimized: 'Optimized'
+}
+
+export function getMaturityIndex(level: MaturityLevel): number {
+  return maturityLevels.indexOf(level)
+}
+
+// Map a maturity level onto the yes/partial/no answer used by gap analysis
+export function answerFromMaturity(level: MaturityLevel, target: MaturityLevel): ChecklistAnswer {
+  if (getMaturityIndex(level) >= getMaturityIndex(target)) return 'yes'
+  if (level === 'notStarted') return 'no'
+  return 'partial'
+}
+
+export interface CategoryInfo {
+  title: string
+  description: string
+  icon: string
+  color: string
+}
+
+// Questions are defined per risk in data/manifest.json so new FINOS risks bring their own checklist
+export const checklistQuestions: ChecklistQuestion[] = riskManifest.risks.reduce<ChecklistQuestion[]>(
+  (questions, risk) => questions.concat(
+    risk.checklist.questions.map(question => ({
+      ...question,
+      category: risk.key,
+      targetMaturity: question.targetMaturity as MaturityLevel
+    }))
+  ),
+  []
+)
+
+export const categoryInfo: Record<string, CategoryInfo> = riskManifest.risks.reduce<Record<string, CategoryInfo>>(
+  (info, risk) => {
+    info[risk.key] = {
+      title: risk.checklist.title,
+      description: risk.checklist.description,
+      icon: risk.checklist.icon,
+      color: risk.checklist.color
+    }
+    return info
   },
-  dataLeakage: {
-    title: "Information Leaked to Hosted Models",
-    description: "Privacy controls for sensitive data protection",
-    icon: "☁️", 
-    color: "from-blue-500 to-cyan-500"
-  }
+  {}
+)
+
+export type ChecklistAnswer = 'yes' | 'partial' | 'no' | 'na'
+
+export const checklistAnswerLabels: Record<ChecklistAnswer, string> = {
+  yes: 'Yes',
+  partial: 'Partial',
+  no: 'No',
+  na: 'N/A'
+}
+
+export type EvidenceType = 'file' | 'url' | 'ticket'
+
+export const evidenceTypeLabels: Record<EvidenceType, string> = {
+  file: 'File',
+  url: 'Link',
+  ticket: 'Ticket'
 }
 
-export type ChecklistAnswer = 'yes' | 'no' | 'na'
+// Proof behind an answer; files are uploaded to /api/evidence first and referenced by ID
+export interface Evidence {
+  type: EvidenceType
+  value: string // Evidence file ID, URL or ticket reference
+  label?: string // File name or short description
+}
 
 export interface ChecklistResponse {
   questionId: number
   answer: ChecklistAnswer
+  maturity?: MaturityLevel // When given, risk reduction scales with maturity instead of the answer
+  justification?: string // Required when answer is 'na', optional otherwise
+  evidence?: Evidence[]
+}
+
+// A claimed control ('yes' or 'partial') with nothing to back it up is self-attested only
+export function isUnevidencedClaim(response: Pick<ChecklistResponse, 'answer' | 'evidence'>): boolean {
+  return (response.answer === 'yes' || response.answer === 'partial') && !(response.evidence || []).length
+}
+
+// Returns the first problem with a list of evidence, if any
+export function validateEvidenceList(evidence: any): string | undefined {
+  if (!Array.isArray(evidence)) return 'Evidence must be a list'
+  for (const item of evidence) {
+    if (!item || !Object.keys(evidenceTypeLabels).includes(item.type)) return 'Evidence type must be file, url or ticket'
+    if (typeof item.value !== 'string' || !item.value.trim()) return 'Evidence needs a file, URL or ticket reference'
+    if (item.type === 'url' && !/^https?:\/\//i.test(item.value)) return 'Evidence links must start with http:// or https://'
+  }
+  return undefined
+}
+
+// Returns an error message per question with malformed evidence
+export function findInvalidEvidence(checklistData: ChecklistData): Record<number, string> {
+  const errors: Record<number, string> = {}
+  Object.values(checklistData).forEach(responses => {
+    (responses || []).forEach(response => {
+      if (response.evidence === undefined) return
+      const error = validateEvidenceList(response.evidence)
+      if (error) errors[response.questionId] = error
+    })
+  })
+  return errors
+}
+
+// Returns an error message per question that is answered N/A without a justification
+export function findMissingJustifications(checklistData: ChecklistData): Record<number, string> {
+  const errors: Record<number, string> = {}
+  Object.values(checklistData).forEach(responses => {
+    (responses || []).forEach(response => {
+      if (response.answer === 'na' && !response.justification?.trim()) {
+        errors[response.questionId] = 'A short justification is required for N/A answers'
+      }
+    })
+  })
+  return errors
+}
+
+// Returns an error message per question whose maturity level disagrees with its answer; credit comes from the
+// maturity while "implemented" comes from the answer, so the two must tell the same story
+export function findInconsistentMaturity(checklistData: ChecklistData): Record<number, string> {
+  const errors: Record<number, string> = {}
+  Object.values(checklistData).forEach(responses => {
+    (responses || []).forEach(response => {
+      if (response.maturity === undefined) return
+      const question = checklistQuestions.find(q => q.id === response.questionId)
+      if (!question) return
+      if (getMaturityIndex(response.maturity) === -1) {
+        errors[response.questionId] = `Maturity must be one of: ${maturityLevels.join(', ')}`
+      } else if (response.answer === 'na') {
+        errors[response.questionId] = 'N/A answers cannot have a maturity level'
+      } else {
+        const expected = answerFromMaturity(response.maturity, question.targetMaturity)
+        if (response.answer !== expected) {
+          errors[response.questionId] = `Maturity "${response.maturity}" against a target of "${question.targetMaturity}" means the answer is "${expected}", not "${response.answer}"`
+        }
+      }
+    })
+  })
+  return errors
+}
+
+// Responses keyed by risk category
+export type ChecklistData = Record<string, ChecklistResponse[]>
+
+// Answers as held while the checklist is being filled in, keyed by question ID
+export interface ChecklistAnswers {
+  responses: Record<number, ChecklistAnswer>
+  maturities: Record<number, MaturityLevel>
+  justifications: Record<number, string>
+  evidence?: Record<number, Evidence[]> // Missing in drafts saved before evidence was supported
+}
+
+// N/A only counts as answered once it has a justification
+export function isQuestionAnswered(answers: ChecklistAnswers, questionId: number): boolean {
+  const answer = answers.responses[questionId]
+  if (answer === undefined) return false
+  return answer !== 'na' || !!answers.justifications[questionId]?.trim()
+}
+
+// Answered vs total questions in one checklist section (risk category)
+export function getSectionCompletion(answers: ChecklistAnswers, category: string): { answered: number, total: number } {
+  const questions = checklistQuestions.filter(q => q.category === category)
+  return {
+    answered: questions.filter(q => isQuestionAnswered(answers, q.id)).length,
+    total: questions.length
+  }
+}
+
+// Copy the answers for the given questions from source over target
+export function mergeAnswers(target: ChecklistAnswers, source: ChecklistAnswers, questionIds: number[]): ChecklistAnswers {
+  const merged: ChecklistAnswers = {
+    responses: { ...target.responses },
+    maturities: { ...target.maturities },
+    justifications: { ...target.justifications },
+    evidence: { ...target.evidence }
+  }
+  questionIds.forEach(id => {
+    (['responses', 'maturities', 'justifications', 'evidence'] as const).forEach(field => {
+      const value = ((source[field] || {}) as Record<number, any>)[id]
+      if (value === undefined) {
+        delete (merged[field] as Record<number, any>)[id]
+      } else {
+        (merged[field] as Record<number, any>)[id] = value
+      }
+    })
+  })
+  return merged
+}
+
+// Organize answers by category in the shape POST /api/assess expects
+export function buildChecklistData(answers: ChecklistAnswers): ChecklistData {
+  const checklistData: ChecklistData = {}
+  riskManifest.risks.forEach(risk => {
+    checklistData[risk.key] = []
+  })
+
+  checklistQuestions.forEach(question => {
+    const response: ChecklistResponse = {
+      questionId: question.id,
+      answer: answers.responses[question.id]
+    }
+    const justification = (answers.justifications[question.id] || '').trim()
+    if (answers.responses[question.id] === 'na') {
+      response.justification = justification
+    } else {
+      response.maturity = answers.maturities[question.id]
+      if (justification) response.justification = justification
+    }
+    const evidence = answers.evidence?.[question.id] || []
+    if (evidence.length > 0) {
+      response.evidence = evidence
+    }
+    checklistData[question.category].push(response)
+  })
+
+  return checklistData
 }
 
-export interface ChecklistData {
-  hallucination: ChecklistResponse[]
-  promptInjection: ChecklistResponse[]
-  dataLeakage: ChecklistResponse[]
+// Returns an error message per question with no usable answer
+export function findUnansweredQuestions(checklistData: ChecklistData): Record<number, string> {
+  const errors: Record<number, string> = {}
+  checklistQuestions.forEach(question => {
+    const response = (checklistData[question.category] || []).find(r => r.questionId === question.id)
+    if (!response || !response.answer) {
+      errors[question.id] = 'An answer is required'
+    }
+  })
+  return errors
 }
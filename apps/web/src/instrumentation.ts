@@ -0,0 +1,11 @@
+// instrumentation.ts - Runs once when the Next.js server starts
+
+export async function register() {
+  // The scheduler and webhook retries use the file store, so they only run in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startReassessmentScheduler } = await import('./utils/reassessmentScheduler')
+    startReassessmentScheduler()
+    const { startWebhookDispatcher } = await import('./utils/webhookDispatcher')
+    startWebhookDispatcher()
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+// Pages need a session cookie; API routes check the session themselves and answer 401 instead of redirecting.
+// The cookie signature is verified by the API routes, which run on Node rather than the edge runtime.
+export function middleware(request: NextRequest) {
+  if (request.cookies.has('finai_session')) return NextResponse.next()
+
+  const url = new URL('/login', request.url)
+  url.searchParams.set('returnTo', request.nextUrl.pathname + request.nextUrl.search)
+  return NextResponse.redirect(url)
+}
+
+export const config = {
+  matcher: ['/((?!api|_next|login|favicon.ico).*)']
+}
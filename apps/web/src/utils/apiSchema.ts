@@ -0,0 +1,340 @@
+// apiSchema.ts - Request and response schemas of the /api/v1 API
+// Request bodies are validated against them and the OpenAPI document is generated from them (see openApi.ts),
+// so the published contract and the checks cannot drift apart
+
+import { NextRequest, NextResponse } from 'next/server'
+import { checklistAnswerLabels, evidenceTypeLabels, maturityLevels } from '../components/checklistData'
+import { inputOptions } from './inputLabels'
+import { riskCategoryKeys } from './riskManifest'
+import { reviewStatusLabels } from './assessmentReview'
+
+// The subset of JSON Schema that OpenAPI 3.0 understands and validateSchema checks
+export interface Schema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean'
+  description?: string
+  enum?: string[]
+  format?: 'email' | 'uuid' | 'date' | 'date-time' | 'byte' | 'uri'
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  items?: Schema
+  properties?: Record<string, Schema>
+  required?: string[]
+  additionalProperties?: boolean | Schema
+  $ref?: string // '#/components/schemas/<name>'
+}
+
+export const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` })
+
+const evidenceSchema: Schema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: Object.keys(evidenceTypeLabels) },
+    value: { type: 'string', minLength: 1, description: 'Evidence file ID from POST /api/evidence, URL or ticket reference' },
+    label: { type: 'string' }
+  },
+  required: ['type', 'value'],
+  additionalProperties: false
+}
+
+const checklistResponseSchema: Schema = {
+  type: 'object',
+  properties: {
+    questionId: { type: 'integer' },
+    answer: { type: 'string', enum: Object.keys(checklistAnswerLabels) },
+    maturity: { type: 'string', enum: [...maturityLevels], description: 'When given, risk reduction scales with maturity instead of the answer, which must match it: yes at or above the question target, no for notStarted, partial in between; not allowed with na' },
+    justification: { type: 'string', description: "Required when answer is 'na'" },
+    evidence: { type: 'array', items: ref('Evidence') }
+  },
+  required: ['questionId', 'answer'],
+  additionalProperties: false
+}
+
+const scoreMapSchema: Schema = {
+  type: 'object',
+  description: 'Risk category key -> score on the 20-80 scale, higher is riskier',
+  additionalProperties: { type: 'integer', minimum: 20, maximum: 80 }
+}
+
+export const apiSchemas: Record<string, Schema> = {
+  Error: {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      fieldErrors: { type: 'object', description: 'Field path -> problem, for 400 responses', additionalProperties: { type: 'string' } }
+    },
+    required: ['error']
+  },
+  UserInputs: {
+    type: 'object',
+    properties: {
+      productName: { type: 'string', minLength: 1, maxLength: 200 },
+      productManagerName: { type: 'string', minLength: 1, maxLength: 200 },
+      productManagerEmail: { type: 'string', format: 'email' },
+      aiModel: { type: 'string', enum: inputOptions.aiModel },
+      useCase: { type: 'string', enum: inputOptions.useCase },
+      dataSensitivity: { type: 'string', enum: inputOptions.dataSensitivity },
+      accuracyReq: { type: 'string', enum: inputOptions.accuracyReq },
+      industry: { type: 'string', description: 'Scoring rules raise the score for financial, healthcare and government' }
+    },
+    required: ['productName', 'productManagerName', 'productManagerEmail', 'aiModel', 'useCase', 'dataSensitivity', 'accuracyReq'],
+    additionalProperties: false
+  },
+  Evidence: evidenceSchema,
+  ChecklistResponse: checklistResponseSchema,
+  ChecklistData: {
+    type: 'object',
+    description: 'Answers grouped by risk category; every question of the checklist must be answered',
+    properties: riskCategoryKeys.reduce<Record<string, Schema>>(
+      (properties, category) => ({ ...properties, [category]: { type: 'array', items: ref('ChecklistResponse') } }),
+      {}
+    ),
+    additionalProperties: false
+  },
+  AssessmentRequest: {
+    type: 'object',
+    properties: {
+      userInputs: ref('UserInputs'),
+      hasRiskAssessment: { type: 'boolean', description: 'true runs a gap analysis of checklistData' },
+      checklistData: ref('ChecklistData'),
+      draftId: { type: 'string', format: 'uuid', description: 'Draft being submitted, from the web app' },
+      offline: { type: 'boolean', description: 'Build the report from templates without calling an LLM' }
+    },
+    required: ['userInputs'],
+    additionalProperties: false
+  },
+  Assessment: {
+    type: 'object',
+    description: 'The assessment report; gap analysis fields are only present when a checklist was assessed',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      overallRiskScore: { type: 'integer', minimum: 20, maximum: 80 },
+      riskScores: scoreMapSchema,
+      analysis: { type: 'string' },
+      assessedRisks: { type: 'array', items: { type: 'string' } },
+      riskMitigations: { type: 'array', items: { type: 'object' } },
+      contributingFactors: { type: 'array', items: { type: 'object' } },
+      relevantExamples: { type: 'array', items: { type: 'object' } },
+      gapAnalysis: { type: 'object' },
+      gapRecommendations: { type: 'array', items: { type: 'object' } },
+      acceptedGaps: { type: 'array', items: { type: 'object' } },
+      productInfo: { type: 'object' },
+      userInputs: ref('UserInputs'),
+      checklistData: ref('ChecklistData'),
+      scoreBreakdown: { type: 'object' },
+      scoringRules: { type: 'object' },
+      assessmentMode: { type: 'string', enum: ['llm', 'offline'] },
+      organization: { type: 'object' }
+    },
+    required: ['id', 'overallRiskScore', 'riskScores', 'analysis', 'assessedRisks']
+  },
+  Review: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: Object.keys(reviewStatusLabels) },
+      history: { type: 'array', items: { type: 'object' } },
+      comments: { type: 'array', items: { type: 'object' } }
+    },
+    required: ['status']
+  },
+  ReassessmentSchedule: {
+    type: 'object',
+    properties: {
+      riskLevel: { type: 'string', enum: ['high', 'medium', 'low'] },
+      cadenceDays: { type: 'integer' },
+      dueAt: { type: 'string', format: 'date' },
+      stale: { type: 'object', description: 'Present once the assessment is out of date' }
+    },
+    required: ['riskLevel', 'cadenceDays', 'dueAt']
+  },
+  AssessmentResult: {
+    type: 'object',
+    properties: {
+      assessmentId: { type: 'string', format: 'uuid' },
+      assessment: ref('Assessment'),
+      review: ref('Review'),
+      schedule: ref('ReassessmentSchedule')
+    },
+    required: ['assessmentId', 'assessment', 'review', 'schedule']
+  },
+  AssessmentSummary: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      createdAt: { type: 'string', format: 'date-time' },
+      productName: { type: 'string' },
+      productManagerName: { type: 'string' },
+      assessmentType: { type: 'string', enum: ['standard', 'gap_analysis'] },
+      overallRiskScore: { type: 'integer' },
+      riskScores: scoreMapSchema,
+      assessedRisks: { type: 'array', items: { type: 'string' } },
+      reviewStatus: { type: 'string', enum: Object.keys(reviewStatusLabels) },
+      reassessmentDueAt: { type: 'string', format: 'date' },
+      stale: { type: 'boolean' }
+    },
+    required: ['id', 'createdAt', 'productName', 'assessmentType', 'overallRiskScore', 'riskScores', 'reviewStatus']
+  },
+  AssessmentList: {
+    type: 'object',
+    properties: { assessments: { type: 'array', items: ref('AssessmentSummary') } },
+    required: ['assessments']
+  },
+  FrameworkRisk: {
+    type: 'object',
+    properties: {
+      key: { type: 'string', description: 'Risk category key used in scores and checklist data' },
+      id: { type: 'string', description: 'FINOS risk ID' },
+      title: { type: 'string' },
+      url: { type: 'string', format: 'uri' },
+      mitigations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            link: { type: 'string', format: 'uri' }
+          },
+          required: ['id', 'name']
+        }
+      },
+      checklist: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            question: { type: 'string' },
+            purpose: { type: 'string' },
+            weight: { type: 'integer', minimum: 1, maximum: 10 },
+            finosMapping: { type: 'string' },
+            targetMaturity: { type: 'string', enum: [...maturityLevels] }
+          },
+          required: ['id', 'question', 'weight']
+        }
+      }
+    },
+    required: ['key', 'id', 'title', 'mitigations', 'checklist']
+  },
+  FrameworkData: {
+    type: 'object',
+    properties: {
+      risks: { type: 'array', items: ref('FrameworkRisk') },
+      mitigationUrls: { type: 'object', description: 'Mitigation ID -> FINOS page', additionalProperties: { type: 'string' } }
+    },
+    required: ['risks', 'mitigationUrls']
+  },
+  EmailRequest: {
+    type: 'object',
+    properties: {
+      pdfData: { type: 'string', format: 'byte', minLength: 1, description: 'Base64 PDF report to attach' },
+      productInfo: {
+        type: 'object',
+        properties: {
+          productName: { type: 'string', minLength: 1 },
+          productManagerName: { type: 'string', minLength: 1 },
+          productManagerEmail: { type: 'string', format: 'email' }
+        },
+        required: ['productName', 'productManagerName', 'productManagerEmail'],
+        additionalProperties: false
+      },
+      assessmentSummary: {
+        type: 'object',
+        properties: {
+          overallScore: { type: 'integer', minimum: 20, maximum: 80 },
+          riskScores: scoreMapSchema,
+          assessedRisks: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['overallScore', 'riskScores', 'assessedRisks'],
+        additionalProperties: false
+      }
+    },
+    required: ['pdfData', 'productInfo', 'assessmentSummary'],
+    additionalProperties: false
+  },
+  EmailResult: {
+    type: 'object',
+    properties: { messageId: { type: 'string' } },
+    required: ['messageId']
+  }
+}
+
+function resolve(schema: Schema): Schema {
+  return schema.$ref ? apiSchemas[schema.$ref.split('/').pop()!] : schema
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Adds one message per invalid field to errors, keyed by path (e.g. "userInputs.aiModel", "checklistData.promptInjection[0].answer")
+export function validateSchema(schemaOrRef: Schema, value: any, path: string = '', errors: Record<string, string> = {}): Record<string, string> {
+  const schema = resolve(schemaOrRef)
+  const key = path || '(body)'
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors[key] = 'Must be an object'
+        break
+      }
+      const properties = schema.properties || {}
+      ;(schema.required || []).forEach(name => {
+        if (value[name] === undefined || value[name] === null) errors[path ? `${path}.${name}` : name] = 'Required'
+      })
+      Object.entries(value).forEach(([name, item]) => {
+        const itemPath = path ? `${path}.${name}` : name
+        if (item === undefined || (item === null && !(schema.required || []).includes(name))) return
+        if (properties[name]) validateSchema(properties[name], item, itemPath, errors)
+        else if (typeof schema.additionalProperties === 'object') validateSchema(schema.additionalProperties, item, itemPath, errors)
+        else if (schema.additionalProperties === false) errors[itemPath] = 'Unknown field'
+      })
+      break
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors[key] = 'Must be an array'
+        break
+      }
+      if (schema.items) value.forEach((item, index) => validateSchema(schema.items!, item, `${path}[${index}]`, errors))
+      break
+    case 'string':
+      if (typeof value !== 'string') errors[key] = 'Must be a string'
+      else if (schema.enum && !schema.enum.includes(value)) errors[key] = `Must be one of: ${schema.enum.join(', ')}`
+      else if (schema.minLength !== undefined && value.trim().length < schema.minLength) errors[key] = schema.minLength === 1 ? 'Must not be empty' : `Must be at least ${schema.minLength} characters`
+      else if (schema.maxLength !== undefined && value.length > schema.maxLength) errors[key] = `Must be at most ${schema.maxLength} characters`
+      else if (schema.format === 'email' && !EMAIL_PATTERN.test(value)) errors[key] = 'Must be an email address'
+      else if (schema.format === 'uuid' && !/^[0-9a-f-]{36}$/i.test(value)) errors[key] = 'Must be a UUID'
+      break
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value) || (schema.type === 'integer' && !Number.isInteger(value))) errors[key] = schema.type === 'integer' ? 'Must be a whole number' : 'Must be a number'
+      else if (schema.minimum !== undefined && value < schema.minimum) errors[key] = `Must be at least ${schema.minimum}`
+      else if (schema.maximum !== undefined && value > schema.maximum) errors[key] = `Must be at most ${schema.maximum}`
+      break
+    case 'boolean':
+      if (typeof value !== 'boolean') errors[key] = 'Must be true or false'
+      break
+  }
+  return errors
+}
+
+export type ValidatedBody<T> =
+  | { body: T, response?: undefined }
+  | { body?: undefined, response: NextResponse }
+
+// 400 with fieldErrors when the JSON body does not match the named schema
+export async function readValidatedBody<T>(request: NextRequest, schemaName: string): Promise<ValidatedBody<T>> {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return { response: NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 }) }
+  }
+
+  const fieldErrors = validateSchema(ref(schemaName), body)
+  if (Object.keys(fieldErrors).length > 0) {
+    return { response: NextResponse.json({ error: 'Invalid request', fieldErrors }, { status: 400 }) }
+  }
+  return { body }
+}
@@ -0,0 +1,122 @@
+// assessmentDiff.ts - What changed between two stored assessments of a product
+
+import { AnswerChange, diffChecklistAnswers, getSatisfiedMitigations } from './assessmentHistory'
+import { inputFieldLabels } from './inputLabels'
+import { ChecklistData } from '../components/checklistData'
+
+export interface ComparedAssessment {
+  id: string
+  createdAt: string
+  assessmentType: string
+  assessment: any // Assessment object as stored by POST /api/assess
+}
+
+export interface InputChange {
+  field: string
+  label: string
+  before?: string
+  after?: string
+}
+
+export interface ScoreDelta {
+  risk: string // 'overall' for the overall score
+  before?: number
+  after?: number
+  delta?: number // after - before; undefined when the risk was only assessed once
+}
+
+export interface MitigationRef {
+  riskId: string
+  mitigationId: string
+  mitigationName: string
+}
+
+export interface AssessmentDiff {
+  before: Omit<ComparedAssessment, 'assessment'> & { productName?: string }
+  after: Omit<ComparedAssessment, 'assessment'> & { productName?: string }
+  inputChanges: InputChange[]
+  applicability: { added: string[]; removed: string[] }
+  scoreDeltas: ScoreDelta[]
+  answerChanges: AnswerChange[]
+  recommendedMitigations: { added: MitigationRef[]; removed: MitigationRef[] }
+  satisfiedMitigations: { added: string[]; removed: string[] }
+}
+
+// Product manager contact details are not part of the risk profile
+const COMPARED_INPUT_FIELDS = ['productName', 'aiModel', 'useCase', 'dataSensitivity', 'industry', 'accuracyReq', 'hasRiskAssessment']
+
+function listDifference<T>(items: T[], others: T[], key: (item: T) => string): T[] {
+  const otherKeys = new Set(others.map(key))
+  return items.filter(item => !otherKeys.has(key(item)))
+}
+
+function getMitigationRefs(assessment: any): MitigationRef[] {
+  const refs: MitigationRef[] = (assessment.riskMitigations || []).map((m: any) => ({
+    riskId: m.riskId,
+    mitigationId: m.mitigationId,
+    mitigationName: m.mitigationName
+  }))
+  // The same mitigation can be listed under several risks
+  return refs.filter((ref, index) => refs.findIndex(other => other.mitigationId === ref.mitigationId) === index)
+}
+
+export function diffAssessments(before: ComparedAssessment, after: ComparedAssessment): AssessmentDiff {
+  const beforeInputs = before.assessment.userInputs || {}
+  const afterInputs = after.assessment.userInputs || {}
+
+  const inputChanges: InputChange[] = COMPARED_INPUT_FIELDS
+    .filter(field => (beforeInputs[field] || '') !== (afterInputs[field] || ''))
+    .map(field => ({
+      field,
+      label: inputFieldLabels[field] || field,
+      before: beforeInputs[field] || undefined,
+      after: afterInputs[field] || undefined
+    }))
+
+  const beforeRisks: string[] = before.assessment.assessedRisks || Object.keys(before.assessment.riskScores || {})
+  const afterRisks: string[] = after.assessment.assessedRisks || Object.keys(after.assessment.riskScores || {})
+
+  const scoreDeltas: ScoreDelta[] = [
+    { risk: 'overall', before: before.assessment.overallRiskScore, after: after.assessment.overallRiskScore },
+    ...Array.from(new Set([...beforeRisks, ...afterRisks])).map(risk => ({
+      risk,
+      before: before.assessment.riskScores?.[risk],
+      after: after.assessment.riskScores?.[risk]
+    }))
+  ].map(score => ({
+    ...score,
+    delta: score.before !== undefined && score.after !== undefined ? score.after - score.before : undefined
+  }))
+
+  const beforeMitigations = getMitigationRefs(before.assessment)
+  const afterMitigations = getMitigationRefs(after.assessment)
+  const beforeSatisfied = getSatisfiedMitigations(before.assessment.checklistData as ChecklistData | undefined)
+  const afterSatisfied = getSatisfiedMitigations(after.assessment.checklistData as ChecklistData | undefined)
+
+  const describe = (compared: ComparedAssessment) => ({
+    id: compared.id,
+    createdAt: compared.createdAt,
+    assessmentType: compared.assessmentType,
+    productName: compared.assessment.productInfo?.productName
+  })
+
+  return {
+    before: describe(before),
+    after: describe(after),
+    inputChanges,
+    applicability: {
+      added: afterRisks.filter(risk => !beforeRisks.includes(risk)),
+      removed: beforeRisks.filter(risk => !afterRisks.includes(risk))
+    },
+    scoreDeltas,
+    answerChanges: diffChecklistAnswers(before.assessment.checklistData, after.assessment.checklistData),
+    recommendedMitigations: {
+      added: listDifference(afterMitigations, beforeMitigations, ref => ref.mitigationId),
+      removed: listDifference(beforeMitigations, afterMitigations, ref => ref.mitigationId)
+    },
+    satisfiedMitigations: {
+      added: afterSatisfied.filter(id => !beforeSatisfied.includes(id)),
+      removed: beforeSatisfied.filter(id => !afterSatisfied.includes(id))
+    }
+  }
+}
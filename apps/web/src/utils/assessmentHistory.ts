@@ -0,0 +1,124 @@
+// assessmentHistory.ts - Links runs of the same product: score timeline, changed answers and newly satisfied mitigations
+
+import { checklistQuestions, checklistAnswerLabels, maturityLevelLabels, ChecklistData, ChecklistResponse } from '../components/checklistData'
+
+// Minimal view of a stored assessment needed to build history (see assessmentStore)
+export interface AssessmentRun {
+  id: string
+  createdAt: string
+  assessmentType: string
+  assessment: {
+    overallRiskScore: number
+    riskScores: Record<string, number>
+    checklistData?: ChecklistData
+  }
+}
+
+export interface AnswerChange {
+  questionId: number
+  shortName: string
+  category: string
+  before?: Pick<ChecklistResponse, 'answer' | 'maturity'>
+  after?: Pick<ChecklistResponse, 'answer' | 'maturity'>
+}
+
+export interface HistoryEntry {
+  id: string
+  createdAt: string
+  assessmentType: string
+  overallRiskScore: number
+  riskScores: Record<string, number>
+  comparedTo?: string // Previous checklist run the answers were compared with
+  answerChanges: AnswerChange[]
+  newlySatisfiedMitigations: string[]
+}
+
+export interface ProductHistory {
+  productName: string
+  runs: HistoryEntry[] // Oldest first
+}
+
+export function formatAnswerState(state?: AnswerChange['before']): string {
+  if (!state) return 'Not answered'
+  return state.maturity ? maturityLevelLabels[state.maturity] : checklistAnswerLabels[state.answer]
+}
+
+function findResponse(checklistData: ChecklistData | undefined, questionId: number, category: string): ChecklistResponse | undefined {
+  return (checklistData?.[category] || []).find(response => response.questionId === questionId)
+}
+
+// Answers that differ between two checklist submissions, in checklist order
+export function diffChecklistAnswers(before: ChecklistData | undefined, after: ChecklistData | undefined): AnswerChange[] {
+  const changes: AnswerChange[] = []
+
+  checklistQuestions.forEach(question => {
+    const previous = findResponse(before, question.id, question.category)
+    const current = findResponse(after, question.id, question.category)
+    if (!previous && !current) return
+    if (previous?.answer === current?.answer && previous?.maturity === current?.maturity) return
+
+    changes.push({
+      questionId: question.id,
+      shortName: question.shortName,
+      category: question.category,
+      before: previous && { answer: previous.answer, maturity: previous.maturity },
+      after: current && { answer: current.answer, maturity: current.maturity }
+    })
+  })
+
+  return changes
+}
+
+// A FINOS mitigation is satisfied when every applicable control mapped to it is fully implemented
+export function getSatisfiedMitigations(checklistData: ChecklistData | undefined): string[] {
+  if (!checklistData) return []
+
+  const controlsByMitigation: Record<string, ChecklistResponse[]> = {}
+  checklistQuestions.forEach(question => {
+    const response = findResponse(checklistData, question.id, question.category)
+    if (!response || response.answer === 'na') return
+    controlsByMitigation[question.finosMapping] = (controlsByMitigation[question.finosMapping] || []).concat(response)
+  })
+
+  return Object.entries(controlsByMitigation)
+    .filter(([_, responses]) => responses.every(response => response.answer === 'yes'))
+    .map(([mitigationId]) => mitigationId)
+    .sort()
+}
+
+export function getNewlySatisfiedMitigations(before: ChecklistData | undefined, after: ChecklistData | undefined): string[] {
+  const previouslySatisfied = getSatisfiedMitigations(before)
+  return getSatisfiedMitigations(after).filter(mitigationId => !previouslySatisfied.includes(mitigationId))
+}
+
+// Standard runs have no checklist, so answers are compared with the latest earlier checklist run
+export function buildProductHistory(productName: string, runs: AssessmentRun[]): ProductHistory {
+  const ordered = [...runs].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  let lastChecklistRun: AssessmentRun | undefined
+
+  const entries = ordered.map(run => {
+    const checklistData = run.assessment.checklistData
+    const entry: HistoryEntry = {
+      id: run.id,
+      createdAt: run.createdAt,
+      assessmentType: run.assessmentType,
+      overallRiskScore: run.assessment.overallRiskScore,
+      riskScores: run.assessment.riskScores,
+      answerChanges: [],
+      newlySatisfiedMitigations: []
+    }
+
+    if (checklistData) {
+      if (lastChecklistRun) {
+        entry.comparedTo = lastChecklistRun.id
+        entry.answerChanges = diffChecklistAnswers(lastChecklistRun.assessment.checklistData, checklistData)
+      }
+      entry.newlySatisfiedMitigations = getNewlySatisfiedMitigations(lastChecklistRun?.assessment.checklistData, checklistData)
+      lastChecklistRun = run
+    }
+
+    return entry
+  })
+
+  return { productName, runs: entries }
+}
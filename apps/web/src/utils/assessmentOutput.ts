@@ -0,0 +1,166 @@
+// assessmentOutput.ts - Strict schema and FINOS catalog cross-check for the standard assessment LLM response
+
+import { getExamples, RiskMitigationFinding, ContributingFactorFinding, RelevantExampleFinding } from './offlineAnalysis'
+
+const PRIORITIES = ['High', 'Medium', 'Low']
+
+export interface StandardAssessmentOutput {
+  overallRiskScore: number
+  riskScores: Record<string, number>
+  analysis: string
+  riskMitigations: RiskMitigationFinding[]
+  contributingFactors: ContributingFactorFinding[]
+  relevantExamples: RelevantExampleFinding[]
+  assessedRisks: string[]
+}
+
+// Values the model must not change; they come from the rules engine
+export interface ComputedAssessment {
+  overallRiskScore: number
+  riskScores: Record<string, number>
+  assessedRisks: string[]
+}
+
+export interface OutputValidation {
+  output: StandardAssessmentOutput | null // null when the response does not match the schema
+  errors: string[] // Schema violations; any of these makes the response unusable
+  corrections: string[] // Catalog and score fixes applied to a schema-valid response
+}
+
+function isNonEmptyString(value: any): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function checkItems(value: any, field: string, required: Record<string, 'string' | 'priority'>, errors: string[]) {
+  if (value === undefined) return
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be a list`)
+    return
+  }
+  value.forEach((item: any, i: number) => {
+    if (!item || typeof item !== 'object') {
+      errors.push(`${field}[${i}] must be an object`)
+      return
+    }
+    Object.entries(required).forEach(([key, kind]) => {
+      if (kind === 'priority') {
+        if (!PRIORITIES.includes(item[key])) errors.push(`${field}[${i}].${key} must be one of ${PRIORITIES.join(', ')}`)
+      } else if (!isNonEmptyString(item[key])) {
+        errors.push(`${field}[${i}].${key} must be a non-empty string`)
+      }
+    })
+  })
+}
+
+// Schema check only; returns the violations in the response
+export function validateStandardAssessmentSchema(response: any): string[] {
+  const errors: string[] = []
+
+  if (!response || typeof response !== 'object' || Array.isArray(response)) {
+    return ['Response must be a JSON object']
+  }
+  if (!isNonEmptyString(response.analysis)) {
+    errors.push('analysis must be a non-empty string')
+  }
+  if (response.overallRiskScore !== undefined && typeof response.overallRiskScore !== 'number') {
+    errors.push('overallRiskScore must be a number')
+  }
+  if (response.riskScores !== undefined && (typeof response.riskScores !== 'object' || Array.isArray(response.riskScores))) {
+    errors.push('riskScores must be an object')
+  }
+  checkItems(response.riskMitigations, 'riskMitigations', {
+    riskId: 'string', riskName: 'string', mitigationId: 'string', mitigationName: 'string', priority: 'priority', summary: 'string'
+  }, errors)
+  checkItems(response.contributingFactors, 'contributingFactors', {
+    riskId: 'string', factor: 'string', relevance: 'priority', explanation: 'string'
+  }, errors)
+  checkItems(response.relevantExamples, 'relevantExamples', {
+    riskId: 'string', exampleTitle: 'string', relevanceToSystem: 'string'
+  }, errors)
+
+  return errors
+}
+
+// Validate the response, overwrite scores with the computed values and drop or fix anything not in the loaded frameworks
+export function validateStandardAssessmentOutput(
+  response: any,
+  frameworks: Record<string, any>,
+  computed: ComputedAssessment
+): OutputValidation {
+  const errors = validateStandardAssessmentSchema(response)
+  if (errors.length > 0) {
+    return { output: null, errors, corrections: [] }
+  }
+
+  const corrections: string[] = []
+  const loaded = Object.values(frameworks).filter(Boolean)
+  const riskById = new Map<string, any>(loaded.map(framework => [framework.id, framework]))
+
+  if (response.overallRiskScore !== computed.overallRiskScore) {
+    corrections.push(`overallRiskScore ${response.overallRiskScore ?? 'missing'} replaced with computed ${computed.overallRiskScore}`)
+  }
+  Object.entries(computed.riskScores).forEach(([risk, score]) => {
+    if (response.riskScores?.[risk] !== score) {
+      corrections.push(`riskScores.${risk} ${response.riskScores?.[risk] ?? 'missing'} replaced with computed ${score}`)
+    }
+  })
+
+  const riskMitigations: RiskMitigationFinding[] = []
+  const seenMitigations = new Set<string>()
+  ;(response.riskMitigations || []).forEach((item: any) => {
+    // The mitigation ID decides which risk the entry belongs to
+    const owner = loaded.find(framework => (framework.key_mitigations || []).some((m: any) => m.id === item.mitigationId))
+    if (!owner) {
+      corrections.push(`Removed unknown mitigation ${item.mitigationId}`)
+      return
+    }
+    const mitigation = owner.key_mitigations.find((m: any) => m.id === item.mitigationId)
+    const key = `${owner.id}/${mitigation.id}`
+    if (seenMitigations.has(key)) return
+    seenMitigations.add(key)
+
+    if (item.riskId !== owner.id) corrections.push(`Mitigation ${mitigation.id}: riskId ${item.riskId} corrected to ${owner.id}`)
+    riskMitigations.push({
+      riskId: owner.id,
+      riskName: owner.title,
+      mitigationId: mitigation.id,
+      mitigationName: mitigation.name,
+      priority: item.priority,
+      summary: item.summary
+    })
+  })
+
+  const contributingFactors: ContributingFactorFinding[] = []
+  ;(response.contributingFactors || []).forEach((item: any) => {
+    if (!riskById.has(item.riskId)) {
+      corrections.push(`Removed contributing factor "${item.factor}" for unknown risk ${item.riskId}`)
+      return
+    }
+    contributingFactors.push({ riskId: item.riskId, factor: item.factor, relevance: item.relevance, explanation: item.explanation })
+  })
+
+  const relevantExamples: RelevantExampleFinding[] = []
+  ;(response.relevantExamples || []).forEach((item: any) => {
+    const owner = loaded.find(framework => getExamples(framework).some(example => example.title === item.exampleTitle))
+    if (!owner) {
+      corrections.push(`Removed unknown example "${item.exampleTitle}"`)
+      return
+    }
+    if (item.riskId !== owner.id) corrections.push(`Example "${item.exampleTitle}": riskId ${item.riskId} corrected to ${owner.id}`)
+    relevantExamples.push({ riskId: owner.id, exampleTitle: item.exampleTitle, relevanceToSystem: item.relevanceToSystem })
+  })
+
+  return {
+    output: {
+      overallRiskScore: computed.overallRiskScore,
+      riskScores: { ...computed.riskScores },
+      analysis: response.analysis,
+      riskMitigations,
+      contributingFactors,
+      relevantExamples,
+      assessedRisks: [...computed.assessedRisks]
+    },
+    errors: [],
+    corrections
+  }
+}
@@ -0,0 +1,140 @@
+// assessmentReview.ts - Review and sign-off of stored assessments: status transitions and reviewer comments
+// Shared by the API and the results page, so no server-only imports here
+
+// An assessment starts as a draft (see draftStore) and enters review once submitted
+export type ReviewStatus = 'submitted' | 'under_review' | 'changes_requested' | 'approved' | 'rejected' | 'superseded'
+
+export type ReviewAction = 'start_review' | 'request_changes' | 'approve' | 'reject'
+
+export const reviewStatusLabels: Record<ReviewStatus, string> = {
+  submitted: 'Submitted',
+  under_review: 'Under review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  superseded: 'Superseded'
+}
+
+export const reviewActions: Record<ReviewAction, { label: string, from: ReviewStatus[], to: ReviewStatus, requiresNote: boolean }> = {
+  start_review: { label: 'Start review', from: ['submitted'], to: 'under_review', requiresNote: false },
+  request_changes: { label: 'Request changes', from: ['under_review'], to: 'changes_requested', requiresNote: true },
+  approve: { label: 'Approve', from: ['under_review'], to: 'approved', requiresNote: false },
+  reject: { label: 'Reject', from: ['under_review'], to: 'rejected', requiresNote: true }
+}
+
+export interface ReviewActor {
+  name: string
+  email?: string
+  role?: string // e.g. 'risk_officer'
+}
+
+export interface ReviewEvent {
+  status: ReviewStatus
+  at: string
+  actor?: ReviewActor // Missing for system transitions (submission, superseding)
+  note?: string
+}
+
+// What a comment is about: the assessment as a whole, one checklist control or one score
+export type ReviewTarget =
+  | { type: 'general' }
+  | { type: 'control', questionId: number }
+  | { type: 'score', risk: string } // 'overall' for the overall score
+
+export interface ReviewComment {
+  id: string
+  author: ReviewActor
+  target: ReviewTarget
+  body: string
+  createdAt: string
+}
+
+export interface AssessmentReview {
+  status: ReviewStatus
+  history: ReviewEvent[] // Oldest first
+  comments: ReviewComment[]
+  decision?: ReviewEvent // Latest approval, rejection or change request
+}
+
+const DECISION_STATUSES: ReviewStatus[] = ['approved', 'rejected', 'changes_requested']
+
+// Remediation and register changes re-score an assessment in place only until a reviewer picks it up, or after they
+// asked for changes; under review, decided or superseded assessments keep the content the review is about
+const RESCORABLE_STATUSES: ReviewStatus[] = ['submitted', 'changes_requested']
+
+export function isRescorable(status: ReviewStatus): boolean {
+  return RESCORABLE_STATUSES.includes(status)
+}
+
+export function createReview(submittedAt: string): AssessmentReview {
+  return {
+    status: 'submitted',
+    history: [{ status: 'submitted', at: submittedAt }],
+    comments: []
+  }
+}
+
+export function getAvailableActions(status: ReviewStatus): ReviewAction[] {
+  return (Object.keys(reviewActions) as ReviewAction[]).filter(action => reviewActions[action].from.includes(status))
+}
+
+// Move the review to the next status; returns an error when the action is not allowed from the current one
+export function applyReviewAction(
+  review: AssessmentReview,
+  action: ReviewAction,
+  actor: ReviewActor,
+  note?: string,
+  at: string = new Date().toISOString()
+): { review?: AssessmentReview, error?: string } {
+  const transition = reviewActions[action]
+  if (!transition) {
+    return { error: `Unknown review action "${action}"` }
+  }
+  if (!transition.from.includes(review.status)) {
+    return { error: `Cannot ${transition.label.toLowerCase()} an assessment that is ${reviewStatusLabels[review.status].toLowerCase()}` }
+  }
+  if (transition.requiresNote && !note?.trim()) {
+    return { error: `A note is required to ${transition.label.toLowerCase()}` }
+  }
+
+  const event: ReviewEvent = { status: transition.to, at, actor, note: note?.trim() || undefined }
+  return {
+    review: {
+      ...review,
+      status: transition.to,
+      history: [...review.history, event],
+      decision: DECISION_STATUSES.includes(transition.to) ? event : review.decision
+    }
+  }
+}
+
+// A newer assessment of the same product replaces this one
+export function supersedeReview(review: AssessmentReview, supersededBy: string, at: string = new Date().toISOString()): AssessmentReview {
+  return {
+    ...review,
+    status: 'superseded',
+    history: [...review.history, { status: 'superseded', at, note: `Superseded by assessment ${supersededBy}` }]
+  }
+}
+
+// Comments can only point at controls and scores that are part of the assessment
+export function validateReviewTarget(target: any, assessment: any): string | undefined {
+  if (!target || target.type === 'general') return undefined
+  if (target.type === 'control') {
+    const responses = Object.values(assessment.checklistData || {}) as Array<Array<{ questionId: number }>>
+    return responses.some(category => (category || []).some(response => response.questionId === target.questionId))
+      ? undefined
+      : `Control ${target.questionId} is not part of this assessment`
+  }
+  if (target.type === 'score') {
+    return target.risk === 'overall' || target.risk in (assessment.riskScores || {})
+      ? undefined
+      : `Risk "${target.risk}" is not scored in this assessment`
+  }
+  return 'Comment target type must be general, control or score'
+}
+
+export function formatReviewDecision(decision: ReviewEvent): string {
+  const by = decision.actor ? ` by ${decision.actor.name}` : ''
+  return `${reviewStatusLabels[decision.status]}${by} on ${new Date(decision.at).toLocaleString()}`
+}
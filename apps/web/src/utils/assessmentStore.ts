@@ -0,0 +1,206 @@
+// assessmentStore.ts - Persisted assessment results, retrievable by ID and filterable by product
+
+import crypto from 'crypto'
+import { createJsonStore } from './jsonStore'
+import {
+  AssessmentReview,
+  ReviewAction,
+  ReviewActor,
+  ReviewComment,
+  ReviewStatus,
+  ReviewTarget,
+  applyReviewAction,
+  createReview,
+  isRescorable,
+  supersedeReview
+} from './assessmentReview'
+import { AssessmentStaleness, ReassessmentSchedule, createSchedule, getReviewCadence } from './reassessment'
+import { DataFingerprint, computeDataFingerprint, computeScoringFingerprint, findChangedDataFiles } from './dataFingerprint'
+import { DEFAULT_RISK_THRESHOLDS, getOrganizationId } from './organization'
+
+export type AssessmentType = 'standard' | 'gap_analysis'
+
+export interface StoredAssessment {
+  id: string
+  createdAt: string // ISO timestamp
+  productName: string
+  productManagerName?: string
+  productManagerEmail?: string
+  ownerId?: string // User who submitted it; missing on assessments stored before sign-in existed
+  orgId?: string // Missing on assessments stored before organizations existed; see getOrganizationId
+  assessmentType: AssessmentType
+  assessment: any // The assessment object returned by POST /api/assess
+  review?: AssessmentReview // Missing on assessments stored before reviews existed; see getReview
+  schedule?: ReassessmentSchedule // Missing on assessments stored before review cadences existed; see getSchedule
+  dataFingerprint?: DataFingerprint // data/ files the assessment was scored against
+}
+
+// List view without the full report
+export interface AssessmentSummary {
+  id: string
+  createdAt: string
+  productName: string
+  productManagerName?: string
+  assessmentType: AssessmentType
+  overallRiskScore: number
+  riskScores: Record<string, number>
+  assessedRisks: string[]
+  reviewStatus: ReviewStatus
+  reassessmentDueAt: string
+  stale: boolean
+}
+
+const store = createJsonStore<StoredAssessment>('assessments')
+
+export function normalizeProductName(productName: string): string {
+  return (productName || '').trim().toLowerCase()
+}
+
+// Reviews still open on an older assessment end when a newer one of the same product in the same organization is submitted
+const OPEN_REVIEW_STATUSES: ReviewStatus[] = ['submitted', 'under_review', 'changes_requested']
+
+export function getReview(stored: StoredAssessment): AssessmentReview {
+  return stored.review || createReview(stored.createdAt)
+}
+
+// See isRescorable: once a reviewer has the assessment its scores are no longer changed in place
+export function canRescoreInPlace(stored: StoredAssessment): boolean {
+  return isRescorable(getReview(stored).status)
+}
+
+export function getSchedule(stored: StoredAssessment): ReassessmentSchedule {
+  const thresholds = stored.assessment.organization?.riskThresholds || DEFAULT_RISK_THRESHOLDS
+  return stored.schedule || createSchedule(stored.createdAt, stored.assessment.overallRiskScore, getReviewCadence(), thresholds)
+}
+
+// Earlier assessments of the same product in one of the given statuses are marked superseded
+function supersedeEarlier(stored: StoredAssessment, statuses: ReviewStatus[]) {
+  const product = normalizeProductName(stored.productName)
+  store.list()
+    .filter(other => other.id !== stored.id && other.createdAt <= stored.createdAt)
+    .filter(other => getOrganizationId(other) === getOrganizationId(stored))
+    .filter(other => normalizeProductName(other.productName) === product && statuses.includes(getReview(other).status))
+    .forEach(other => store.save({ ...other, review: supersedeReview(getReview(other), stored.id) }))
+}
+
+// A submitted draft passes its own ID so the resume link keeps pointing at the result
+export function saveAssessment(assessment: any, assessmentType: AssessmentType, id: string = crypto.randomUUID(), ownerId?: string, orgId?: string): StoredAssessment {
+  const createdAt = new Date().toISOString()
+  const stored = store.save({
+    id,
+    createdAt,
+    productName: assessment.productInfo?.productName || assessment.userInputs?.productName || '',
+    productManagerName: assessment.productInfo?.productManagerName,
+    productManagerEmail: assessment.productInfo?.productManagerEmail,
+    ownerId,
+    orgId,
+    assessmentType,
+    assessment: { ...assessment, id },
+    review: createReview(createdAt),
+    schedule: createSchedule(createdAt, assessment.overallRiskScore, getReviewCadence(), assessment.organization?.riskThresholds),
+    dataFingerprint: computeScoringFingerprint()
+  })
+  supersedeEarlier(stored, OPEN_REVIEW_STATUSES)
+  return stored
+}
+
+export function getAssessment(id: string): StoredAssessment | undefined {
+  return store.get(id)
+}
+
+// Replace the assessment body after re-scoring against the current data/ files; metadata, review and due date are kept
+// Callers check canRescoreInPlace first, since the kept review would otherwise vouch for content nobody reviewed
+export function updateAssessment(id: string, assessment: any): StoredAssessment | undefined {
+  const stored = store.get(id)
+  if (!stored) return undefined
+  const schedule = getSchedule(stored)
+  const dataFingerprint = computeScoringFingerprint(stored.dataFingerprint)
+  // Only a manifest edit waiting for a rebuild can still differ from data/
+  const changedFiles = findChangedDataFiles(dataFingerprint, computeDataFingerprint())
+  const reasons = (schedule.stale?.reasons || []).filter(reason => reason !== 'framework_changed' || changedFiles.length > 0)
+  return store.save({
+    ...stored,
+    assessment: { ...assessment, id },
+    schedule: {
+      ...schedule,
+      stale: schedule.stale && reasons.length > 0 ? { ...schedule.stale, reasons, changedFiles } : undefined
+    },
+    dataFingerprint
+  })
+}
+
+// Record the staleness found by the scheduler; a change of reasons re-arms the reminder
+export function markStale(id: string, staleness: AssessmentStaleness | undefined): StoredAssessment | undefined {
+  const stored = store.get(id)
+  if (!stored) return undefined
+  const schedule = getSchedule(stored)
+  const sameReasons = (schedule.stale?.reasons || []).join() === (staleness?.reasons || []).join()
+  return store.save({
+    ...stored,
+    schedule: {
+      ...schedule,
+      stale: staleness && { ...staleness, since: schedule.stale?.since || staleness.since },
+      reminderSentAt: sameReasons ? schedule.reminderSentAt : undefined
+    }
+  })
+}
+
+export function markReminderSent(id: string): StoredAssessment | undefined {
+  const stored = store.get(id)
+  if (!stored) return undefined
+  return store.save({ ...stored, schedule: { ...getSchedule(stored), reminderSentAt: new Date().toISOString() } })
+}
+
+// Returns undefined for unknown assessments; approving supersedes the product's previous approval
+export function reviewAssessment(id: string, action: ReviewAction, actor: ReviewActor, note?: string): { stored?: StoredAssessment, error?: string } | undefined {
+  const stored = store.get(id)
+  if (!stored) return undefined
+
+  const result = applyReviewAction(getReview(stored), action, actor, note)
+  if (!result.review) return { error: result.error }
+
+  const updated = store.save({ ...stored, review: result.review })
+  if (result.review.status === 'approved') {
+    supersedeEarlier(updated, ['approved'])
+  }
+  return { stored: updated }
+}
+
+export function addReviewComment(id: string, author: ReviewActor, target: ReviewTarget, body: string): { stored: StoredAssessment, comment: ReviewComment } | undefined {
+  const stored = store.get(id)
+  if (!stored) return undefined
+
+  const comment: ReviewComment = { id: crypto.randomUUID(), author, target, body, createdAt: new Date().toISOString() }
+  const review = getReview(stored)
+  return {
+    stored: store.save({ ...stored, review: { ...review, comments: [...review.comments, comment] } }),
+    comment
+  }
+}
+
+export function summarizeAssessment(stored: StoredAssessment): AssessmentSummary {
+  return {
+    id: stored.id,
+    createdAt: stored.createdAt,
+    productName: stored.productName,
+    productManagerName: stored.productManagerName,
+    assessmentType: stored.assessmentType,
+    overallRiskScore: stored.assessment.overallRiskScore,
+    riskScores: stored.assessment.riskScores,
+    assessedRisks: stored.assessment.assessedRisks || [],
+    reviewStatus: getReview(stored).status,
+    reassessmentDueAt: getSchedule(stored).dueAt,
+    stale: !!getSchedule(stored).stale
+  }
+}
+
+// Newest first; product matches the product name case-insensitively
+export function listAssessments(filter: { orgId?: string, product?: string, reviewStatus?: ReviewStatus, stale?: boolean } = {}): StoredAssessment[] {
+  const product = filter.product ? normalizeProductName(filter.product) : null
+  return store.list()
+    .filter(stored => !filter.orgId || getOrganizationId(stored) === filter.orgId)
+    .filter(stored => !product || normalizeProductName(stored.productName) === product)
+    .filter(stored => !filter.reviewStatus || getReview(stored).status === filter.reviewStatus)
+    .filter(stored => filter.stale === undefined || !!getSchedule(stored).stale === filter.stale)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
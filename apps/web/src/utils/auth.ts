@@ -0,0 +1,69 @@
+// auth.ts - Who is calling an API route and whether they may; every route outside /api/auth goes through authorize()
+
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthUser, Permission, canViewAssessment, hasPermission, isSameOrganization } from './permissions'
+import { readServiceUser, readSessionUser } from './session'
+import { StoredAssessment, getAssessment, listAssessments } from './assessmentStore'
+import { Draft, getDraft, listDrafts } from './draftStore'
+import { EvidenceFile, checklistCitesEvidenceFile, citesEvidenceFile } from './evidenceStore'
+import { getOrganizationId } from './organization'
+import { listRemediationItems } from './remediationStore'
+import { ReviewActor } from './assessmentReview'
+
+export type AuthResult =
+  | { user: AuthUser, response?: undefined }
+  | { user?: undefined, response: NextResponse }
+
+export function getRequestUser(request: NextRequest): AuthUser | undefined {
+  return readServiceUser(request) || readSessionUser(request)
+}
+
+export function forbidden(message: string = 'You do not have permission to do this'): NextResponse {
+  return NextResponse.json({ error: message }, { status: 403 })
+}
+
+// 401 without a valid session, 403 when a required permission is missing
+export function authorize(request: NextRequest, permission?: Permission): AuthResult {
+  const user = getRequestUser(request)
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Sign in required' }, { status: 401 }) }
+  }
+  if (permission && !hasPermission(user, permission)) {
+    return { response: forbidden() }
+  }
+  return { user }
+}
+
+// Assessments the user may not see are reported as missing so their existence is not revealed
+export function getViewableAssessment(user: AuthUser, id: string): StoredAssessment | undefined {
+  const stored = getAssessment(id)
+  return stored && canViewAssessment(user, stored) ? stored : undefined
+}
+
+// Drafts belong to the user who started them; drafts saved before sign-in existed are open to anyone who can assess
+export function getEditableDraft(user: AuthUser, id: string): Draft | undefined {
+  const draft = getDraft(id)
+  if (!draft || !hasPermission(user, 'assessments:create') || !isSameOrganization(user, draft)) return undefined
+  return !draft.ownerId || draft.ownerId === user.id || user.roles.includes('admin') ? draft : undefined
+}
+
+// Evidence is visible to its uploader and to anyone who can see an assessment, draft or remediation item citing it
+export function canViewEvidenceFile(user: AuthUser, file: EvidenceFile): boolean {
+  if (!isSameOrganization(user, file)) return false
+  if (file.uploadedBy && file.uploadedBy === user.id) return true
+
+  const orgId = getOrganizationId(user)
+  const inAssessment = listAssessments({ orgId }).some(stored => canViewAssessment(user, stored) && (
+    checklistCitesEvidenceFile(stored.assessment.checklistData, file.id) ||
+    listRemediationItems(stored.id).some(item => citesEvidenceFile(item.evidence, file.id))
+  ))
+  if (inAssessment) return true
+
+  return listDrafts(orgId).some(draft => getEditableDraft(user, draft.id) &&
+    Object.values(draft.checklist.evidence || {}).some(evidence => citesEvidenceFile(evidence, file.id)))
+}
+
+// How the user is recorded on reviews and comments
+export function toReviewActor(user: AuthUser): ReviewActor {
+  return { name: user.name, email: user.email || undefined, role: user.roles.find(r => r !== 'admin') || user.roles[0] }
+}
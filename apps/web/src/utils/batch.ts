@@ -0,0 +1,148 @@
+// batch.ts - Batch assessment of an AI inventory: one row per system, run through the normal assessment pipeline
+// Shared by the API and the batch page, so no server-only imports here
+
+import { ChecklistData, checklistQuestions } from '../components/checklistData'
+import { RiskLevel } from './reassessment'
+import { AuthUser } from './permissions'
+
+// Profile columns of a CSV upload; checklist answers go in q<questionId> and q<questionId>_justification columns
+export const batchProfileColumns = [
+  'productName',
+  'productManagerName',
+  'productManagerEmail',
+  'aiModel',
+  'useCase',
+  'dataSensitivity',
+  'accuracyReq',
+  'industry'
+]
+
+// Header row plus one example system; answer columns may be left empty for a standard assessment
+export function buildCsvTemplate(): string {
+  const answerColumns = checklistQuestions.reduce<string[]>((names, q) => [...names, `q${q.id}`, `q${q.id}_justification`], [])
+  const example = ['Support chatbot', 'Jane Doe', 'jane.doe@example.com', 'apiBased', 'customerService', 'confidential', 'high', 'financial']
+  return [
+    [...batchProfileColumns, ...answerColumns].join(','),
+    [...example, ...answerColumns.map(() => '')].join(',')
+  ].join('\n') + '\n'
+}
+
+export type BatchRowStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'invalid'
+
+export const batchRowStatusLabels: Record<BatchRowStatus, string> = {
+  pending: 'Pending',
+  running: 'Running',
+  succeeded: 'Assessed',
+  failed: 'Failed',
+  invalid: 'Invalid'
+}
+
+// running while a server is working through it; interrupted when that server stopped before the last row
+export type BatchStatus = 'running' | 'interrupted' | 'completed'
+
+export const batchStatusLabels: Record<BatchStatus, string> = {
+  running: 'Running',
+  interrupted: 'Interrupted',
+  completed: 'Completed'
+}
+
+// The runner refreshes heartbeatAt this often; a running batch without a heartbeat for 4 intervals was interrupted
+export const BATCH_HEARTBEAT_SECONDS = 15
+
+export interface BatchRowResult {
+  assessmentId: string
+  assessmentType: 'standard' | 'gap_analysis'
+  overallRiskScore: number
+  riskScores: Record<string, number>
+  riskLevel: RiskLevel // Under the organization's thresholds when the row was assessed
+  assessedRisks: string[]
+}
+
+export interface BatchRow {
+  index: number // 1-based position in the uploaded file, excluding the CSV header
+  productName: string
+  status: BatchRowStatus
+  request?: { userInputs: any, hasRiskAssessment?: boolean, checklistData?: ChecklistData } // Left out of API responses
+  result?: BatchRowResult
+  error?: string
+  fieldErrors?: Record<string, string>
+  attempts: number
+  finishedAt?: string
+}
+
+export interface AssessmentBatch {
+  id: string
+  createdAt: string
+  updatedAt: string
+  fileName?: string
+  offline: boolean // Build every report from templates without LLM calls
+  ownerId: string // User who uploaded it
+  orgId?: string
+  runAs: AuthUser // Assessments are stored as if the uploader had submitted each row
+  heartbeatAt?: string
+  completedAt?: string // Last time every row was finished
+  rows: BatchRow[]
+}
+
+export function getBatchStatus(batch: AssessmentBatch, now: Date = new Date()): BatchStatus {
+  if (!batch.rows.some(row => row.status === 'pending' || row.status === 'running')) return 'completed'
+  const heartbeat = batch.heartbeatAt ? new Date(batch.heartbeatAt).getTime() : 0
+  return now.getTime() - heartbeat < BATCH_HEARTBEAT_SECONDS * 4 * 1000 ? 'running' : 'interrupted'
+}
+
+// Interrupted batches continue where they stopped; completed ones can retry their failed rows
+export function canResumeBatch(batch: AssessmentBatch, now: Date = new Date()): boolean {
+  const status = getBatchStatus(batch, now)
+  return status === 'interrupted' || (status === 'completed' && batch.rows.some(row => row.status === 'failed'))
+}
+
+export interface BatchSummary {
+  status: BatchStatus
+  total: number
+  rowStatuses: Record<BatchRowStatus, number>
+  riskLevels: Record<RiskLevel, number>
+  averageScore?: number // Of assessed rows
+  categories: { key: string, systems: number, averageScore: number, highestScore: number }[] // Most at risk first
+  highestRisk: { index: number, productName: string, assessmentId: string, overallRiskScore: number, riskLevel: RiskLevel }[]
+}
+
+const HIGHEST_RISK_LIMIT = 10
+
+export function summarizeBatch(batch: AssessmentBatch, now: Date = new Date()): BatchSummary {
+  const rowStatuses: Record<BatchRowStatus, number> = { pending: 0, running: 0, succeeded: 0, failed: 0, invalid: 0 }
+  const riskLevels: Record<RiskLevel, number> = { high: 0, medium: 0, low: 0 }
+  const categoryScores: Record<string, number[]> = {}
+
+  batch.rows.forEach(row => {
+    rowStatuses[row.status]++
+    if (!row.result) return
+    riskLevels[row.result.riskLevel]++
+    Object.entries(row.result.riskScores || {}).forEach(([key, score]) => {
+      categoryScores[key] = [...(categoryScores[key] || []), score]
+    })
+  })
+
+  const assessed = batch.rows.filter(row => row.result).map(row => ({ ...row, result: row.result! }))
+  const average = (scores: number[]) => Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+
+  return {
+    status: getBatchStatus(batch, now),
+    total: batch.rows.length,
+    rowStatuses,
+    riskLevels,
+    averageScore: assessed.length > 0 ? average(assessed.map(row => row.result.overallRiskScore)) : undefined,
+    categories: Object.entries(categoryScores)
+      .map(([key, scores]) => ({ key, systems: scores.length, averageScore: average(scores), highestScore: Math.max(...scores) }))
+      .sort((a, b) => b.averageScore - a.averageScore),
+    highestRisk: assessed
+      .sort((a, b) => b.result.overallRiskScore - a.result.overallRiskScore)
+      .slice(0, HIGHEST_RISK_LIMIT)
+      .map(row => ({
+        index: row.index,
+        productName: row.productName,
+        assessmentId: row.result.assessmentId,
+        overallRiskScore: row.result.overallRiskScore,
+        riskLevel: row.result.riskLevel
+      }))
+  }
+}
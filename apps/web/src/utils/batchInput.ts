@@ -0,0 +1,178 @@
+// batchInput.ts - Parse an uploaded AI inventory (CSV or JSON) into one assessment request per system
+// Rows are checked against the /api/v1 schemas up front, so bad rows are reported before anything is scored
+
+import { ChecklistAnswer, ChecklistData, checklistAnswerLabels, checklistQuestions, findInconsistentMaturity, findMissingJustifications, findUnansweredQuestions } from '../components/checklistData'
+import { Schema, ref, validateSchema } from './apiSchema'
+import { AssessmentRequest } from './assessmentService'
+import { batchProfileColumns } from './batch'
+
+export type BatchFormat = 'csv' | 'json'
+
+export const DEFAULT_BATCH_MAX_ROWS = 500
+
+export interface ParsedBatchRow {
+  productName: string
+  request: AssessmentRequest
+  fieldErrors?: Record<string, string> // Set when the row cannot be assessed as uploaded
+}
+
+// A JSON row is a POST /api/v1/assessments body; offline is chosen per batch and drafts do not apply
+const batchRowSchema: Schema = {
+  type: 'object',
+  properties: {
+    userInputs: ref('UserInputs'),
+    hasRiskAssessment: { type: 'boolean' },
+    checklistData: ref('ChecklistData')
+  },
+  required: ['userInputs'],
+  additionalProperties: false
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines (e.g. a trailing newline in a spreadsheet export) are not systems
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+function isChecklistAnswer(value: string): value is ChecklistAnswer {
+  return Object.keys(checklistAnswerLabels).includes(value)
+}
+
+// Answer cells are checked here, so a bad one is reported against its own column
+function csvRecordToRequest(record: Record<string, string>): { request: AssessmentRequest, fieldErrors: Record<string, string> } {
+  const userInputs: Record<string, string> = {}
+  batchProfileColumns.forEach(column => {
+    if (record[column]) userInputs[column] = record[column]
+  })
+
+  const fieldErrors: Record<string, string> = {}
+  const answered = checklistQuestions.some(q => record[`q${q.id}`])
+  if (!answered) return { request: { userInputs }, fieldErrors }
+
+  const checklistData: ChecklistData = {}
+  checklistQuestions.forEach(question => {
+    const answer = (record[`q${question.id}`] || '').toLowerCase()
+    if (!answer) return
+    if (!isChecklistAnswer(answer)) {
+      fieldErrors[`q${question.id}`] = `Must be one of: ${Object.keys(checklistAnswerLabels).join(', ')}`
+      return
+    }
+    const justification = record[`q${question.id}_justification`]
+    checklistData[question.category] = [
+      ...(checklistData[question.category] || []),
+      { questionId: question.id, answer, ...(justification ? { justification } : {}) }
+    ]
+  })
+  return { request: { userInputs, hasRiskAssessment: true, checklistData }, fieldErrors }
+}
+
+function parseCsvRows(content: string): { requests?: AssessmentRequest[], rowErrors?: Record<string, string>[], error?: string } {
+  const [header, ...records] = parseCsv(content)
+  if (!header) return { error: 'The file has no header row' }
+
+  const columns = header.map(column => column.trim())
+  const knownColumns = [
+    ...batchProfileColumns,
+    ...checklistQuestions.reduce<string[]>((names, q) => [...names, `q${q.id}`, `q${q.id}_justification`], [])
+  ]
+  const unknownColumns = columns.filter(column => column && !knownColumns.includes(column))
+  if (unknownColumns.length > 0) return { error: `Unknown column(s): ${unknownColumns.join(', ')}` }
+
+  const parsed = records.map(cells => {
+    const record: Record<string, string> = {}
+    columns.forEach((column, index) => { record[column] = (cells[index] || '').trim() })
+    return csvRecordToRequest(record)
+  })
+  return { requests: parsed.map(row => row.request), rowErrors: parsed.map(row => row.fieldErrors) }
+}
+
+function parseJsonRows(content: string): { requests?: any[], error?: string } {
+  let parsed: any
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    return { error: 'The file is not valid JSON' }
+  }
+  const requests = Array.isArray(parsed) ? parsed : parsed?.rows
+  if (!Array.isArray(requests)) return { error: 'Expected a JSON array of rows, or an object with a rows array' }
+  return { requests }
+}
+
+function checkRow(request: any): Record<string, string> {
+  const fieldErrors = validateSchema(batchRowSchema, request)
+  if (Object.keys(fieldErrors).length > 0) return fieldErrors
+
+  if (request.hasRiskAssessment && !request.checklistData) {
+    return { checklistData: 'Required when hasRiskAssessment is true' }
+  }
+  if (request.hasRiskAssessment) {
+    const checklistErrors = {
+      ...findUnansweredQuestions(request.checklistData),
+      ...findMissingJustifications(request.checklistData),
+      ...findInconsistentMaturity(request.checklistData)
+    }
+    Object.entries(checklistErrors).forEach(([questionId, message]) => { fieldErrors[`q${questionId}`] = message })
+  }
+  return fieldErrors
+}
+
+// Format defaults to the file's look: JSON starts with [ or {
+export function parseBatchInput(content: string, format?: BatchFormat, maxRows: number = DEFAULT_BATCH_MAX_ROWS): { rows?: ParsedBatchRow[], error?: string } {
+  const trimmed = (content || '').trim()
+  if (!trimmed) return { error: 'The file is empty' }
+
+  const resolvedFormat = format || (trimmed.startsWith('[') || trimmed.startsWith('{') ? 'json' : 'csv')
+  const { requests, rowErrors, error }: { requests?: any[], rowErrors?: Record<string, string>[], error?: string } =
+    resolvedFormat === 'json' ? parseJsonRows(trimmed) : parseCsvRows(trimmed)
+  if (error) return { error }
+  if (requests!.length === 0) return { error: 'The file has no rows' }
+  if (requests!.length > maxRows) return { error: `A batch can have at most ${maxRows} rows; this file has ${requests!.length}` }
+
+  return {
+    rows: requests!.map((request, index) => {
+      // A rejected answer cell also leaves its question unanswered; keep the more specific message
+      const fieldErrors = { ...checkRow(request), ...rowErrors?.[index] }
+      return {
+        productName: String(request?.userInputs?.productName || '').trim(),
+        request,
+        ...(Object.keys(fieldErrors).length > 0 ? { fieldErrors } : {})
+      }
+    })
+  }
+}
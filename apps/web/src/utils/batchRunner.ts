@@ -0,0 +1,123 @@
+// batchRunner.ts - Works through a batch's pending rows with a bounded number of assessments in flight
+// LLM providers rate-limit, so BATCH_CONCURRENCY (default 3) caps how many rows call them at once across all batches
+
+import { BATCH_HEARTBEAT_SECONDS, BatchRow } from './batch'
+import { getBatch, resetUnfinishedRows, touchBatch, updateBatchRow } from './batchStore'
+import { runAssessment } from './assessmentService'
+import { getSchedule } from './assessmentStore'
+import { AuthUser } from './permissions'
+
+export const DEFAULT_BATCH_CONCURRENCY = 3
+
+export function getBatchConcurrency(env: Record<string, string | undefined> = process.env): number {
+  const concurrency = parseInt(env.BATCH_CONCURRENCY || '', 10)
+  return concurrency > 0 ? concurrency : DEFAULT_BATCH_CONCURRENCY
+}
+
+// Batches this server process is working on
+const activeBatches = new Set<string>()
+
+export function isBatchActive(id: string): boolean {
+  return activeBatches.has(id)
+}
+
+// Rows in flight across every batch in this process, and the rows waiting for one of them to finish (oldest first)
+let runningRows = 0
+const waitingRows: Array<() => void> = []
+
+async function acquireRowSlot(): Promise<void> {
+  if (runningRows < getBatchConcurrency()) {
+    runningRows++
+    return
+  }
+  await new Promise<void>(resolve => waitingRows.push(resolve))
+}
+
+// A freed slot goes straight to the longest waiting row, so batches started later are not starved
+function releaseRowSlot() {
+  const next = waitingRows.shift()
+  if (next) next()
+  else runningRows--
+}
+
+async function runRow(batchId: string, row: BatchRow, user: AuthUser, offline: boolean) {
+  updateBatchRow(batchId, row.index, { status: 'running', attempts: row.attempts + 1 })
+  try {
+    const outcome = await runAssessment(user, { ...row.request!, offline })
+    if (!outcome.stored) {
+      updateBatchRow(batchId, row.index, {
+        status: 'failed',
+        error: outcome.error.error,
+        fieldErrors: outcome.error.fieldErrors,
+        finishedAt: new Date().toISOString()
+      })
+      return
+    }
+
+    const { stored } = outcome
+    updateBatchRow(batchId, row.index, {
+      status: 'succeeded',
+      result: {
+        assessmentId: stored.id,
+        assessmentType: stored.assessmentType,
+        overallRiskScore: stored.assessment.overallRiskScore,
+        riskScores: stored.assessment.riskScores,
+        riskLevel: getSchedule(stored).riskLevel,
+        assessedRisks: stored.assessment.assessedRisks || []
+      },
+      error: undefined,
+      fieldErrors: undefined,
+      finishedAt: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error(`Batch ${batchId} row ${row.index} failed:`, error)
+    updateBatchRow(batchId, row.index, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date().toISOString()
+    })
+  }
+}
+
+async function processBatch(id: string) {
+  const batch = resetUnfinishedRows(id)!
+  const queue = batch.rows.filter(row => row.status === 'pending')
+
+  // Rows are recorded as they finish, so a long LLM call does not make the batch look interrupted
+  const heartbeat = setInterval(() => touchBatch(id), BATCH_HEARTBEAT_SECONDS * 1000)
+  heartbeat.unref?.()
+
+  // Each worker waits for a process-wide slot before every row, so concurrent batches share BATCH_CONCURRENCY
+  const worker = async () => {
+    for (let row = queue.shift(); row; row = queue.shift()) {
+      await acquireRowSlot()
+      try {
+        await runRow(id, row, batch.runAs, batch.offline)
+      } finally {
+        releaseRowSlot()
+      }
+    }
+  }
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(getBatchConcurrency(), queue.length) }, worker))
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+// Starts (or resumes) the batch in the background; false when this process is already running it
+export function startBatch(id: string): boolean {
+  if (activeBatches.has(id) || !getBatch(id)) return false
+  activeBatches.add(id)
+
+  processBatch(id)
+    .then(() => {
+      const batch = getBatch(id)
+      const failed = batch ? batch.rows.filter(row => row.status === 'failed').length : 0
+      console.log(`Batch ${id} finished${failed > 0 ? ` with ${failed} failed row(s)` : ''}`)
+    })
+    .catch(error => console.error(`Batch ${id} stopped:`, error))
+    .finally(() => activeBatches.delete(id))
+  return true
+}
@@ -0,0 +1,89 @@
+// batchStore.ts - Persisted batches; every finished row is saved at once so an interrupted batch loses no results
+
+import crypto from 'crypto'
+import { createJsonStore } from './jsonStore'
+import { AssessmentBatch, BatchRow } from './batch'
+import { ParsedBatchRow } from './batchInput'
+import { AuthUser } from './permissions'
+import { getOrganizationId } from './organization'
+
+const store = createJsonStore<AssessmentBatch>('batches')
+
+export function createBatch(rows: ParsedBatchRow[], user: AuthUser, offline: boolean, fileName?: string): AssessmentBatch {
+  const now = new Date().toISOString()
+  return store.save({
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    fileName,
+    offline,
+    ownerId: user.id,
+    orgId: getOrganizationId(user),
+    runAs: user,
+    rows: rows.map((row, i) => ({
+      index: i + 1,
+      productName: row.productName,
+      status: row.fieldErrors ? 'invalid' : 'pending',
+      request: row.request,
+      fieldErrors: row.fieldErrors,
+      error: row.fieldErrors ? 'Row is not a valid assessment request' : undefined,
+      attempts: 0
+    }))
+  })
+}
+
+export function getBatch(id: string): AssessmentBatch | undefined {
+  return store.get(id)
+}
+
+// Newest first
+export function listBatches(filter: { orgId?: string } = {}): AssessmentBatch[] {
+  return store.list()
+    .filter(batch => !filter.orgId || getOrganizationId(batch) === filter.orgId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+// Rows left running by a stopped server, and failed rows, go back to pending for another attempt
+export function resetUnfinishedRows(id: string): AssessmentBatch | undefined {
+  const batch = store.get(id)
+  if (!batch) return undefined
+  const now = new Date().toISOString()
+  return store.save({
+    ...batch,
+    updatedAt: now,
+    heartbeatAt: now,
+    rows: batch.rows.map(row => row.status === 'running' || row.status === 'failed'
+      ? { ...row, status: 'pending', error: undefined, fieldErrors: undefined }
+      : row)
+  })
+}
+
+export function updateBatchRow(id: string, index: number, update: Partial<BatchRow>): AssessmentBatch | undefined {
+  const batch = store.get(id)
+  if (!batch) return undefined
+  const now = new Date().toISOString()
+  const rows = batch.rows.map(row => row.index === index ? { ...row, ...update } : row)
+  return store.save({
+    ...batch,
+    rows,
+    updatedAt: now,
+    heartbeatAt: now,
+    completedAt: rows.some(row => row.status === 'pending' || row.status === 'running') ? batch.completedAt : now
+  })
+}
+
+export function touchBatch(id: string): AssessmentBatch | undefined {
+  const batch = store.get(id)
+  if (!batch) return undefined
+  return store.save({ ...batch, heartbeatAt: new Date().toISOString() })
+}
+
+// API view: row requests can be large and are only needed to run the rows
+export function toBatchView(batch: AssessmentBatch) {
+  const { runAs, ...rest } = batch
+  return {
+    ...rest,
+    createdBy: { name: runAs.name, email: runAs.email },
+    rows: batch.rows.map(({ request, ...row }) => row)
+  }
+}
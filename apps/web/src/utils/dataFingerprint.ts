@@ -0,0 +1,55 @@
+// dataFingerprint.ts - Content hashes of the data/ files an assessment is scored against
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { riskManifest } from './riskManifest'
+
+// File name -> sha256 of its contents
+export type DataFingerprint = Record<string, string>
+
+export function hashData(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function getDataFiles(): string[] {
+  return ['manifest.json', 'scoringRules.json', ...riskManifest.risks.map(risk => risk.file)]
+}
+
+// Files are read on each call so edits to data/ are picked up without a restart
+export function computeDataFingerprint(dataDir: string = path.join(process.cwd(), 'data')): DataFingerprint {
+  const fingerprint: DataFingerprint = {}
+  getDataFiles().forEach(file => {
+    const filePath = path.join(dataDir, file)
+    if (fs.existsSync(filePath)) {
+      fingerprint[file] = hashData(fs.readFileSync(filePath))
+    }
+  })
+  return fingerprint
+}
+
+// The manifest is bundled at build time, so an edit to data/manifest.json is only used after a rebuild
+function isManifestInUse(dataDir: string): boolean {
+  try {
+    return JSON.stringify(JSON.parse(fs.readFileSync(path.join(dataDir, 'manifest.json'), 'utf8'))) === JSON.stringify(riskManifest)
+  } catch {
+    return false
+  }
+}
+
+// Fingerprint of the data a score computed now actually uses. Scoring rules and risk files are parsed again when
+// they change (see loadScoringRules and getRiskCatalogEntry), but a manifest edited since the build keeps its
+// previous hash, so the change is still reported until the app is rebuilt
+export function computeScoringFingerprint(previous: DataFingerprint = {}, dataDir: string = path.join(process.cwd(), 'data')): DataFingerprint {
+  const fingerprint = computeDataFingerprint(dataDir)
+  if (isManifestInUse(dataDir)) return fingerprint
+
+  const { 'manifest.json': _edited, ...rest } = fingerprint
+  return previous['manifest.json'] ? { ...rest, 'manifest.json': previous['manifest.json'] } : rest
+}
+
+// Files added, removed or edited since the fingerprint was taken
+export function findChangedDataFiles(previous: DataFingerprint, current: DataFingerprint = computeDataFingerprint()): string[] {
+  const files = Object.keys({ ...previous, ...current })
+  return files.filter(file => previous[file] !== current[file]).sort()
+}
@@ -0,0 +1,139 @@
+// draftAutosave.ts - Client side of draft autosave: server first, localStorage while the server is unreachable
+
+import { useEffect, useRef, useState } from 'react'
+import { ChecklistAnswers } from '../components/checklistData'
+import type { SectionAssignment } from './draftStore'
+
+export type DraftChecklistAnswers = ChecklistAnswers
+export type DraftSections = Record<string, SectionAssignment>
+
+export interface DraftContent {
+  step: 'form' | 'checklist'
+  formData: Record<string, string>
+  checklist: DraftChecklistAnswers
+}
+
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'local'
+
+export const emptyChecklistAnswers: DraftChecklistAnswers = { responses: {}, maturities: {}, justifications: {}, evidence: {} }
+
+const AUTOSAVE_DELAY_MS = 1000
+const NEW_DRAFT_KEY = 'new' // Local copy of a draft the server has not issued an ID for yet
+
+const localKey = (draftId?: string) => `finai-draft:${draftId || NEW_DRAFT_KEY}`
+
+export function getDraftLink(draftId: string): string {
+  return `${window.location.origin}/?draft=${draftId}`
+}
+
+// Link a section owner uses to answer their part of the checklist
+export function getSectionLink(draftId: string, category: string, token: string): string {
+  return `${window.location.origin}/drafts/${draftId}/sections/${category}?token=${token}`
+}
+
+function readLocalDraft(draftId?: string): (DraftContent & { updatedAt: string }) | null {
+  try {
+    const saved = window.localStorage.getItem(localKey(draftId))
+    return saved ? JSON.parse(saved) : null
+  } catch {
+    return null
+  }
+}
+
+function writeLocalDraft(draftId: string | undefined, content: DraftContent) {
+  try {
+    window.localStorage.setItem(localKey(draftId), JSON.stringify({ ...content, updatedAt: new Date().toISOString() }))
+  } catch {
+    // Storage full or disabled; the next successful server save catches up
+  }
+}
+
+export function clearLocalDraft(draftId?: string) {
+  try {
+    window.localStorage.removeItem(localKey(draftId))
+  } catch {
+    // Ignore, see writeLocalDraft
+  }
+}
+
+// Load a draft, preferring a newer unsynced local copy; submitted drafts report their assessment instead
+export async function loadDraft(draftId?: string): Promise<{ id?: string, content?: DraftContent, sections?: DraftSections, assessmentId?: string, error?: string }> {
+  const local = readLocalDraft(draftId)
+  if (!draftId) {
+    return local ? { content: local } : {}
+  }
+
+  try {
+    const response = await fetch(`/api/drafts/${draftId}`)
+    const data = await response.json()
+    if (!response.ok) {
+      return local ? { id: draftId, content: local } : { error: data.error || 'Failed to load draft' }
+    }
+    if (data.draft.status === 'submitted') {
+      clearLocalDraft(draftId)
+      return { id: draftId, assessmentId: data.draft.assessmentId }
+    }
+    const useLocal = local && local.updatedAt > data.draft.updatedAt
+    return { id: draftId, content: useLocal ? local : data.draft, sections: data.draft.sections || {} }
+  } catch {
+    return local ? { id: draftId, content: local } : { error: 'Failed to load draft' }
+  }
+}
+
+// Saves the draft shortly after each change; creates it on the server on first save and reports its ID
+export function useDraftAutosave(content: DraftContent, enabled: boolean, initialDraftId?: string) {
+  const [draftId, setDraftId] = useState<string | undefined>(initialDraftId)
+  const [status, setStatus] = useState<DraftSaveStatus>('idle')
+  const serialized = JSON.stringify(content)
+  const lastSaved = useRef<string | null>(null)
+
+  useEffect(() => {
+    setDraftId(initialDraftId)
+    lastSaved.current = null
+  }, [initialDraftId])
+
+  useEffect(() => {
+    if (!enabled || serialized === lastSaved.current) return
+
+    const timer = setTimeout(async () => {
+      setStatus('saving')
+      try {
+        const response = await fetch(draftId ? `/api/drafts/${draftId}` : '/api/drafts', {
+          method: draftId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: serialized
+        })
+        if (response.status === 409) {
+          // Submitted from another tab; nothing left to save
+          lastSaved.current = serialized
+          setStatus('idle')
+          return
+        }
+        if (!response.ok) throw new Error(`Draft save failed with status ${response.status}`)
+
+        const data = await response.json()
+        clearLocalDraft(draftId)
+        if (!draftId) {
+          setDraftId(data.draft.id)
+        }
+        lastSaved.current = serialized
+        setStatus('saved')
+      } catch (error) {
+        console.error('Draft autosave failed, keeping a local copy:', error)
+        writeLocalDraft(draftId, JSON.parse(serialized))
+        setStatus('local')
+      }
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [serialized, enabled, draftId])
+
+  // Start over with a new draft (e.g. after "New Assessment")
+  const resetDraft = () => {
+    setDraftId(undefined)
+    setStatus('idle')
+    lastSaved.current = null
+  }
+
+  return { draftId, status, resetDraft }
+}
@@ -0,0 +1,164 @@
+// draftStore.ts - Server-side autosave for unfinished questionnaires; a submitted draft becomes an assessment
+
+import crypto from 'crypto'
+import { createJsonStore } from './jsonStore'
+import { getOrganizationId } from './organization'
+import { ChecklistAnswers, checklistQuestions, getSectionCompletion, mergeAnswers } from '../components/checklistData'
+
+export type DraftStep = 'form' | 'checklist'
+
+// Checklist section (risk category) handed to a named owner, who answers it through their own link
+export interface SectionAssignment {
+  owner: string
+  email?: string
+  token: string // Secret in the owner's link
+  assignedAt: string
+  completedAt?: string // Set while every question in the section is answered
+}
+
+export interface Draft {
+  id: string
+  createdAt: string
+  updatedAt: string
+  status: 'draft' | 'submitted'
+  step: DraftStep
+  formData: Record<string, string>
+  checklist: ChecklistAnswers
+  sections: Record<string, SectionAssignment> // Delegated sections keyed by risk category
+  ownerId?: string // User who started the draft; only they can edit it or assign sections
+  orgId?: string // Organization of the owner; see getOrganizationId
+  assessmentId?: string // Set once submitted
+}
+
+export type DraftUpdate = Partial<Pick<Draft, 'step' | 'formData' | 'checklist'>>
+
+const store = createJsonStore<Draft>('drafts')
+
+export function createDraft(update: DraftUpdate = {}, ownerId?: string, orgId?: string): Draft {
+  const now = new Date().toISOString()
+  return store.save({
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    status: 'draft',
+    step: update.step || 'form',
+    formData: update.formData || {},
+    checklist: update.checklist || { responses: {}, maturities: {}, justifications: {}, evidence: {} },
+    sections: {},
+    ownerId,
+    orgId
+  })
+}
+
+function getSectionQuestionIds(category: string): number[] {
+  return checklistQuestions.filter(q => q.category === category).map(q => q.id)
+}
+
+// Question IDs answered by section owners rather than the PM
+function getDelegatedQuestionIds(draft: Draft): number[] {
+  return Object.keys(draft.sections || {}).flatMap(getSectionQuestionIds)
+}
+
+export function listDrafts(orgId?: string): Draft[] {
+  return store.list().filter(draft => !orgId || getOrganizationId(draft) === orgId)
+}
+
+export function getDraft(id: string): Draft | undefined {
+  return store.get(id)
+}
+
+// Returns undefined for unknown drafts; submitted drafts are read-only and come back unchanged
+export function updateDraft(id: string, update: DraftUpdate): Draft | undefined {
+  const draft = store.get(id)
+  if (!draft || draft.status === 'submitted') return draft
+
+  // The PM's copy of a delegated section may be stale; the owner's answers win
+  const checklist = update.checklist
+    ? mergeAnswers(update.checklist, draft.checklist, getDelegatedQuestionIds(draft))
+    : draft.checklist
+
+  return store.save({
+    ...draft,
+    step: update.step || draft.step,
+    formData: update.formData || draft.formData,
+    checklist,
+    updatedAt: new Date().toISOString()
+  })
+}
+
+export function assignSection(id: string, category: string, owner: string, email?: string): Draft | undefined {
+  const draft = store.get(id)
+  if (!draft || draft.status === 'submitted') return draft
+
+  const now = new Date().toISOString()
+  const completion = getSectionCompletion(draft.checklist, category)
+  return store.save({
+    ...draft,
+    sections: {
+      ...draft.sections,
+      [category]: {
+        owner,
+        email,
+        token: crypto.randomBytes(24).toString('hex'),
+        assignedAt: now,
+        completedAt: completion.answered === completion.total ? now : undefined
+      }
+    },
+    updatedAt: now
+  })
+}
+
+// The PM takes the section back; answers given so far are kept
+export function unassignSection(id: string, category: string): Draft | undefined {
+  const draft = store.get(id)
+  if (!draft || draft.status === 'submitted') return draft
+
+  const sections = { ...draft.sections }
+  delete sections[category]
+  return store.save({ ...draft, sections, updatedAt: new Date().toISOString() })
+}
+
+export function findSectionByToken(draft: Draft, category: string, token: string | null): SectionAssignment | undefined {
+  const section = draft.sections?.[category]
+  if (!section || !token) return undefined
+  const expected = Buffer.from(section.token)
+  const given = Buffer.from(token)
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given) ? section : undefined
+}
+
+// Owner saves their section; only that section's questions are taken from the update
+export function updateSectionAnswers(id: string, category: string, answers: ChecklistAnswers): Draft | undefined {
+  const draft = store.get(id)
+  if (!draft || draft.status === 'submitted' || !draft.sections?.[category]) return draft
+
+  const now = new Date().toISOString()
+  const checklist = mergeAnswers(draft.checklist, answers, getSectionQuestionIds(category))
+  const completion = getSectionCompletion(checklist, category)
+  return store.save({
+    ...draft,
+    checklist,
+    sections: {
+      ...draft.sections,
+      [category]: {
+        ...draft.sections[category],
+        completedAt: completion.answered === completion.total ? (draft.sections[category].completedAt || now) : undefined
+      }
+    },
+    updatedAt: now
+  })
+}
+
+// Delegated sections that still have unanswered questions
+export function findIncompleteSections(draft: Draft): string[] {
+  return Object.keys(draft.sections || {}).filter(category => {
+    const completion = getSectionCompletion(draft.checklist, category)
+    return completion.answered < completion.total
+  })
+}
+
+export function markDraftSubmitted(id: string, assessmentId: string): Draft | undefined {
+  const draft = store.get(id)
+  if (!draft) return undefined
+
+  return store.save({ ...draft, status: 'submitted', assessmentId, updatedAt: new Date().toISOString() })
+}
@@ -0,0 +1,88 @@
+// evidenceStore.ts - Uploaded evidence files: metadata in the JSON store, contents next to it under evidence/
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { createJsonStore, getStoreDir } from './jsonStore'
+import { ChecklistData, Evidence } from '../components/checklistData'
+
+export const MAX_EVIDENCE_BYTES = 10 * 1024 * 1024
+
+export interface EvidenceFile {
+  id: string
+  fileName: string
+  contentType: string
+  size: number
+  sha256: string // Lets auditors confirm the file was not swapped after the assessment
+  uploadedAt: string
+  orgId?: string // Organization of the uploader; see getOrganizationId
+  uploadedBy?: string // User ID; missing on files uploaded before downloads were restricted
+}
+
+const store = createJsonStore<EvidenceFile>('evidence')
+
+const contentPath = (id: string) => path.join(getStoreDir(), 'evidence', id)
+
+export function saveEvidenceFile(fileName: string, contentType: string, data: Buffer, orgId?: string, uploadedBy?: string): EvidenceFile {
+  const file: EvidenceFile = {
+    id: crypto.randomUUID(),
+    fileName: path.basename(fileName) || 'evidence',
+    contentType: contentType || 'application/octet-stream',
+    size: data.length,
+    sha256: crypto.createHash('sha256').update(data).digest('hex'),
+    uploadedAt: new Date().toISOString(),
+    orgId,
+    uploadedBy
+  }
+
+  fs.mkdirSync(path.dirname(contentPath(file.id)), { recursive: true })
+  fs.writeFileSync(contentPath(file.id), data)
+  return store.save(file)
+}
+
+export function getEvidenceFile(id: string): { file: EvidenceFile, data: Buffer } | undefined {
+  const file = store.get(id)
+  if (!file || !fs.existsSync(contentPath(id))) return undefined
+  return { file, data: fs.readFileSync(contentPath(id)) }
+}
+
+export function citesEvidenceFile(evidence: Evidence[] | undefined, id: string): boolean {
+  return (evidence || []).some(item => item.type === 'file' && item.value === id)
+}
+
+export function checklistCitesEvidenceFile(checklistData: ChecklistData | undefined, id: string): boolean {
+  return Object.values(checklistData || {}).some(responses => (responses || []).some(response => citesEvidenceFile(response.evidence, id)))
+}
+
+// Returns an error when the evidence references a file that was never uploaded or that the caller may not cite;
+// citing a file makes it downloadable, so canCite should only pass files the caller can already see
+export function findMissingEvidenceFile(evidence: Evidence[], canCite: (file: EvidenceFile) => boolean): string | undefined {
+  const missing = evidence.find(item => {
+    if (item.type !== 'file') return false
+    const file = store.get(item.value)
+    return !file || !canCite(file)
+  })
+  return missing ? `Evidence file ${missing.value} not found` : undefined
+}
+
+// Returns an error message per question referencing an evidence file that cannot be cited
+export function findMissingEvidenceFiles(checklistData: ChecklistData, canCite: (file: EvidenceFile) => boolean): Record<number, string> {
+  const errors: Record<number, string> = {}
+  Object.values(checklistData).forEach(responses => {
+    (responses || []).forEach(response => {
+      const error = findMissingEvidenceFile(response.evidence || [], canCite)
+      if (error) errors[response.questionId] = error
+    })
+  })
+  return errors
+}
+
+// Same check for evidence keyed by question ID, as drafts hold it
+export function findMissingAnswerEvidenceFiles(evidence: Record<number, Evidence[]> | undefined, canCite: (file: EvidenceFile) => boolean): Record<number, string> {
+  const errors: Record<number, string> = {}
+  Object.entries(evidence || {}).forEach(([questionId, items]) => {
+    const error = Array.isArray(items) ? findMissingEvidenceFile(items, canCite) : undefined
+    if (error) errors[Number(questionId)] = error
+  })
+  return errors
+}
@@ -1,18 +1,59 @@
 // gapAnalysis.ts - Logic for calculating risk scores based on checklist responses
 
-import { ChecklistData, ChecklistAnswer, checklistQuestions } from '../components/checklistData'
+import {
+  ChecklistData,
+  ChecklistAnswer,
+  ChecklistQuestion,
+  ChecklistResponse,
+  Evidence,
+  MaturityLevel,
+  checklistQuestions,
+  getMaturityIndex,
+  maturityLevelLabels
+} from '../components/checklistData'
+import { riskCategoryKeys } from './riskManifest'
+import { RiskAcceptance, findAcceptance, isAcceptanceExpired } from './riskAcceptance'
+import { QuestionWeights, getQuestionWeight } from './organization'
+import { ScoreBreakdown, createBreakdown, addStep, clampBreakdown, cloneBreakdown } from './scoreBreakdown'
 
-export interface GapAnalysisResult {
-  categoryScores: {
-    hallucination: number
-    promptInjection: number  
-    dataLeakage: number
+// Share of a control's risk reduction credited for each answer
+export const ANSWER_CREDIT: Record<ChecklistAnswer, number> = {
+  yes: 1,
+  partial: 0.5,
+  no: 0,
+  na: 0
+}
+
+// Maturity answers earn credit proportionally up to the question's target level
+export function getAnswerCredit(response: ChecklistResponse, question?: ChecklistQuestion): number {
+  if (response.answer === 'na') return 0
+  if (response.maturity && question) {
+    return Math.min(1, getMaturityIndex(response.maturity) / Math.max(1, getMaturityIndex(question.targetMaturity)))
   }
+  return ANSWER_CREDIT[response.answer] ?? 0
+}
+
+// N/A controls are excluded from the gap denominator and from recommendations
+export function isApplicableAnswer(response: ChecklistResponse): boolean {
+  return response.answer !== 'na'
+}
+
+export interface GapAnalysisResult {
+  categoryScores: Record<string, number> // Keyed by risk category
   implementationStatus: {
     [questionId: number]: {
       implemented: boolean
-      weight: number
+      answer: ChecklistAnswer
+      applicable: boolean
+      credit: number // 0-1 share of the control's reduction achieved
+      maturity?: MaturityLevel
+      targetMaturity: MaturityLevel
+      justification?: string
+      evidence: Evidence[]
+      weight: number // After the organization's overrides
       riskReduction: number
+      acceptance?: { id: string, expiresAt: string, expired: boolean } // Risk acceptance covering an unimplemented control
+      accepted: boolean // Gap covered by an acceptance still in force
     }
   }
   totalRiskReduction: number
@@ -21,85 +62,129 @@ export interface GapAnalysisResult {
 
 export function calculateRiskScoresWithGaps(
   baseRiskScores: Record<string, number>,
-  checklistData: ChecklistData
-): { adjustedRiskScores: Record<string, number>, gapAnalysis: GapAnalysisResult } {
+  checklistData: ChecklistData,
+  baseBreakdown: ScoreBreakdown = {},
+  acceptances: RiskAcceptance[] = [],
+  questionWeights: QuestionWeights = {}
+): { adjustedRiskScores: Record<string, number>, gapAnalysis: GapAnalysisResult, scoreBreakdown: ScoreBreakdown } {
 
   const implementationStatus: GapAnalysisResult['implementationStatus'] = {}
   let totalPossibleReduction = 0
   let totalActualReduction = 0
+  let acceptedPossibleReduction = 0
+  let acceptedActualReduction = 0
 
   // Calculate implementation status for each question
-  const allResponses = [
-    ...checklistData.hallucination,
-    ...checklistData.promptInjection, 
-    ...checklistData.dataLeakage
-  ]
+  const allResponses = Object.values(checklistData).reduce<ChecklistData[string]>(
+    (responses, categoryResponses) => responses.concat(categoryResponses || []),
+    []
+  )
 
   allResponses.forEach(response => {
     const question = checklistQuestions.find(q => q.id === response.questionId)
     if (!question) return
 
-    const isImplemented = response.answer === 'yes'
-    const riskReduction = isImplemented ? question.weight * 2 : 0 // Each weight point = 2 risk score points
+    const weight = getQuestionWeight(question, questionWeights)
+    const applicable = isApplicableAnswer(response)
+    const credit = getAnswerCredit(response, question)
+    const riskReduction = Math.round(weight * 2 * credit) // Each weight point = 2 risk score points
+    const acceptance = applicable && response.answer !== 'yes' ? findAcceptance(acceptances, response.questionId) : undefined
+    const accepted = !!acceptance && !isAcceptanceExpired(acceptance)
 
     implementationStatus[response.questionId] = {
-      implemented: isImplemented,
-      weight: question.weight,
-      riskReduction
+      implemented: response.answer === 'yes',
+      answer: response.answer,
+      applicable,
+      credit,
+      maturity: response.maturity,
+      targetMaturity: question.targetMaturity,
+      justification: response.justification,
+      evidence: response.evidence || [],
+      weight,
+      riskReduction,
+      acceptance: acceptance && { id: acceptance.id, expiresAt: acceptance.expiresAt, expired: !accepted },
+      accepted
     }
 
-    totalPossibleReduction += question.weight * 2
-    totalActualReduction += riskReduction
+    if (applicable) {
+      totalPossibleReduction += weight * 2
+      totalActualReduction += riskReduction
+    }
+    // Accepted gaps keep their score impact but no longer count as open gaps
+    if (accepted) {
+      acceptedPossibleReduction += weight * 2
+      acceptedActualReduction += riskReduction
+    }
   })
 
   // Calculate category-specific reductions
-  const categoryReductions = {
-    hallucination: 0,
-    promptInjection: 0,
-    dataLeakage: 0
-  }
+  const categoryReductions: Record<string, number> = {}
+  const categoryControls: Record<string, number[]> = {}
+  riskCategoryKeys.forEach(category => {
+    categoryReductions[category] = 0
+    categoryControls[category] = []
+  })
 
   Object.entries(checklistData).forEach(([category, responses]) => {
     responses.forEach(response => {
-      const question = checklistQuestions.find(q => q.id === response.questionId)
-      if (question && response.answer === 'yes') {
-        categoryReductions[category as keyof typeof categoryReductions] += question.weight * 2
+      const status = implementationStatus[response.questionId]
+      if (status && status.riskReduction > 0) {
+        categoryReductions[category] = (categoryReductions[category] || 0) + status.riskReduction
+        categoryControls[category] = (categoryControls[category] || []).concat(response.questionId)
       }
     })
   })
 
   // Adjust base risk scores based on implementations
   const adjustedRiskScores: Record<string, number> = {}
+  const scoreBreakdown = cloneBreakdown(baseBreakdown)
   
   Object.entries(baseRiskScores).forEach(([riskKey, baseScore]) => {
-    const categoryKey = riskKey as keyof typeof categoryReductions
-    const reduction = categoryReductions[categoryKey] || 0
+    const reduction = categoryReductions[riskKey] || 0
+    const breakdown = scoreBreakdown[riskKey] || createBreakdown(riskKey, baseScore, 'Base score')
     
     // Risk scores: higher = worse, so we subtract the reduction
-    const adjustedScore = Math.max(20, baseScore - reduction) // Ensure minimum 20
-    adjustedRiskScores[riskKey] = Math.min(80, adjustedScore) // Ensure maximum 80
+    if (reduction > 0) {
+      const controlIds = categoryControls[riskKey] || []
+      const controlLabels = controlIds.map(id => {
+        const status = implementationStatus[id]
+        if (status?.answer !== 'partial') return `#${id}`
+        return status.maturity ? `#${id} (${maturityLevelLabels[status.maturity].toLowerCase()})` : `#${id} (partial)`
+      })
+      addStep(breakdown, baseScore - reduction, {
+        type: 'controls',
+        label: `Implemented control${controlIds.length > 1 ? 's' : ''} ${controlLabels.join(', ')}`,
+        questionIds: controlIds
+      })
+    }
+    clampBreakdown(breakdown, 20, 80) // Keep within the 20-80 range
+    
+    adjustedRiskScores[riskKey] = breakdown.finalScore
+    scoreBreakdown[riskKey] = breakdown
   })
 
   // Calculate gap analysis
-  const gapPercentage = totalPossibleReduction > 0 
-    ? Math.round(((totalPossibleReduction - totalActualReduction) / totalPossibleReduction) * 100)
+  const openPossibleReduction = totalPossibleReduction - acceptedPossibleReduction
+  const gapPercentage = openPossibleReduction > 0 
+    ? Math.round(((openPossibleReduction - (totalActualReduction - acceptedActualReduction)) / openPossibleReduction) * 100)
     : 0
 
+  const categoryScores: GapAnalysisResult['categoryScores'] = {}
+  riskCategoryKeys.forEach(category => {
+    categoryScores[category] = adjustedRiskScores[category] || 0
+  })
+
   const gapAnalysis: GapAnalysisResult = {
-    categoryScores: {
-      hallucination: adjustedRiskScores.hallucination || 0,
-      promptInjection: adjustedRiskScores.promptInjection || 0,
-      dataLeakage: adjustedRiskScores.dataLeakage || 0
-    },
+    categoryScores,
     implementationStatus,
     totalRiskReduction: totalActualReduction,
     gapPercentage
   }
 
-  return { adjustedRiskScores, gapAnalysis }
+  return { adjustedRiskScores, gapAnalysis, scoreBreakdown }
 }
 
-export function generateGapRecommendations(gapAnalysis: GapAnalysisResult): Array<{
+export interface GapRecommendation {
   questionId: number
   question: string
   category: string
@@ -107,18 +192,21 @@ export function generateGapRecommendations(gapAnalysis: GapAnalysisResult): Arra
   weight: number
   finosMapping: string
   reason: string
-}> {
-  const recommendations: any[] = []
+  acceptanceExpiredOn?: string // Set when the gap was accepted but the acceptance has lapsed
+}
+
+export function generateGapRecommendations(gapAnalysis: GapAnalysisResult): GapRecommendation[] {
+  const recommendations: GapRecommendation[] = []
 
   Object.entries(gapAnalysis.implementationStatus).forEach(([questionId, status]) => {
-    if (!status.implemented) {
+    if (!status.implemented && status.applicable && !status.accepted) {
       const question = checklistQuestions.find(q => q.id === parseInt(questionId))
       if (!question) return
 
       let priority: 'Critical' | 'High' | 'Medium' | 'Low'
-      if (question.weight >= 9) priority = 'Critical'
-      else if (question.weight >= 7) priority = 'High' 
-      else if (question.weight >= 5) priority = 'Medium'
+      if (status.weight >= 9) priority = 'Critical'
+      else if (status.weight >= 7) priority = 'High' 
+      else if (status.weight >= 5) priority = 'Medium'
       else priority = 'Low'
 
       recommendations.push({
@@ -126,9 +214,14 @@ export function generateGapRecommendations(gapAnalysis: GapAnalysisResult): Arra
         question: question.question,
         category: question.category,
         priority,
-        weight: question.weight,
+        weight: status.weight,
         finosMapping: question.finosMapping,
-        reason: `Missing implementation with ${question.weight}/10 risk impact. ${question.purpose}`
+        reason: status.maturity
+          ? `At ${maturityLevelLabels[status.maturity]} maturity (target ${maturityLevelLabels[status.targetMaturity]}) with ${status.weight}/10 risk impact. ${question.purpose}`
+          : status.answer === 'partial'
+            ? `Partially implemented with ${status.weight}/10 risk impact. ${question.purpose}`
+            : `Missing implementation with ${status.weight}/10 risk impact. ${question.purpose}`,
+        acceptanceExpiredOn: status.acceptance?.expiresAt
       })
     }
   })
@@ -144,3 +237,75 @@ export function generateGapRecommendations(gapAnalysis: GapAnalysisResult): Arra
 
   return recommendations
 }
+
+export interface AcceptedGap {
+  questionId: number
+  question: string
+  category: string
+  weight: number
+  finosMapping: string
+  acceptanceId: string
+}
+
+// Gaps kept out of the recommendations because a risk acceptance still covers them
+export function generateAcceptedGaps(gapAnalysis: GapAnalysisResult): AcceptedGap[] {
+  return Object.entries(gapAnalysis.implementationStatus).reduce<AcceptedGap[]>((gaps, [questionId, status]) => {
+    const question = checklistQuestions.find(q => q.id === parseInt(questionId))
+    if (!status.accepted || !status.acceptance || !question) return gaps
+    return gaps.concat({
+      questionId: question.id,
+      question: question.question,
+      category: question.category,
+      weight: status.weight,
+      finosMapping: question.finosMapping,
+      acceptanceId: status.acceptance.id
+    })
+  }, []).sort((a, b) => b.weight - a.weight)
+}
+
+// Acceptances referenced by the gap analysis, copied into the report so it reads the same after a revocation
+export function getReferencedAcceptances(gapAnalysis: GapAnalysisResult, acceptances: RiskAcceptance[]): RiskAcceptance[] {
+  const ids = Object.values(gapAnalysis.implementationStatus).map(status => status.acceptance?.id)
+  return acceptances.filter(acceptance => ids.includes(acceptance.id))
+}
+
+// Overall score of a gap analysis: average of the adjusted risk scores, kept on the 20-80 scale
+export function calculateOverallGapScore(adjustedRiskScores: Record<string, number>): number {
+  const scores = Object.values(adjustedRiskScores)
+  const avgRiskScore = scores.reduce((a, b) => a + b, 0) / scores.length
+  return Math.max(20, Math.min(80, Math.round(avgRiskScore)))
+}
+
+export interface GapAnalysisSummary {
+  implementedControls: number
+  partialControls: number
+  notApplicableControls: number
+  totalControls: number // Applicable controls only
+  gapPercentage: number
+  riskReduction: number
+  evidencedControls: number // Implemented or partial controls with evidence attached
+  unevidencedControls: number
+  acceptedControls: number // Gaps covered by a risk acceptance in force, excluded from gapPercentage
+  expiredAcceptanceControls: number // Gaps whose acceptance has lapsed, back among the recommendations
+}
+
+// Counts shown in the report's implementation status
+export function summarizeGapAnalysis(gapAnalysis: GapAnalysisResult): GapAnalysisSummary {
+  const statuses = Object.values(gapAnalysis.implementationStatus)
+  const notApplicableCount = statuses.filter(s => !s.applicable).length
+  const claimed = statuses.filter(s => s.answer === 'yes' || s.answer === 'partial')
+  const unevidencedCount = claimed.filter(s => s.evidence.length === 0).length
+
+  return {
+    implementedControls: statuses.filter(s => s.implemented).length,
+    partialControls: statuses.filter(s => s.answer === 'partial').length,
+    notApplicableControls: notApplicableCount,
+    totalControls: statuses.length - notApplicableCount,
+    gapPercentage: gapAnalysis.gapPercentage,
+    riskReduction: gapAnalysis.totalRiskReduction,
+    evidencedControls: claimed.length - unevidencedCount,
+    unevidencedControls: unevidencedCount,
+    acceptedControls: statuses.filter(s => s.accepted).length,
+    expiredAcceptanceControls: statuses.filter(s => s.acceptance?.expired).length
+  }
+}
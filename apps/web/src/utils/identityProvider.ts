@@ -0,0 +1,190 @@
+// identityProvider.ts - Pluggable sign-in backends (OIDC single sign-on, local users for development) chosen by config
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { AuthUser, Role, isRole } from './permissions'
+import { DEFAULT_ORGANIZATION_ID } from './organization'
+
+export type IdentityProviderName = 'local' | 'oidc'
+
+// Email and password checked by POST /api/auth/login
+export interface LocalIdentityProvider {
+  name: 'local'
+  verifyPassword(email: string, password: string): AuthUser | undefined
+}
+
+// Authorization code flow with PKCE: GET /api/auth/login redirects out, GET /api/auth/callback comes back
+export interface OidcIdentityProvider {
+  name: 'oidc'
+  getAuthorizationUrl(params: { state: string, codeChallenge: string, redirectUri: string }): Promise<string>
+  completeLogin(params: { code: string, codeVerifier: string, redirectUri: string }): Promise<AuthUser>
+}
+
+export type IdentityProvider = LocalIdentityProvider | OidcIdentityProvider
+
+interface LocalUser {
+  id?: string
+  name: string
+  email: string
+  password: string
+  roles: Role[]
+  orgId?: string // Defaults to the default organization
+}
+
+// One user per role so every workflow can be tried locally, plus an admin of a second organization; never used in production
+const developmentUsers: LocalUser[] = [
+  { name: 'Pat Product', email: 'pm@example.com', password: 'password', roles: ['product_manager'] },
+  { name: 'Robin Reviewer', email: 'reviewer@example.com', password: 'password', roles: ['reviewer'] },
+  { name: 'Riley Risk', email: 'risk@example.com', password: 'password', roles: ['risk_officer'] },
+  { name: 'Alex Admin', email: 'admin@example.com', password: 'password', roles: ['admin'] },
+  { name: 'Casey Cards', email: 'admin@cards.example.com', password: 'password', roles: ['admin'], orgId: 'cards' }
+]
+
+function loadLocalUsers(env: Record<string, string | undefined>): LocalUser[] {
+  const file = env.LOCAL_USERS_FILE || path.join(process.cwd(), 'local-users.json')
+  if (fs.existsSync(file)) return JSON.parse(fs.readFileSync(file, 'utf8'))
+  if (env.NODE_ENV === 'production') throw new Error(`Local sign-in needs a users file in production (${file})`)
+  return developmentUsers
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = crypto.createHash('sha256').update(a).digest()
+  const right = crypto.createHash('sha256').update(b).digest()
+  return crypto.timingSafeEqual(left, right)
+}
+
+export function createLocalProvider(env: Record<string, string | undefined> = process.env): LocalIdentityProvider {
+  return {
+    name: 'local',
+    verifyPassword(email: string, password: string) {
+      const user = loadLocalUsers(env).find(u => u.email.toLowerCase() === (email || '').trim().toLowerCase())
+      if (!user || !safeEqual(user.password, password || '')) return undefined
+      return {
+        id: user.id || `local:${user.email.toLowerCase()}`,
+        name: user.name,
+        email: user.email,
+        roles: (user.roles || []).filter(isRole),
+        orgId: user.orgId || DEFAULT_ORGANIZATION_ID
+      }
+    }
+  }
+}
+
+export interface OidcConfig {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scopes: string
+  rolesClaim: string // Claim holding role names, as a list or a space-separated string
+  roleMap: Record<string, Role> // Identity provider group or role -> app role
+  defaultRoles: Role[] // Given when the claim maps to no role
+  orgClaim?: string // Claim holding the user's organization ID; everyone is in the default organization without it
+}
+
+export function getOidcConfig(env: Record<string, string | undefined> = process.env): OidcConfig {
+  const defaultRoles = (env.OIDC_DEFAULT_ROLES ?? 'product_manager').split(',').map(r => r.trim()).filter(isRole)
+  return {
+    issuer: (env.OIDC_ISSUER || '').replace(/\/$/, ''),
+    clientId: env.OIDC_CLIENT_ID || '',
+    clientSecret: env.OIDC_CLIENT_SECRET,
+    scopes: env.OIDC_SCOPES || 'openid profile email',
+    rolesClaim: env.OIDC_ROLES_CLAIM || 'roles',
+    roleMap: env.OIDC_ROLE_MAP ? JSON.parse(env.OIDC_ROLE_MAP) : {},
+    defaultRoles,
+    orgClaim: env.OIDC_ORG_CLAIM || undefined
+  }
+}
+
+export function getOidcRoles(claims: Record<string, any>, config: OidcConfig): Role[] {
+  const value = claims[config.rolesClaim]
+  const names: string[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(' ') : []
+  const roles = names
+    .map(name => config.roleMap[name] || name)
+    .filter(isRole)
+    .filter((role, index, all) => all.indexOf(role) === index)
+  return roles.length > 0 ? roles : config.defaultRoles
+}
+
+export function createOidcProvider(config: OidcConfig = getOidcConfig()): OidcIdentityProvider {
+  let discovery: Promise<any> | undefined
+  const discover = () => {
+    discovery = discovery || fetch(`${config.issuer}/.well-known/openid-configuration`).then(response => {
+      if (!response.ok) throw new Error(`OIDC discovery failed with status ${response.status}`)
+      return response.json()
+    })
+    discovery.catch(() => { discovery = undefined }) // Retry discovery on the next sign-in
+    return discovery
+  }
+
+  return {
+    name: 'oidc',
+    async getAuthorizationUrl({ state, codeChallenge, redirectUri }) {
+      const metadata = await discover()
+      const url = new URL(metadata.authorization_endpoint)
+      url.searchParams.set('response_type', 'code')
+      url.searchParams.set('client_id', config.clientId)
+      url.searchParams.set('redirect_uri', redirectUri)
+      url.searchParams.set('scope', config.scopes)
+      url.searchParams.set('state', state)
+      url.searchParams.set('code_challenge', codeChallenge)
+      url.searchParams.set('code_challenge_method', 'S256')
+      return url.toString()
+    },
+    // Claims come from the userinfo endpoint over TLS, so the ID token signature does not need checking here
+    async completeLogin({ code, codeVerifier, redirectUri }) {
+      const metadata = await discover()
+      const tokenResponse = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri,
+          client_id: config.clientId,
+          code_verifier: codeVerifier,
+          ...(config.clientSecret ? { client_secret: config.clientSecret } : {})
+        }).toString()
+      })
+      if (!tokenResponse.ok) throw new Error(`OIDC token exchange failed with status ${tokenResponse.status}`)
+      const tokens = await tokenResponse.json()
+
+      const userInfoResponse = await fetch(metadata.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` }
+      })
+      if (!userInfoResponse.ok) throw new Error(`OIDC userinfo failed with status ${userInfoResponse.status}`)
+      const claims = await userInfoResponse.json()
+
+      return {
+        id: `oidc:${claims.sub}`,
+        name: claims.name || claims.preferred_username || claims.email || claims.sub,
+        email: claims.email || '',
+        roles: getOidcRoles(claims, config),
+        orgId: (config.orgClaim && typeof claims[config.orgClaim] === 'string' && claims[config.orgClaim]) || DEFAULT_ORGANIZATION_ID
+      }
+    }
+  }
+}
+
+// AUTH_PROVIDER selects the backend: 'local' (default) or 'oidc'
+export function getIdentityProviderName(env: Record<string, string | undefined> = process.env): IdentityProviderName {
+  return env.AUTH_PROVIDER === 'oidc' ? 'oidc' : 'local'
+}
+
+export function getIdentityConfigError(env: Record<string, string | undefined> = process.env): string | null {
+  if (getIdentityProviderName(env) !== 'oidc') return null
+  if (!env.OIDC_ISSUER) return 'OIDC_ISSUER is required when AUTH_PROVIDER=oidc'
+  if (!env.OIDC_CLIENT_ID) return 'OIDC_CLIENT_ID is required when AUTH_PROVIDER=oidc'
+  return null
+}
+
+let cachedProvider: IdentityProvider | null = null
+
+export function getIdentityProvider(): IdentityProvider {
+  if (!cachedProvider) {
+    const error = getIdentityConfigError()
+    if (error) throw new Error(error)
+    cachedProvider = getIdentityProviderName() === 'oidc' ? createOidcProvider() : createLocalProvider()
+  }
+  return cachedProvider
+}
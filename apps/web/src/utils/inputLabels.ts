@@ -0,0 +1,52 @@
+// inputLabels.ts - Display names for the assessment questionnaire fields and their values
+
+export const inputFieldLabels: Record<string, string> = {
+  productName: 'Product Name',
+  productManagerName: 'Product Manager',
+  productManagerEmail: 'Product Manager Email',
+  aiModel: 'AI Model Type',
+  useCase: 'Use Case',
+  dataSensitivity: 'Data Sensitivity',
+  industry: 'Industry',
+  accuracyReq: 'Accuracy Requirements',
+  hasRiskAssessment: 'Prior Risk Assessment'
+}
+
+const inputValueLabels: Record<string, Record<string, string>> = {
+  aiModel: {
+    'selfHosted': 'Self-Hosted',
+    'apiBased': 'API Based (OpenAI, Anthropic, etc.)',
+    'thirdParty': 'Third-Party Cloud (AWS, Azure, GCP)'
+  },
+  useCase: {
+    'customerService': 'Customer Service & Support',
+    'documentAnalysis': 'Document Analysis & Processing',
+    'codeGeneration': 'Code Generation & Development',
+    'dataAnalysis': 'Data Analysis & Insights',
+    'contentGeneration': 'Content Creation & Marketing',
+    'decisionSupport': 'Decision Support Systems'
+  },
+  dataSensitivity: {
+    'public': 'Public',
+    'internal': 'Internal',
+    'confidential': 'Confidential',
+    'restricted': 'Restricted (PII, Financial, Regulated)'
+  },
+  accuracyReq: {
+    'low': 'Low',
+    'moderate': 'Moderate',
+    'high': 'High',
+    'critical': 'Critical'
+  }
+}
+
+// Accepted values of each choice field, in form order
+export const inputOptions: Record<string, string[]> = Object.keys(inputValueLabels).reduce<Record<string, string[]>>(
+  (options, field) => ({ ...options, [field]: Object.keys(inputValueLabels[field]) }),
+  {}
+)
+
+// Convert form values to display names
+export function getInputDisplayValue(field: string, value: string) {
+  return inputValueLabels[field]?.[value] || value
+}
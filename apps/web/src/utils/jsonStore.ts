@@ -0,0 +1,55 @@
+// jsonStore.ts - Embedded JSON file store: one file per collection under DATA_STORE_DIR (default ./storage)
+
+import fs from 'fs'
+import path from 'path'
+
+export interface JsonStore<T extends { id: string }> {
+  get(id: string): T | undefined
+  list(): T[]
+  save(record: T): T
+  remove(id: string): boolean
+}
+
+export function getStoreDir(): string {
+  return process.env.DATA_STORE_DIR || path.join(process.cwd(), 'storage')
+}
+
+function readCollection<T>(file: string): Record<string, T> {
+  if (!fs.existsSync(file)) return {}
+  return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
+
+// Write to a temp file and rename so a crash never leaves a half-written collection
+function writeCollection<T>(file: string, records: Record<string, T>) {
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  const tempFile = `${file}.${process.pid}.tmp`
+  fs.writeFileSync(tempFile, JSON.stringify(records, null, 2))
+  fs.renameSync(tempFile, file)
+}
+
+// Reads go to disk every time so several server processes see each other's writes
+export function createJsonStore<T extends { id: string }>(collection: string): JsonStore<T> {
+  const file = () => path.join(getStoreDir(), `${collection}.json`)
+
+  return {
+    get(id: string) {
+      return readCollection<T>(file())[id]
+    },
+    list() {
+      return Object.values(readCollection<T>(file()))
+    },
+    save(record: T) {
+      const records = readCollection<T>(file())
+      records[record.id] = record
+      writeCollection(file(), records)
+      return record
+    },
+    remove(id: string) {
+      const records = readCollection<T>(file())
+      if (!records[id]) return false
+      delete records[id]
+      writeCollection(file(), records)
+      return true
+    }
+  }
+}
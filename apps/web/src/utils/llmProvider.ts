@@ -0,0 +1,193 @@
+// llmProvider.ts - Pluggable LLM backends (OpenAI, Azure OpenAI, local OpenAI-compatible, fake) chosen by config
+
+import OpenAI from 'openai'
+
+export type LLMProviderName = 'openai' | 'azure' | 'local' | 'fake'
+
+export const llmProviderNames: LLMProviderName[] = ['openai', 'azure', 'local', 'fake']
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[]
+  maxTokens?: number // What the call needs; the provider's configured maxTokens can raise it but not lower it
+  temperature?: number // Call-site default, overridden by the provider's configured temperature
+  jsonResponse?: boolean // Ask for a JSON object when the backend supports it
+}
+
+export interface LLMCompletion {
+  content: string
+  tokensUsed: number
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  model: string
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName
+  model: string
+  temperature?: number
+  maxTokens?: number
+  apiKey?: string
+  baseURL?: string
+  azureDeployment?: string
+  azureApiVersion?: string
+  supportsJsonMode: boolean
+}
+
+function numberFromEnv(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+// Read provider settings from environment variables (see .env.example)
+export function getLLMConfig(env: Record<string, string | undefined> = process.env): LLMProviderConfig {
+  const provider = (env.LLM_PROVIDER || 'openai') as LLMProviderName
+
+  switch (provider) {
+    case 'azure':
+      return {
+        provider,
+        model: env.AZURE_OPENAI_DEPLOYMENT || '',
+        temperature: numberFromEnv(env.AZURE_OPENAI_TEMPERATURE),
+        maxTokens: numberFromEnv(env.AZURE_OPENAI_MAX_TOKENS),
+        apiKey: env.AZURE_OPENAI_API_KEY,
+        baseURL: env.AZURE_OPENAI_ENDPOINT,
+        azureDeployment: env.AZURE_OPENAI_DEPLOYMENT,
+        azureApiVersion: env.AZURE_OPENAI_API_VERSION || '2024-02-01',
+        supportsJsonMode: true
+      }
+    case 'local':
+      return {
+        provider,
+        model: env.LOCAL_LLM_MODEL || 'llama3.1',
+        temperature: numberFromEnv(env.LOCAL_LLM_TEMPERATURE),
+        maxTokens: numberFromEnv(env.LOCAL_LLM_MAX_TOKENS),
+        apiKey: env.LOCAL_LLM_API_KEY || 'not-needed', // Most local servers ignore the key
+        baseURL: env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1', // Ollama default
+        supportsJsonMode: env.LOCAL_LLM_JSON_MODE !== 'false'
+      }
+    case 'fake':
+      return { provider, model: 'fake', supportsJsonMode: true }
+    case 'openai':
+      return {
+        provider,
+        model: env.OPENAI_MODEL || 'gpt-4o-mini',
+        temperature: numberFromEnv(env.OPENAI_TEMPERATURE),
+        maxTokens: numberFromEnv(env.OPENAI_MAX_TOKENS),
+        apiKey: env.OPENAI_API_KEY,
+        supportsJsonMode: true
+      }
+    default:
+      // Kept as given so getLLMConfigError reports it; a typo must not silently send data to OpenAI
+      return { provider, model: '', supportsJsonMode: false }
+  }
+}
+
+// Returns a human-readable problem with the config, or null when it is usable
+export function getLLMConfigError(config: LLMProviderConfig = getLLMConfig()): string | null {
+  if (!llmProviderNames.includes(config.provider)) {
+    return `Unknown LLM_PROVIDER "${config.provider}"; use ${llmProviderNames.join(', ')}`
+  }
+  if (config.provider === 'openai' && !config.apiKey) {
+    return 'OpenAI API key not configured'
+  }
+  if (config.provider === 'azure' && (!config.apiKey || !config.baseURL || !config.azureDeployment)) {
+    return 'Azure OpenAI endpoint, API key and deployment must be configured'
+  }
+  if (config.provider === 'local' && !config.baseURL) {
+    return 'Local LLM base URL not configured'
+  }
+  return null
+}
+
+// A configured token limit is a floor: it can give every call more room, but never truncate one that needs more
+function atLeast(requested: number | undefined, minimum: number | undefined): number | undefined {
+  if (requested === undefined) return minimum
+  return minimum === undefined ? requested : Math.max(requested, minimum)
+}
+
+// OpenAI, Azure OpenAI and local servers all speak the chat completions API
+function createChatCompletionsProvider(config: LLMProviderConfig, client: OpenAI): LLMProvider {
+  return {
+    name: config.provider,
+    model: config.model,
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        messages: request.messages,
+        max_tokens: atLeast(request.maxTokens, config.maxTokens),
+        temperature: config.temperature ?? request.temperature,
+        ...(request.jsonResponse && config.supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      })
+
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        tokensUsed: completion.usage?.total_tokens || 0
+      }
+    }
+  }
+}
+
+// Test double: answers from a responder function and records every request
+export function createFakeProvider(
+  responder: (request: LLMCompletionRequest) => string = request => request.jsonResponse ? '{}' : 'Fake analysis.'
+): LLMProvider & { requests: LLMCompletionRequest[] } {
+  const requests: LLMCompletionRequest[] = []
+  return {
+    name: 'fake',
+    model: 'fake',
+    requests,
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+      requests.push(request)
+      return { content: responder(request), tokensUsed: 0 }
+    }
+  }
+}
+
+export function createLLMProvider(config: LLMProviderConfig = getLLMConfig()): LLMProvider {
+  switch (config.provider) {
+    case 'azure':
+      return createChatCompletionsProvider(config, new OpenAI({
+        apiKey: config.apiKey,
+        baseURL: `${config.baseURL?.replace(/\/$/, '')}/openai/deployments/${config.azureDeployment}`,
+        defaultQuery: { 'api-version': config.azureApiVersion },
+        defaultHeaders: { 'api-key': config.apiKey }
+      }))
+    case 'local':
+      return createChatCompletionsProvider(config, new OpenAI({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL
+      }))
+    case 'fake':
+      return createFakeProvider()
+    case 'openai':
+      return createChatCompletionsProvider(config, new OpenAI({
+        apiKey: config.apiKey
+      }))
+    default:
+      throw new Error(getLLMConfigError(config)!)
+  }
+}
+
+let cachedProvider: LLMProvider | null = null
+
+// Provider for the running app, created lazily from the environment
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createLLMProvider()
+  }
+  return cachedProvider
+}
+
+// Swap the provider used by getLLMProvider (e.g. a fake provider in tests); pass null to reset
+export function setLLMProvider(provider: LLMProvider | null) {
+  cachedProvider = provider
+}
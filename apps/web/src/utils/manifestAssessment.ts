@@ -0,0 +1,222 @@
+// manifestAssessment.ts - Governance as code: score an AI system profile kept in a YAML manifest, without an LLM
+// Uses the same rules as POST /api/assess (applicability, base score, gap analysis), so a manifest scores
+// exactly like the same answers entered in the web app. Run it with scripts/assessManifest.ts
+
+import { ChecklistData, checklistQuestions, findInconsistentMaturity, findInvalidEvidence, findMissingJustifications, findUnansweredQuestions } from '../components/checklistData'
+import { ref, validateSchema } from './apiSchema'
+import { loadScoringRules, determineApplicableRisks, calculateRiskScores, FiredRule } from './scoringRules'
+import { calculateRiskScoresWithGaps, calculateOverallGapScore, generateGapRecommendations, summarizeGapAnalysis, GapAnalysisSummary, GapRecommendation } from './gapAnalysis'
+import { DEFAULT_RISK_THRESHOLDS, QuestionWeights, RiskThresholds, parseOrganizationSettings } from './organization'
+import { RiskLevel, getRiskLevel } from './reassessment'
+import { getRiskShortName } from './riskManifest'
+import { parseYaml } from './yamlSubset'
+
+// Fails the gate when a score is above the limit; command-line options override the manifest
+export interface ManifestGate {
+  maxOverallScore?: number
+  maxRiskScore?: number // Applies to every assessed risk category
+}
+
+export interface AssessmentManifest {
+  product: Record<string, string> // Same fields as the web form (see the UserInputs API schema)
+  checklistData?: ChecklistData // From the manifest's checklist, keyed by question ID there
+  questionWeights: QuestionWeights // The organization's weight overrides, to match its web app scores
+  riskThresholds: RiskThresholds // Only label the risk level; the gate uses its own limits
+  gate: ManifestGate
+}
+
+export interface ManifestReport {
+  productName: string
+  assessmentType: 'standard' | 'gap_analysis'
+  scoringRulesVersion: string
+  assessedRisks: string[]
+  firedRules: FiredRule[]
+  baseRiskScores: Record<string, number> // Before checklist credit
+  riskScores: Record<string, number>
+  overallRiskScore: number
+  riskLevel: RiskLevel
+  gapAnalysis?: GapAnalysisSummary
+  gapRecommendations?: GapRecommendation[]
+  gate: ManifestGate & { passed: boolean, failures: string[] }
+}
+
+const MANIFEST_KEYS = ['product', 'checklist', 'questionWeights', 'riskThresholds', 'gate']
+
+function isObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isScoreLimit(value: any): boolean {
+  return Number.isInteger(value) && value >= 20 && value <= 80
+}
+
+// A checklist entry is either just the answer ("3: yes") or a response without its questionId
+function parseChecklist(checklist: any, fieldErrors: Record<string, string>): ChecklistData | undefined {
+  if (!isObject(checklist)) {
+    fieldErrors.checklist = 'Must map question IDs to answers'
+    return undefined
+  }
+
+  const checklistData: ChecklistData = {}
+  Object.entries(checklist).forEach(([id, entry]: [string, any]) => {
+    const question = checklistQuestions.find(q => String(q.id) === id)
+    if (!question) {
+      fieldErrors[`checklist.${id}`] = 'Unknown checklist question'
+      return
+    }
+    const response = { ...(isObject(entry) ? entry : { answer: entry }), questionId: question.id }
+    const errors = validateSchema(ref('ChecklistResponse'), response, `checklist.${id}`)
+    if (Object.keys(errors).length > 0) {
+      Object.assign(fieldErrors, errors)
+      return
+    }
+    checklistData[question.category] = [...(checklistData[question.category] || []), response]
+  })
+
+  const answerErrors = {
+    ...findUnansweredQuestions(checklistData),
+    ...findMissingJustifications(checklistData),
+    ...findInconsistentMaturity(checklistData),
+    ...findInvalidEvidence(checklistData)
+  }
+  Object.entries(answerErrors).forEach(([questionId, message]) => {
+    if (!Object.keys(fieldErrors).some(key => key.startsWith(`checklist.${questionId}`))) fieldErrors[`checklist.${questionId}`] = message
+  })
+  return checklistData
+}
+
+export function parseManifest(source: string): { manifest?: AssessmentManifest, error?: string, fieldErrors: Record<string, string> } {
+  let document: any
+  try {
+    document = parseYaml(source)
+  } catch (error) {
+    return { error: `Invalid YAML: ${error instanceof Error ? error.message : String(error)}`, fieldErrors: {} }
+  }
+  if (!isObject(document)) return { error: 'The manifest must be a YAML mapping with a product section', fieldErrors: {} }
+
+  const fieldErrors: Record<string, string> = {}
+  Object.keys(document).filter(key => !MANIFEST_KEYS.includes(key)).forEach(key => { fieldErrors[key] = 'Unknown field' })
+
+  // Plain YAML scalars such as numbers are fine as profile text
+  const product = isObject(document.product)
+    ? Object.entries(document.product).reduce<Record<string, any>>((fields, [key, value]) => ({ ...fields, [key]: value === null || typeof value === 'object' ? value : String(value) }), {})
+    : document.product
+  Object.assign(fieldErrors, validateSchema(ref('UserInputs'), product, 'product'))
+
+  const checklistData = document.checklist === undefined || document.checklist === null ? undefined : parseChecklist(document.checklist, fieldErrors)
+
+  // Thresholds and weights are checked exactly like the organization settings they stand in for
+  const settings = parseOrganizationSettings({
+    name: 'manifest',
+    reportTitle: 'manifest',
+    riskThresholds: document.riskThresholds ?? DEFAULT_RISK_THRESHOLDS,
+    questionWeights: document.questionWeights ?? {}
+  })
+  Object.assign(fieldErrors, settings.fieldErrors)
+
+  const gate = document.gate ?? {}
+  if (!isObject(gate)) {
+    fieldErrors.gate = 'Must be a mapping'
+  } else {
+    Object.keys(gate).filter(key => key !== 'maxOverallScore' && key !== 'maxRiskScore').forEach(key => { fieldErrors[`gate.${key}`] = 'Unknown field' })
+    if (gate.maxOverallScore !== undefined && !isScoreLimit(gate.maxOverallScore)) fieldErrors['gate.maxOverallScore'] = 'Must be a whole number from 20 to 80'
+    if (gate.maxRiskScore !== undefined && !isScoreLimit(gate.maxRiskScore)) fieldErrors['gate.maxRiskScore'] = 'Must be a whole number from 20 to 80'
+  }
+
+  if (Object.keys(fieldErrors).length > 0) return { error: 'Invalid manifest', fieldErrors }
+
+  return {
+    manifest: {
+      product,
+      checklistData,
+      questionWeights: settings.settings!.questionWeights,
+      riskThresholds: settings.settings!.riskThresholds,
+      gate: { maxOverallScore: gate.maxOverallScore, maxRiskScore: gate.maxRiskScore }
+    },
+    fieldErrors
+  }
+}
+
+export function assessManifest(manifest: AssessmentManifest, gateOverrides: ManifestGate = {}): ManifestReport {
+  const userInputs = manifest.product
+  const rules = loadScoringRules()
+  const applicability = determineApplicableRisks(userInputs, rules)
+  const applicableRisks = applicability.applicableRisks
+  const { riskScores, firedRules, scoreBreakdown } = calculateRiskScores(userInputs, applicableRisks, rules)
+
+  // Risk acceptances live in the app's register, so a manifest gap always counts
+  const gaps = manifest.checklistData
+    ? calculateRiskScoresWithGaps(riskScores, manifest.checklistData, scoreBreakdown, [], manifest.questionWeights)
+    : undefined
+  const finalScores = gaps ? gaps.adjustedRiskScores : riskScores
+  const overallRiskScore = calculateOverallGapScore(finalScores)
+
+  const gate = {
+    maxOverallScore: gateOverrides.maxOverallScore ?? manifest.gate.maxOverallScore,
+    maxRiskScore: gateOverrides.maxRiskScore ?? manifest.gate.maxRiskScore
+  }
+  const failures: string[] = []
+  if (gate.maxOverallScore !== undefined && overallRiskScore > gate.maxOverallScore) {
+    failures.push(`Overall risk score ${overallRiskScore} is above ${gate.maxOverallScore}`)
+  }
+  if (gate.maxRiskScore !== undefined) {
+    Object.entries(finalScores).forEach(([risk, score]) => {
+      if (score > gate.maxRiskScore!) failures.push(`${getRiskShortName(risk)} score ${score} is above ${gate.maxRiskScore}`)
+    })
+  }
+
+  return {
+    productName: userInputs.productName,
+    assessmentType: gaps ? 'gap_analysis' : 'standard',
+    scoringRulesVersion: rules.version,
+    assessedRisks: applicableRisks,
+    firedRules: [...applicability.firedRules, ...firedRules],
+    baseRiskScores: riskScores,
+    riskScores: finalScores,
+    overallRiskScore,
+    riskLevel: getRiskLevel(overallRiskScore, manifest.riskThresholds),
+    gapAnalysis: gaps && summarizeGapAnalysis(gaps.gapAnalysis),
+    gapRecommendations: gaps && generateGapRecommendations(gaps.gapAnalysis),
+    gate: { ...gate, passed: failures.length === 0, failures }
+  }
+}
+
+// Plain-text report for CI logs
+export function formatManifestReport(report: ManifestReport): string {
+  const lines: string[] = []
+  lines.push(`FinAIReadiness assessment: ${report.productName}`)
+  lines.push(`${report.assessmentType === 'gap_analysis' ? 'Gap analysis' : 'Standard assessment'} · scoring rules v${report.scoringRulesVersion}`)
+  lines.push('')
+  lines.push(`Overall risk score: ${report.overallRiskScore} (${report.riskLevel} risk; 20-80, higher is riskier)`)
+  report.assessedRisks.forEach(risk => {
+    const base = report.baseRiskScores[risk]
+    const score = report.riskScores[risk]
+    lines.push(`  ${getRiskShortName(risk).padEnd(24)} ${String(score).padStart(2)}${score !== base ? `  (${base} before controls)` : ''}`)
+  })
+
+  if (report.gapAnalysis) {
+    const summary = report.gapAnalysis
+    lines.push('')
+    lines.push(`Controls: ${summary.implementedControls} implemented, ${summary.partialControls} partial, ${summary.totalControls - summary.implementedControls - summary.partialControls} missing of ${summary.totalControls} applicable (${summary.gapPercentage}% gap)`)
+    report.gapRecommendations!.forEach(recommendation => {
+      lines.push(`  [${recommendation.priority}] #${recommendation.questionId} ${recommendation.question} (${recommendation.finosMapping})`)
+    })
+  }
+
+  lines.push('')
+  lines.push('Rules applied:')
+  report.firedRules.forEach(rule => {
+    lines.push(`  ${rule.id}: ${rule.description}${rule.delta !== undefined ? ` (${rule.delta > 0 ? '+' : ''}${rule.delta})` : ''}`)
+  })
+
+  lines.push('')
+  if (report.gate.maxOverallScore === undefined && report.gate.maxRiskScore === undefined) {
+    lines.push('Gate: no threshold configured')
+  } else if (report.gate.passed) {
+    lines.push('Gate: PASSED')
+  } else {
+    lines.push('Gate: FAILED')
+    report.gate.failures.forEach(failure => lines.push(`  ${failure}`))
+  }
+  return lines.join('\n')
+}
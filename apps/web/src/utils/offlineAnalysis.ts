@@ -0,0 +1,194 @@
+// offlineAnalysis.ts - Deterministic, template-generated assessment content built from FINOS data and the score trace
+
+import { getRiskDisplayName } from './riskManifest'
+import { ScoreBreakdown } from './scoreBreakdown'
+import { GapAnalysisResult, GapRecommendation } from './gapAnalysis'
+import { checklistQuestions } from '../components/checklistData'
+import { getInputDisplayValue, inputFieldLabels } from './inputLabels'
+
+export interface RiskMitigationFinding {
+  riskId: string
+  riskName: string
+  mitigationId: string
+  mitigationName: string
+  priority: string
+  summary: string
+}
+
+export interface ContributingFactorFinding {
+  riskId: string
+  factor: string
+  relevance: string
+  explanation: string
+}
+
+export interface RelevantExampleFinding {
+  riskId: string
+  exampleTitle: string
+  relevanceToSystem: string
+}
+
+export interface FrameworkFindings {
+  riskMitigations: RiskMitigationFinding[]
+  contributingFactors: ContributingFactorFinding[]
+  relevantExamples: RelevantExampleFinding[]
+}
+
+// Same display names as the report's profile section, e.g. "Use Case: Customer Service & Support"
+function describeInput(field: string, value: string | undefined): string {
+  return `${inputFieldLabels[field]}: ${value ? getInputDisplayValue(field, value) : 'not specified'}`
+}
+
+export function getRelevance(score: number): 'High' | 'Medium' | 'Low' {
+  return score >= 60 ? 'High' : score >= 45 ? 'Medium' : 'Low'
+}
+
+function describeLevel(score: number): string {
+  return score >= 55 ? 'higher' : score >= 35 ? 'moderate' : 'lower'
+}
+
+// FINOS risk files describe drivers under different keys; normalise them to factor/description
+export function getContributingFactors(framework: any): Array<{ factor: string; description: string }> {
+  if (Array.isArray(framework?.contributing_factors)) {
+    return framework.contributing_factors.map((f: any) => ({ factor: f.factor, description: f.description }))
+  }
+  if (Array.isArray(framework?.threat_vectors)) {
+    return framework.threat_vectors.map((t: any) => ({ factor: t.name, description: t.description }))
+  }
+  if (Array.isArray(framework?.types)) {
+    return framework.types.map((t: any) => ({ factor: t.type, description: t.description }))
+  }
+  return []
+}
+
+export function getExamples(framework: any): Array<{ title: string; description: string }> {
+  if (Array.isArray(framework?.examples)) {
+    return framework.examples.map((e: any) => ({ title: e.title, description: e.description }))
+  }
+  return []
+}
+
+// FINOS mitigations, factors and examples for every risk scoring at or above minScore
+export function buildFrameworkFindings(
+  frameworks: Record<string, any>,
+  riskScores: Record<string, number>,
+  userInputs: any,
+  minScore: number = 0
+): FrameworkFindings {
+  const findings: FrameworkFindings = { riskMitigations: [], contributingFactors: [], relevantExamples: [] }
+
+  Object.entries(riskScores).forEach(([riskKey, score]) => {
+    const framework = frameworks[riskKey]
+    if (score < minScore || !framework) return
+
+    const relevance = getRelevance(score)
+
+    ;(framework.key_mitigations || []).forEach((mitigation: any) => {
+      findings.riskMitigations.push({
+        riskId: framework.id,
+        riskName: framework.title,
+        mitigationId: mitigation.id,
+        mitigationName: mitigation.name,
+        priority: relevance,
+        summary: mitigation.description // Complete description, not truncated
+      })
+    })
+
+    getContributingFactors(framework).slice(0, 2).forEach(factor => {
+      findings.contributingFactors.push({
+        riskId: framework.id,
+        factor: factor.factor,
+        relevance,
+        explanation: factor.description
+      })
+    })
+
+    getExamples(framework).slice(0, 1).forEach(example => {
+      findings.relevantExamples.push({
+        riskId: framework.id,
+        exampleTitle: example.title,
+        relevanceToSystem: `This example applies to your ${userInputs.useCase} system: ${example.description.substring(0, 150)}...`
+      })
+    })
+  })
+
+  return findings
+}
+
+// Largest score increases for a risk, in trace order for ties
+function topDrivers(scoreBreakdown: ScoreBreakdown, riskKey: string, count: number): string[] {
+  const steps = scoreBreakdown[riskKey]?.steps || []
+  return steps
+    .map((step, index) => ({ step, index }))
+    .filter(({ step }) => step.type === 'rule' && step.delta > 0)
+    .sort((a, b) => b.step.delta - a.step.delta || a.index - b.index)
+    .slice(0, count)
+    .map(({ step }) => step.label.charAt(0).toLowerCase() + step.label.slice(1))
+}
+
+// Same inputs always produce the same text: no randomness, dates or model calls
+export function buildTemplateAnalysis(params: {
+  userInputs: any
+  riskScores: Record<string, number>
+  overallRiskScore: number
+  scoreBreakdown: ScoreBreakdown
+  gapAnalysis?: GapAnalysisResult
+  gapRecommendations?: GapRecommendation[]
+}): string {
+  const { userInputs, riskScores, overallRiskScore, scoreBreakdown, gapAnalysis, gapRecommendations } = params
+  const sentences: string[] = []
+
+  sentences.push(
+    `Risk assessment completed for ${userInputs.productName || 'your AI system'} ` +
+    `(${['useCase', 'aiModel', 'dataSensitivity'].map(field => describeInput(field, userInputs[field])).join('; ')}), ` +
+    `which presents ${describeLevel(overallRiskScore)} overall risk.`
+  )
+
+  Object.entries(riskScores)
+    .sort(([keyA, a], [keyB, b]) => b - a || keyA.localeCompare(keyB))
+    .forEach(([riskKey, score]) => {
+      const drivers = topDrivers(scoreBreakdown, riskKey, 2)
+      sentences.push(
+        `${getRiskDisplayName(riskKey)} is ${describeLevel(score)}` +
+        (drivers.length > 0 ? `, driven mainly by: ${drivers.join('; ')}.` : '.')
+      )
+    })
+
+  if (gapAnalysis) {
+    const statuses = Object.values(gapAnalysis.implementationStatus)
+    const applicable = statuses.filter(s => s.applicable)
+    const implemented = applicable.filter(s => s.implemented).length
+    sentences.push(
+      `Based on your inputs and current implementations, you have implemented ${implemented} of ${applicable.length} applicable controls` +
+      (implemented > 0 ? ', which reduces your exposure from its baseline.' : '.')
+    )
+
+    const unevidenced = applicable.filter(s => (s.answer === 'yes' || s.answer === 'partial') && s.evidence.length === 0).length
+    if (unevidenced > 0) {
+      sentences.push(`${unevidenced} implemented or partial control${unevidenced > 1 ? 's are' : ' is'} self-attested without evidence; attaching evidence will make the gap analysis stand up to audit.`)
+    }
+
+    const accepted = applicable.filter(s => s.accepted).length
+    const lapsed = applicable.filter(s => s.acceptance?.expired).length
+    if (accepted > 0) {
+      sentences.push(`${accepted} control gap${accepted > 1 ? 's are' : ' is'} covered by a formal risk acceptance and still contribute${accepted > 1 ? '' : 's'} to the residual risk.`)
+    }
+    if (lapsed > 0) {
+      sentences.push(`The risk acceptance for ${lapsed} control gap${lapsed > 1 ? 's' : ''} has expired, so ${lapsed > 1 ? 'they are' : 'it is'} open again until renewed or remediated.`)
+    }
+
+    const topGap = gapRecommendations?.[0]
+    if (topGap) {
+      const question = checklistQuestions.find(q => q.id === topGap.questionId)
+      sentences.push(`The highest-priority remaining gap is ${question?.shortName || topGap.question} (${topGap.priority} priority, mapped to ${topGap.finosMapping}).`)
+    }
+  }
+
+  sentences.push('The related FINOS mitigations for the remaining risks are provided below.')
+
+  return sentences.join(' ')
+}
+
+export function isOfflineMode(requestedOffline?: boolean): boolean {
+  return requestedOffline === true || process.env.ASSESSMENT_MODE === 'offline'
+}
@@ -0,0 +1,115 @@
+// openApi.ts - OpenAPI 3.0 document for /api/v1, served at GET /api/v1/openapi.json
+// Component schemas come from apiSchema.ts, the same ones the routes validate against
+
+import { Schema, apiSchemas, ref } from './apiSchema'
+import { SESSION_COOKIE } from './session'
+import { reviewStatusLabels } from './assessmentReview'
+
+export const API_VERSION = '1.0.0'
+
+function jsonContent(schema: Schema) {
+  return { 'application/json': { schema } }
+}
+
+function errorResponse(description: string) {
+  return { description, content: jsonContent(ref('Error')) }
+}
+
+const authErrors = {
+  401: errorResponse('Not signed in'),
+  500: errorResponse('Unexpected server error')
+}
+
+export function buildOpenApiDocument() {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'FinAIReadiness API',
+      version: API_VERSION,
+      description: 'Risk assessments of AI products against the FINOS AI Governance Framework. ' +
+        'Request bodies are validated against the schemas below; a 400 response lists each invalid field in fieldErrors.'
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ session: [] }, { bearer: [] }],
+    paths: {
+      '/assessments': {
+        get: {
+          summary: 'List assessments the caller can see, newest first',
+          operationId: 'listAssessments',
+          parameters: [
+            { name: 'product', in: 'query', schema: { type: 'string' }, description: 'Product name, case-insensitive' },
+            { name: 'status', in: 'query', schema: { type: 'string', enum: Object.keys(reviewStatusLabels) } },
+            { name: 'stale', in: 'query', schema: { type: 'boolean' } }
+          ],
+          responses: {
+            200: { description: 'Assessment summaries', content: jsonContent(ref('AssessmentList')) },
+            400: errorResponse('Invalid query parameter'),
+            ...authErrors
+          }
+        },
+        post: {
+          summary: 'Assess a product; with hasRiskAssessment the checklist answers are gap-analysed',
+          operationId: 'createAssessment',
+          requestBody: { required: true, content: jsonContent(ref('AssessmentRequest')) },
+          responses: {
+            201: { description: 'Stored assessment, submitted for review', content: jsonContent(ref('AssessmentResult')) },
+            400: errorResponse('Invalid request body'),
+            403: errorResponse('Role may not create assessments'),
+            409: errorResponse('Draft has already been submitted'),
+            ...authErrors
+          }
+        }
+      },
+      '/assessments/{id}': {
+        get: {
+          summary: 'Get one assessment with its review and reassessment schedule',
+          operationId: 'getAssessment',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+          responses: {
+            200: { description: 'The assessment', content: jsonContent(ref('AssessmentResult')) },
+            404: errorResponse('Not found, or not visible to the caller'),
+            ...authErrors
+          }
+        }
+      },
+      '/framework-data': {
+        get: {
+          summary: 'FINOS risks, their mitigations and checklist questions',
+          operationId: 'getFrameworkData',
+          responses: {
+            200: { description: 'Framework data', content: jsonContent(ref('FrameworkData')) },
+            ...authErrors
+          }
+        }
+      },
+      '/email': {
+        post: {
+          summary: "Email a PDF report to the product manager; without email:send_any only to the caller's own address",
+          operationId: 'sendReportEmail',
+          requestBody: { required: true, content: jsonContent(ref('EmailRequest')) },
+          responses: {
+            200: { description: 'Email sent', content: jsonContent(ref('EmailResult')) },
+            400: errorResponse('Invalid request body'),
+            403: errorResponse('Recipient is not the caller'),
+            ...authErrors
+          }
+        }
+      },
+      '/openapi.json': {
+        get: {
+          summary: 'This document',
+          operationId: 'getOpenApiDocument',
+          security: [],
+          responses: { 200: { description: 'OpenAPI document', content: jsonContent({ type: 'object' }) } }
+        }
+      }
+    },
+    components: {
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE, description: 'Set by signing in to the web app' },
+        bearer: { type: 'http', scheme: 'bearer', description: 'SERVICE_API_TOKEN, for service integrations' }
+      },
+      schemas: apiSchemas
+    }
+  }
+}
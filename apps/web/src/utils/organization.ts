@@ -0,0 +1,100 @@
+// organization.ts - Business units sharing one deployment, each with its own assessments, users, scoring and report branding
+// Shared by the API and the UI, so no server-only imports here
+
+import { ChecklistQuestion, checklistQuestions } from '../components/checklistData'
+
+export const DEFAULT_ORGANIZATION_ID = 'default'
+
+export const DEFAULT_REPORT_TITLE = 'FinAIReadiness - Assessment Report'
+
+// Lowest overall score (20-80 scale) labelled high and medium risk
+export interface RiskThresholds {
+  high: number
+  medium: number
+}
+
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = { high: 55, medium: 40 }
+
+// Question ID -> weight (1-10) replacing the checklist default
+export type QuestionWeights = Record<number, number>
+
+export interface Organization {
+  id: string
+  name: string
+  reportTitle: string // Header text of the PDF report
+  riskThresholds: RiskThresholds
+  questionWeights: QuestionWeights
+  updatedAt?: string // Missing until an admin first saves the settings
+}
+
+// Copied into each assessment so its report reads the same after the organization's settings change
+export type OrganizationSnapshot = Pick<Organization, 'id' | 'name' | 'reportTitle' | 'riskThresholds'>
+
+export function createDefaultOrganization(id: string): Organization {
+  return {
+    id,
+    name: id === DEFAULT_ORGANIZATION_ID ? 'Default organization' : id,
+    reportTitle: DEFAULT_REPORT_TITLE,
+    riskThresholds: DEFAULT_RISK_THRESHOLDS,
+    questionWeights: {}
+  }
+}
+
+// Records saved before organizations existed belong to the default organization
+export function getOrganizationId(record: { orgId?: string } | null | undefined): string {
+  return record?.orgId || DEFAULT_ORGANIZATION_ID
+}
+
+export function getQuestionWeight(question: ChecklistQuestion, questionWeights: QuestionWeights = {}): number {
+  return questionWeights[question.id] ?? question.weight
+}
+
+export function toOrganizationSnapshot(organization: Organization): OrganizationSnapshot {
+  return {
+    id: organization.id,
+    name: organization.name,
+    reportTitle: organization.reportTitle,
+    riskThresholds: organization.riskThresholds
+  }
+}
+
+export type OrganizationSettings = Pick<Organization, 'name' | 'reportTitle' | 'riskThresholds' | 'questionWeights'>
+
+// Validates PUT /api/organization; weights equal to the checklist default are dropped
+export function parseOrganizationSettings(body: any): { settings?: OrganizationSettings, fieldErrors: Record<string, string> } {
+  const fieldErrors: Record<string, string> = {}
+
+  if (typeof body.name !== 'string' || !body.name.trim()) fieldErrors.name = 'Organization name is required'
+  if (typeof body.reportTitle !== 'string' || !body.reportTitle.trim()) fieldErrors.reportTitle = 'Report header text is required'
+  else if (body.reportTitle.trim().length > 80) fieldErrors.reportTitle = 'Report header text must be at most 80 characters'
+
+  const high = body.riskThresholds?.high
+  const medium = body.riskThresholds?.medium
+  if (!Number.isInteger(high) || high < 20 || high > 80) fieldErrors['riskThresholds.high'] = 'High risk threshold must be a whole number from 20 to 80'
+  if (!Number.isInteger(medium) || medium < 20 || medium > 80) fieldErrors['riskThresholds.medium'] = 'Medium risk threshold must be a whole number from 20 to 80'
+  else if (Number.isInteger(high) && medium >= high) fieldErrors['riskThresholds.medium'] = 'Medium risk threshold must be below the high risk threshold'
+
+  const questionWeights: QuestionWeights = {}
+  Object.entries(body.questionWeights || {}).forEach(([questionId, weight]: [string, any]) => {
+    const question = checklistQuestions.find(q => q.id === parseInt(questionId))
+    if (!question) {
+      fieldErrors[`questionWeights.${questionId}`] = 'Unknown checklist question'
+    } else if (!Number.isInteger(weight) || weight < 1 || weight > 10) {
+      fieldErrors[`questionWeights.${questionId}`] = 'Weight must be a whole number from 1 to 10'
+    } else if (weight !== question.weight) {
+      questionWeights[question.id] = weight
+    }
+  })
+
+  if (Object.keys(fieldErrors).length > 0) return { fieldErrors }
+
+  return {
+    settings: {
+      name: body.name.trim(),
+      reportTitle: body.reportTitle.trim(),
+      riskThresholds: { high, medium },
+      questionWeights
+    },
+    fieldErrors
+  }
+}
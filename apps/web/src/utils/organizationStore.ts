@@ -0,0 +1,19 @@
+// organizationStore.ts - Persisted organization settings; organizations without saved settings use the defaults
+
+import { createJsonStore } from './jsonStore'
+import { Organization, OrganizationSettings, createDefaultOrganization } from './organization'
+
+const store = createJsonStore<Organization>('organizations')
+
+export function getOrganization(id: string): Organization {
+  return store.get(id) || createDefaultOrganization(id)
+}
+
+export function updateOrganization(id: string, settings: OrganizationSettings): Organization {
+  return store.save({
+    ...getOrganization(id),
+    ...settings,
+    id,
+    updatedAt: new Date().toISOString()
+  })
+}
@@ -0,0 +1,75 @@
+// permissions.ts - Roles and what each may do; enforced by the API (see auth.ts) and used by the UI to hide actions
+// Shared by the API and the UI, so no server-only imports here
+
+import { getOrganizationId } from './organization'
+
+export type Role = 'product_manager' | 'reviewer' | 'risk_officer' | 'admin'
+
+export const roleLabels: Record<Role, string> = {
+  product_manager: 'Product manager',
+  reviewer: 'Reviewer',
+  risk_officer: 'Risk officer',
+  admin: 'Admin'
+}
+
+export type Permission =
+  | 'assessments:create' // Run assessments and keep drafts; the submitter owns the result
+  | 'assessments:read_all' // See every product's assessments, not just owned ones
+  | 'assessments:review' // Move assessments through review, including approval
+  | 'remediation:manage' // Track and update remediation items on assessments the user can see
+  | 'risk_acceptances:manage' // Record and revoke risk acceptances
+  | 'reassessments:run' // Trigger the staleness check
+  | 'email:send_any' // Email reports to addresses other than your own
+  | 'organization:manage' // Change the organization's checklist weights, risk thresholds and report branding
+  | 'webhooks:manage' // Subscribe systems to assessment events and replay deliveries
+
+export const rolePermissions: Record<Role, Permission[]> = {
+  product_manager: ['assessments:create', 'remediation:manage'],
+  reviewer: ['assessments:read_all', 'assessments:review'],
+  risk_officer: ['assessments:read_all', 'assessments:review', 'risk_acceptances:manage', 'reassessments:run'],
+  admin: [
+    'assessments:create',
+    'assessments:read_all',
+    'assessments:review',
+    'remediation:manage',
+    'risk_acceptances:manage',
+    'reassessments:run',
+    'email:send_any',
+    'organization:manage',
+    'webhooks:manage'
+  ]
+}
+
+export interface AuthUser {
+  id: string // Stable subject from the identity provider
+  name: string
+  email: string
+  roles: Role[]
+  orgId?: string // Organization the user belongs to; see getOrganizationId
+}
+
+export function isRole(value: any): value is Role {
+  return typeof value === 'string' && Object.keys(roleLabels).includes(value)
+}
+
+export function hasPermission(user: Pick<AuthUser, 'roles'> | null | undefined, permission: Permission): boolean {
+  return !!user && user.roles.some(role => (rolePermissions[role] || []).includes(permission))
+}
+
+type OwnedRecord = { ownerId?: string, productManagerEmail?: string, orgId?: string }
+
+// Nothing is shared across organizations, whatever the role
+export function isSameOrganization(user: AuthUser, record: { orgId?: string }): boolean {
+  return getOrganizationId(user) === getOrganizationId(record)
+}
+
+// Owners see their own products: assessments they submitted or where they are the named product manager
+export function isAssessmentOwner(user: AuthUser, owner: OwnedRecord): boolean {
+  if (!isSameOrganization(user, owner)) return false
+  if (owner.ownerId && owner.ownerId === user.id) return true
+  return !!user.email && !!owner.productManagerEmail && owner.productManagerEmail.trim().toLowerCase() === user.email.toLowerCase()
+}
+
+export function canViewAssessment(user: AuthUser, owner: OwnedRecord): boolean {
+  return (hasPermission(user, 'assessments:read_all') && isSameOrganization(user, owner)) || isAssessmentOwner(user, owner)
+}
@@ -0,0 +1,83 @@
+// reassessment.ts - Validity period of stored assessments: review cadence by risk level and staleness
+// Shared by the API and the UI, so no server-only imports here
+
+import { DEFAULT_RISK_THRESHOLDS, RiskThresholds } from './organization'
+
+export type RiskLevel = 'high' | 'medium' | 'low'
+
+// Same bands as the report's risk labels (20-80 scale); organizations can move the thresholds
+export function getRiskLevel(score: number, thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskLevel {
+  if (score >= thresholds.high) return 'high'
+  if (score >= thresholds.medium) return 'medium'
+  return 'low'
+}
+
+// Days an assessment stays valid before the product must be reassessed
+export type ReviewCadence = Record<RiskLevel, number>
+
+export const DEFAULT_REVIEW_CADENCE: ReviewCadence = {
+  high: 90,
+  medium: 180,
+  low: 365
+}
+
+// REVIEW_CADENCE_HIGH_DAYS, REVIEW_CADENCE_MEDIUM_DAYS and REVIEW_CADENCE_LOW_DAYS override the defaults
+export function getReviewCadence(env: Record<string, string | undefined> = process.env): ReviewCadence {
+  const days = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value || '', 10)
+    return parsed > 0 ? parsed : fallback
+  }
+  return {
+    high: days(env.REVIEW_CADENCE_HIGH_DAYS, DEFAULT_REVIEW_CADENCE.high),
+    medium: days(env.REVIEW_CADENCE_MEDIUM_DAYS, DEFAULT_REVIEW_CADENCE.medium),
+    low: days(env.REVIEW_CADENCE_LOW_DAYS, DEFAULT_REVIEW_CADENCE.low)
+  }
+}
+
+export type StaleReason = 'review_due' | 'framework_changed'
+
+export const staleReasonLabels: Record<StaleReason, string> = {
+  review_due: 'Reassessment is due',
+  framework_changed: 'FINOS data changed since scoring'
+}
+
+export interface AssessmentStaleness {
+  reasons: StaleReason[]
+  changedFiles: string[] // Data files that changed, for framework_changed
+  since: string // When the assessment was first marked stale
+}
+
+export interface ReassessmentSchedule {
+  riskLevel: RiskLevel
+  cadenceDays: number
+  dueAt: string // YYYY-MM-DD
+  stale?: AssessmentStaleness
+  reminderSentAt?: string // Reminder for the current staleness; cleared when the reasons change
+}
+
+export function createSchedule(
+  createdAt: string,
+  overallRiskScore: number,
+  cadence: ReviewCadence = DEFAULT_REVIEW_CADENCE,
+  thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS
+): ReassessmentSchedule {
+  const riskLevel = getRiskLevel(overallRiskScore, thresholds)
+  const due = new Date(createdAt)
+  due.setUTCDate(due.getUTCDate() + cadence[riskLevel])
+  return {
+    riskLevel,
+    cadenceDays: cadence[riskLevel],
+    dueAt: due.toISOString().slice(0, 10)
+  }
+}
+
+export function isReviewDue(schedule: Pick<ReassessmentSchedule, 'dueAt'>, today: string = new Date().toISOString().slice(0, 10)): boolean {
+  return schedule.dueAt <= today
+}
+
+export function describeStaleness(staleness: AssessmentStaleness, dueAt?: string): string {
+  return staleness.reasons.map(reason => {
+    if (reason === 'review_due') return dueAt ? `Reassessment was due on ${dueAt}` : staleReasonLabels.review_due
+    return `FINOS data changed since scoring (${staleness.changedFiles.join(', ')})`
+  }).join('. ')
+}
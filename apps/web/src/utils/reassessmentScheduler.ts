@@ -0,0 +1,116 @@
+// reassessmentScheduler.ts - Background check that marks assessments stale and reminds product managers to reassess
+
+import { StoredAssessment, getSchedule, listAssessments, markReminderSent, markStale, normalizeProductName } from './assessmentStore'
+import { DataFingerprint, computeDataFingerprint, findChangedDataFiles } from './dataFingerprint'
+import { AssessmentStaleness, StaleReason, describeStaleness, isReviewDue } from './reassessment'
+import { getAppBaseUrl, getServiceToken } from './session'
+import { getOrganizationId } from './organization'
+import { emitWebhookEvent } from './webhookDispatcher'
+
+export interface StalenessCheckResult {
+  checked: number
+  stale: Array<{ id: string, productName: string, reasons: StaleReason[] }>
+  notified: string[] // Assessment IDs a reminder went out for
+  failed: Array<{ id: string, error: string }>
+}
+
+// Only the latest assessment of each product in each organization is kept current; older runs are history
+function getLatestPerProduct(orgId?: string): StoredAssessment[] {
+  const seen: string[] = []
+  return listAssessments({ orgId }).filter(stored => {
+    const product = `${getOrganizationId(stored)}/${normalizeProductName(stored.productName)}`
+    if (seen.includes(product)) return false
+    seen.push(product)
+    return true
+  })
+}
+
+export function findStaleness(stored: StoredAssessment, currentFingerprint: DataFingerprint, now: Date = new Date()): AssessmentStaleness | undefined {
+  const reasons: StaleReason[] = []
+  if (isReviewDue(getSchedule(stored), now.toISOString().slice(0, 10))) reasons.push('review_due')
+  // Assessments stored before fingerprints existed cannot be compared
+  const changedFiles = stored.dataFingerprint ? findChangedDataFiles(stored.dataFingerprint, currentFingerprint) : []
+  if (changedFiles.length > 0) reasons.push('framework_changed')
+
+  return reasons.length > 0 ? { reasons, changedFiles, since: now.toISOString() } : undefined
+}
+
+// Sent through POST /api/send-email so reminders use the same Gmail setup as reports
+async function sendReminder(stored: StoredAssessment): Promise<void> {
+  const schedule = getSchedule(stored)
+  const response = await fetch(`${getAppBaseUrl()}/api/send-email`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${getServiceToken()}` },
+    body: JSON.stringify({
+      type: 'reassessment_reminder',
+      productInfo: {
+        productName: stored.productName,
+        productManagerName: stored.productManagerName || '',
+        productManagerEmail: stored.productManagerEmail
+      },
+      reminder: {
+        assessmentId: stored.id,
+        assessedAt: stored.createdAt,
+        dueAt: schedule.dueAt,
+        reason: describeStaleness(schedule.stale!, schedule.dueAt),
+        url: `${getAppBaseUrl()}/assessments/${stored.id}`
+      }
+    })
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `Email route returned ${response.status}`)
+  }
+}
+
+// Checks one organization, or every organization when orgId is left out (the scheduler and service token only)
+export async function runStalenessCheck(now: Date = new Date(), orgId?: string): Promise<StalenessCheckResult> {
+  const currentFingerprint = computeDataFingerprint()
+  const result: StalenessCheckResult = { checked: 0, stale: [], notified: [], failed: [] }
+
+  for (const latest of getLatestPerProduct(orgId)) {
+    result.checked++
+    const staleness = findStaleness(latest, currentFingerprint, now)
+    const previous = getSchedule(latest).stale
+    const changed = JSON.stringify([previous?.reasons, previous?.changedFiles]) !== JSON.stringify([staleness?.reasons, staleness?.changedFiles])
+    const stored = changed ? markStale(latest.id, staleness)! : latest
+    const schedule = getSchedule(stored)
+    if (!schedule.stale) continue
+    if (changed) emitWebhookEvent('assessment.stale', stored, { staleness: schedule.stale })
+
+    result.stale.push({ id: stored.id, productName: stored.productName, reasons: schedule.stale.reasons })
+    if (schedule.reminderSentAt || !stored.productManagerEmail) continue
+
+    try {
+      await sendReminder(stored)
+      markReminderSent(stored.id)
+      result.notified.push(stored.id)
+    } catch (error) {
+      console.error(`Reassessment reminder for ${stored.id} failed:`, error)
+      result.failed.push({ id: stored.id, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return result
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | undefined
+
+// REASSESSMENT_CHECK_INTERVAL_MINUTES sets how often to check (default 60, 0 disables)
+export function startReassessmentScheduler(env: Record<string, string | undefined> = process.env) {
+  const minutes = env.REASSESSMENT_CHECK_INTERVAL_MINUTES !== undefined ? parseInt(env.REASSESSMENT_CHECK_INTERVAL_MINUTES, 10) : 60
+  if (schedulerTimer || !(minutes > 0)) return
+
+  const check = () => runStalenessCheck()
+    .then(result => {
+      if (result.stale.length > 0) {
+        console.log(`Reassessment check: ${result.stale.length} stale of ${result.checked}, ${result.notified.length} reminder(s) sent`)
+      }
+    })
+    .catch(error => console.error('Reassessment check failed:', error))
+
+  schedulerTimer = setInterval(check, minutes * 60 * 1000)
+  schedulerTimer.unref?.()
+  // First run waits a minute so the server is listening when reminders go through the email route
+  setTimeout(check, 60 * 1000).unref?.()
+}
@@ -0,0 +1,86 @@
+// remediation.ts - Remediation items tracked from an assessment's control gaps and recommended FINOS mitigations
+// Shared by the API and the results page, so no server-only imports here
+
+import { checklistQuestions, validateEvidenceList, Evidence } from '../components/checklistData'
+
+export type RemediationStatus = 'open' | 'in_progress' | 'done' | 'wont_fix'
+
+export const remediationStatusLabels: Record<RemediationStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  done: 'Done',
+  wont_fix: "Won't fix"
+}
+
+// What the item remediates: a missing control from gapRecommendations or a mitigation from riskMitigations
+export type RemediationSource =
+  | { type: 'control', questionId: number }
+  | { type: 'mitigation', riskId: string, mitigationId: string }
+
+export interface RemediationItem {
+  id: string
+  assessmentId: string
+  source: RemediationSource
+  title: string
+  owner?: string
+  dueDate?: string // YYYY-MM-DD
+  status: RemediationStatus
+  evidence: Evidence[]
+  createdAt: string
+  updatedAt: string
+  closedAt?: string // Set when marked done
+  appliedAt?: string // When the checklist answers were updated from this item
+}
+
+export function getSourceKey(source: RemediationSource): string {
+  return source.type === 'control' ? `control:${source.questionId}` : `mitigation:${source.mitigationId}`
+}
+
+// Checklist controls a closed item vouches for: the control itself, or every control mapped to the mitigation
+export function getLinkedQuestionIds(source: { type: 'control', questionId: number } | { type: 'mitigation', mitigationId: string }): number[] {
+  if (source.type === 'control') return [source.questionId]
+  return checklistQuestions.filter(q => q.finosMapping === source.mitigationId).map(q => q.id)
+}
+
+// Items the assessment can be tracked against; returns undefined for anything not in the report
+export function describeSource(source: RemediationSource, assessment: any): string | undefined {
+  if (source?.type === 'control') {
+    const gap = (assessment.gapRecommendations || []).find((g: any) => g.questionId === source.questionId)
+    return gap ? `#${gap.questionId} ${gap.question}` : undefined
+  }
+  if (source?.type === 'mitigation') {
+    const mitigation = (assessment.riskMitigations || []).find((m: any) => m.mitigationId === source.mitigationId && m.riskId === source.riskId)
+    return mitigation ? `${mitigation.mitigationId} ${mitigation.mitigationName}` : undefined
+  }
+  return undefined
+}
+
+export function isOverdue(item: RemediationItem, today: string = new Date().toISOString().slice(0, 10)): boolean {
+  return !!item.dueDate && item.dueDate < today && (item.status === 'open' || item.status === 'in_progress')
+}
+
+// Editable fields from a request body; absent fields stay unchanged and '' clears owner or due date
+export function parseRemediationUpdate(body: any): { update: Partial<Pick<RemediationItem, 'owner' | 'dueDate' | 'status' | 'evidence'>>, fieldErrors: Record<string, string> } {
+  const update: Partial<Pick<RemediationItem, 'owner' | 'dueDate' | 'status' | 'evidence'>> = {}
+  const fieldErrors: Record<string, string> = {}
+
+  if (body.owner !== undefined) {
+    if (typeof body.owner !== 'string') fieldErrors.owner = 'Owner must be a string'
+    else update.owner = body.owner.trim()
+  }
+  if (body.dueDate !== undefined) {
+    if (body.dueDate !== '' && !/^\d{4}-\d{2}-\d{2}$/.test(body.dueDate)) fieldErrors.dueDate = 'Due date must be YYYY-MM-DD'
+    else update.dueDate = body.dueDate
+  }
+  if (body.status !== undefined) {
+    if (!Object.keys(remediationStatusLabels).includes(body.status)) fieldErrors.status = `Status must be one of ${Object.keys(remediationStatusLabels).join(', ')}`
+    else update.status = body.status
+  }
+  if (body.evidence !== undefined) {
+    const error = validateEvidenceList(body.evidence)
+    if (error) fieldErrors.evidence = error
+    else update.evidence = body.evidence
+  }
+
+  return { update, fieldErrors }
+}
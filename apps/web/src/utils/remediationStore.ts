@@ -0,0 +1,64 @@
+// remediationStore.ts - Persisted remediation items, one list per assessment
+
+import crypto from 'crypto'
+import { createJsonStore } from './jsonStore'
+import { RemediationItem, RemediationSource, RemediationStatus, getSourceKey } from './remediation'
+
+export type RemediationUpdate = Partial<Pick<RemediationItem, 'owner' | 'dueDate' | 'status' | 'evidence'>>
+
+const store = createJsonStore<RemediationItem>('remediation')
+
+// Oldest first, the order they were raised in
+export function listRemediationItems(assessmentId: string): RemediationItem[] {
+  return store.list()
+    .filter(item => item.assessmentId === assessmentId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export function getRemediationItem(id: string): RemediationItem | undefined {
+  return store.get(id)
+}
+
+export function findRemediationItem(assessmentId: string, source: RemediationSource): RemediationItem | undefined {
+  return listRemediationItems(assessmentId).find(item => getSourceKey(item.source) === getSourceKey(source))
+}
+
+export function createRemediationItem(assessmentId: string, source: RemediationSource, title: string, update: RemediationUpdate = {}): RemediationItem {
+  const now = new Date().toISOString()
+  return store.save({
+    id: crypto.randomUUID(),
+    assessmentId,
+    source,
+    title,
+    owner: update.owner,
+    dueDate: update.dueDate,
+    status: update.status || 'open',
+    evidence: update.evidence || [],
+    createdAt: now,
+    updatedAt: now
+  })
+}
+
+// Returns undefined for unknown items; closedAt follows the status in and out of 'done'
+export function updateRemediationItem(id: string, update: RemediationUpdate): RemediationItem | undefined {
+  const item = store.get(id)
+  if (!item) return undefined
+
+  const now = new Date().toISOString()
+  const status: RemediationStatus = update.status || item.status
+  return store.save({
+    ...item,
+    owner: update.owner !== undefined ? update.owner || undefined : item.owner,
+    dueDate: update.dueDate !== undefined ? update.dueDate || undefined : item.dueDate,
+    evidence: update.evidence || item.evidence,
+    status,
+    closedAt: status === 'done' ? (item.closedAt || now) : undefined,
+    updatedAt: now
+  })
+}
+
+export function markRemediationApplied(id: string): RemediationItem | undefined {
+  const item = store.get(id)
+  if (!item) return undefined
+  return store.save({ ...item, appliedAt: new Date().toISOString() })
+}
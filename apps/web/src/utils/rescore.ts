@@ -0,0 +1,70 @@
+// rescore.ts - Recompute a stored gap analysis after its checklist answers change (e.g. a closed remediation item)
+// Scores, gaps and FINOS findings are deterministic; the written analysis is kept from the original submission
+
+import { loadScoringRules, determineApplicableRisks, calculateRiskScores } from './scoringRules'
+import { calculateRiskScoresWithGaps, generateGapRecommendations, generateAcceptedGaps, getReferencedAcceptances, calculateOverallGapScore, summarizeGapAnalysis } from './gapAnalysis'
+import { buildFrameworkFindings } from './offlineAnalysis'
+import { loadFrameworksForRisks } from './riskCatalog'
+import { checklistQuestions, ChecklistData, Evidence } from '../components/checklistData'
+import { RiskAcceptance } from './riskAcceptance'
+import { Organization, toOrganizationSnapshot } from './organization'
+
+export interface ChecklistUpdate {
+  questionId: number
+  evidence?: Evidence[] // Appended to the answer's existing evidence
+}
+
+// Record each listed control as fully implemented at its target maturity
+export function markControlsImplemented(checklistData: ChecklistData, updates: ChecklistUpdate[]): ChecklistData {
+  const updated: ChecklistData = {}
+  Object.entries(checklistData).forEach(([category, responses]) => {
+    updated[category] = (responses || []).map(response => {
+      const update = updates.find(u => u.questionId === response.questionId)
+      const question = checklistQuestions.find(q => q.id === response.questionId)
+      if (!update || !question) return response
+      return {
+        ...response,
+        answer: 'yes',
+        maturity: question.targetMaturity,
+        justification: response.answer === 'na' ? undefined : response.justification,
+        evidence: [...(response.evidence || []), ...(update.evidence || [])]
+      }
+    })
+  })
+  return updated
+}
+
+// acceptances is the product's current register and organization its current settings, so changes since the
+// original submission (new, revoked or expired acceptances, reweighted questions, moved thresholds) are picked up
+export function rescoreGapAnalysis(assessment: any, checklistData: ChecklistData, acceptances: RiskAcceptance[], organization: Organization): any {
+  const userInputs = assessment.userInputs
+  const rules = loadScoringRules()
+  const applicability = determineApplicableRisks(userInputs, rules)
+  const applicableRisks = applicability.applicableRisks
+  const { riskScores, firedRules, scoreBreakdown } = calculateRiskScores(userInputs, applicableRisks, rules)
+
+  const gaps = calculateRiskScoresWithGaps(riskScores, checklistData, scoreBreakdown, acceptances, organization.questionWeights)
+  const findings = buildFrameworkFindings(loadFrameworksForRisks(applicableRisks), gaps.adjustedRiskScores, userInputs, 40)
+
+  return {
+    ...assessment,
+    overallRiskScore: calculateOverallGapScore(gaps.adjustedRiskScores),
+    riskScores: gaps.adjustedRiskScores,
+    riskMitigations: findings.riskMitigations,
+    contributingFactors: findings.contributingFactors,
+    relevantExamples: findings.relevantExamples,
+    assessedRisks: applicableRisks,
+    gapAnalysis: summarizeGapAnalysis(gaps.gapAnalysis),
+    gapRecommendations: generateGapRecommendations(gaps.gapAnalysis),
+    acceptedGaps: generateAcceptedGaps(gaps.gapAnalysis),
+    riskAcceptances: getReferencedAcceptances(gaps.gapAnalysis, acceptances),
+    checklistData,
+    scoreBreakdown: gaps.scoreBreakdown,
+    scoringRules: {
+      version: rules.version,
+      firedRules: [...applicability.firedRules, ...firedRules]
+    },
+    organization: toOrganizationSnapshot(organization),
+    rescoredAt: new Date().toISOString()
+  }
+}
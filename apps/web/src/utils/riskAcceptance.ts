@@ -0,0 +1,93 @@
+// riskAcceptance.ts - Formal acceptance of a control gap or FINOS mitigation that a product chooses not to implement
+// Shared by the API and the results page, so no server-only imports here
+
+import { checklistQuestions } from '../components/checklistData'
+import { getLinkedQuestionIds } from './remediation'
+
+// A single checklist control, or every control mapped to the mitigation
+export type AcceptanceScope =
+  | { type: 'control', questionId: number }
+  | { type: 'mitigation', mitigationId: string }
+
+export interface RiskApprover {
+  name: string
+  email?: string
+}
+
+export interface RiskAcceptance {
+  id: string
+  productName: string // Applies to every later assessment of the product until it expires
+  orgId?: string // Missing on acceptances recorded before organizations existed; see getOrganizationId
+  scope: AcceptanceScope
+  rationale: string
+  approver: RiskApprover
+  compensatingControls: string[]
+  expiresAt: string // YYYY-MM-DD, last day the acceptance holds
+  createdAt: string
+  revokedAt?: string
+}
+
+export function describeScope(scope: AcceptanceScope): string {
+  if (scope.type === 'mitigation') return `Mitigation ${scope.mitigationId}`
+  const question = checklistQuestions.find(q => q.id === scope.questionId)
+  return question ? `#${question.id} ${question.question}` : `#${scope.questionId}`
+}
+
+export function isAcceptanceExpired(acceptance: Pick<RiskAcceptance, 'expiresAt'>, today: string = new Date().toISOString().slice(0, 10)): boolean {
+  return acceptance.expiresAt < today
+}
+
+// Acceptance covering a control, preferring one still in force; an expired one is returned so it can be flagged
+export function findAcceptance(acceptances: RiskAcceptance[], questionId: number): RiskAcceptance | undefined {
+  const covering = acceptances.filter(a => !a.revokedAt && getLinkedQuestionIds(a.scope).includes(questionId))
+  return covering.find(a => !isAcceptanceExpired(a)) || covering[0]
+}
+
+export type RiskAcceptanceInput = Omit<RiskAcceptance, 'id' | 'createdAt' | 'revokedAt'>
+
+export function parseRiskAcceptance(body: any): { acceptance?: RiskAcceptanceInput, fieldErrors: Record<string, string> } {
+  const fieldErrors: Record<string, string> = {}
+
+  let scope: AcceptanceScope | undefined
+  if (body.scope?.type === 'control') {
+    if (!checklistQuestions.some(q => q.id === body.scope.questionId)) fieldErrors.scope = 'Unknown checklist question'
+    else scope = { type: 'control', questionId: body.scope.questionId }
+  } else if (body.scope?.type === 'mitigation') {
+    if (!checklistQuestions.some(q => q.finosMapping === body.scope.mitigationId)) fieldErrors.scope = 'Mitigation is not mapped to any checklist question'
+    else scope = { type: 'mitigation', mitigationId: body.scope.mitigationId }
+  } else {
+    fieldErrors.scope = "Scope must be { type: 'control', questionId } or { type: 'mitigation', mitigationId }"
+  }
+
+  if (typeof body.productName !== 'string' || !body.productName.trim()) fieldErrors.productName = 'Product name is required'
+  if (typeof body.rationale !== 'string' || !body.rationale.trim()) fieldErrors.rationale = 'Rationale is required'
+  if (typeof body.approver?.name !== 'string' || !body.approver.name.trim()) fieldErrors['approver.name'] = 'Approver name is required'
+
+  const compensatingControls = body.compensatingControls === undefined ? [] : body.compensatingControls
+  if (!Array.isArray(compensatingControls) || compensatingControls.some((c: any) => typeof c !== 'string')) {
+    fieldErrors.compensatingControls = 'Compensating controls must be a list of strings'
+  }
+
+  if (typeof body.expiresAt !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.expiresAt)) {
+    fieldErrors.expiresAt = 'Expiry date must be YYYY-MM-DD'
+  } else if (isAcceptanceExpired({ expiresAt: body.expiresAt })) {
+    fieldErrors.expiresAt = 'Expiry date must not be in the past'
+  }
+
+  if (Object.keys(fieldErrors).length > 0) return { fieldErrors }
+
+  return {
+    acceptance: {
+      productName: body.productName.trim(),
+      scope: scope!,
+      rationale: body.rationale.trim(),
+      approver: {
+        name: body.approver.name.trim(),
+        email: typeof body.approver.email === 'string' ? body.approver.email.trim() || undefined : undefined
+      },
+      compensatingControls: compensatingControls.map((c: string) => c.trim()).filter(Boolean),
+      expiresAt: body.expiresAt
+    },
+    fieldErrors
+  }
+}
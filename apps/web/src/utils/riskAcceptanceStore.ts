@@ -0,0 +1,54 @@
+// riskAcceptanceStore.ts - Persisted risk acceptance register, filterable by organization and product
+
+import crypto from 'crypto'
+import { createJsonStore } from './jsonStore'
+import { StoredAssessment, getAssessment, canRescoreInPlace, normalizeProductName, updateAssessment } from './assessmentStore'
+import { RiskAcceptance, RiskAcceptanceInput } from './riskAcceptance'
+import { rescoreGapAnalysis } from './rescore'
+import { getOrganizationId } from './organization'
+import { getOrganization } from './organizationStore'
+
+const store = createJsonStore<RiskAcceptance>('risk-acceptances')
+
+// Newest first; revoked acceptances stay in the register but are left out unless asked for
+export function listRiskAcceptances(filter: { orgId?: string, product?: string, includeRevoked?: boolean } = {}): RiskAcceptance[] {
+  const product = filter.product !== undefined ? normalizeProductName(filter.product) : undefined
+  return store.list()
+    .filter(acceptance => !filter.orgId || getOrganizationId(acceptance) === filter.orgId)
+    .filter(acceptance => product === undefined || normalizeProductName(acceptance.productName) === product)
+    .filter(acceptance => filter.includeRevoked || !acceptance.revokedAt)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export function getRiskAcceptance(id: string): RiskAcceptance | undefined {
+  return store.get(id)
+}
+
+export function createRiskAcceptance(input: RiskAcceptanceInput, orgId: string): RiskAcceptance {
+  return store.save({
+    ...input,
+    orgId,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString()
+  })
+}
+
+export function revokeRiskAcceptance(id: string): RiskAcceptance | undefined {
+  const acceptance = store.get(id)
+  if (!acceptance) return undefined
+  return store.save({ ...acceptance, revokedAt: acceptance.revokedAt || new Date().toISOString() })
+}
+
+// The register entries that apply to a stored assessment: same organization and product
+export function getAssessmentAcceptances(stored: StoredAssessment): RiskAcceptance[] {
+  return listRiskAcceptances({ orgId: getOrganizationId(stored), product: stored.productName })
+}
+
+// Re-score a stored gap analysis against the product's current register; undefined unless it has checklist answers
+// and is still open for re-scoring (otherwise it keeps its scores until the product is assessed again)
+export function reapplyRiskAcceptances(assessmentId: string): StoredAssessment | undefined {
+  const stored = getAssessment(assessmentId)
+  if (!stored?.assessment.checklistData || !canRescoreInPlace(stored)) return undefined
+  const organization = getOrganization(getOrganizationId(stored))
+  return updateAssessment(stored.id, rescoreGapAnalysis(stored.assessment, stored.assessment.checklistData, getAssessmentAcceptances(stored), organization))
+}
@@ -0,0 +1,103 @@
+// riskCatalog.ts - Server-side registry of FINOS risks discovered through data/manifest.json
+
+import fs from 'fs'
+import path from 'path'
+import { riskManifest, RiskManifestEntry } from './riskManifest'
+import { hashData } from './dataFingerprint'
+import { ChecklistQuestion, checklistQuestions } from '../components/checklistData'
+
+export interface RiskMitigation {
+  id: string
+  name: string
+  description: string
+  link?: string
+}
+
+export interface RiskCatalogEntry {
+  key: string
+  id: string
+  title: string
+  url: string
+  mitigations: RiskMitigation[]
+  checklist: ChecklistQuestion[]
+  manifest: RiskManifestEntry
+  framework: any // Full FINOS risk JSON as loaded from disk
+}
+
+// Entries by risk key, with the hash of the file contents they were built from
+const catalogCache: Record<string, { sha256: string, entry: RiskCatalogEntry }> = {}
+
+function getDataDir(): string {
+  return path.join(process.cwd(), 'data')
+}
+
+// Load a single risk by key, parsing its FINOS JSON file again only when its contents change
+export function getRiskCatalogEntry(riskKey: string): RiskCatalogEntry | undefined {
+  const manifestEntry = riskManifest.risks.find(risk => risk.key === riskKey)
+  if (!manifestEntry) return undefined
+
+  const source = fs.readFileSync(path.join(getDataDir(), manifestEntry.file))
+  const sha256 = hashData(source)
+  if (catalogCache[riskKey]?.sha256 === sha256) return catalogCache[riskKey].entry
+
+  const framework = JSON.parse(source.toString('utf8'))
+
+  const entry: RiskCatalogEntry = {
+    key: manifestEntry.key,
+    id: framework.id,
+    title: framework.title,
+    url: framework.url,
+    mitigations: framework.key_mitigations || [],
+    checklist: checklistQuestions.filter(q => q.category === manifestEntry.key),
+    manifest: manifestEntry,
+    framework
+  }
+
+  catalogCache[riskKey] = { sha256, entry }
+  return entry
+}
+
+// Load every risk listed in the manifest, skipping files that fail to load
+export function getRiskCatalog(): RiskCatalogEntry[] {
+  const entries: RiskCatalogEntry[] = []
+
+  riskManifest.risks.forEach(risk => {
+    try {
+      const entry = getRiskCatalogEntry(risk.key)
+      if (entry) entries.push(entry)
+    } catch (error) {
+      console.log(`Could not load ${risk.key} data:`, error)
+    }
+  })
+
+  return entries
+}
+
+// Map of risk key to raw framework JSON for the requested risks
+export function loadFrameworksForRisks(riskKeys: string[]): Record<string, any> {
+  const frameworks: Record<string, any> = {}
+
+  riskKeys.forEach(riskKey => {
+    const entry = getRiskCatalogEntry(riskKey)
+    if (entry) {
+      frameworks[riskKey] = entry.framework
+    }
+  })
+
+  return frameworks
+}
+
+// Mitigation ID -> FINOS URL across the whole catalog
+export function getMitigationUrls(catalog: RiskCatalogEntry[] = getRiskCatalog()): Record<string, string> {
+  const mitigationUrls: Record<string, string> = {}
+
+  catalog.forEach(risk => {
+    risk.mitigations.forEach(mitigation => {
+      if (mitigation.id && mitigation.link) {
+        mitigationUrls[mitigation.id] = mitigation.link
+      }
+    })
+  })
+
+  return mitigationUrls
+}
@@ -0,0 +1,54 @@
+// riskManifest.ts - Client-safe view of data/manifest.json, the registry of FINOS risk files
+
+import manifest from '../../data/manifest.json'
+
+export interface ManifestChecklistQuestion {
+  id: number
+  question: string
+  shortName: string
+  purpose: string
+  weight: number
+  finosMapping: string
+  targetMaturity: string // Maturity level the control should reach (see checklistData maturityLevels)
+  maturityDescriptors: Record<string, string> // What each maturity level looks like for this control
+}
+
+export interface RiskManifestEntry {
+  key: string // Internal risk key used in scores and checklist data (e.g. 'hallucination')
+  file: string // FINOS risk JSON file in data/
+  shortName: string
+  displayName: string
+  description: string
+  checklist: {
+    title: string
+    description: string
+    icon: string
+    color: string
+    questions: ManifestChecklistQuestion[]
+  }
+}
+
+export interface RiskManifest {
+  version: number
+  risks: RiskManifestEntry[]
+}
+
+export const riskManifest: RiskManifest = manifest
+
+export const riskCategoryKeys: string[] = riskManifest.risks.map(risk => risk.key)
+
+export function getManifestEntry(riskKey: string): RiskManifestEntry | undefined {
+  return riskManifest.risks.find(risk => risk.key === riskKey)
+}
+
+export function getRiskShortName(riskKey: string): string {
+  return getManifestEntry(riskKey)?.shortName || riskKey
+}
+
+export function getRiskDisplayName(riskKey: string): string {
+  return getManifestEntry(riskKey)?.displayName || riskKey
+}
+
+export function getRiskDescription(riskKey: string): string {
+  return getManifestEntry(riskKey)?.description || 'Risk assessment'
+}
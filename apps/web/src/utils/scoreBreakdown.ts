@@ -0,0 +1,62 @@
+// scoreBreakdown.ts - Per-risk audit trail of how each score was reached (client-safe)
+
+export interface ScoreStep {
+  type: 'base' | 'rule' | 'clamp' | 'controls'
+  label: string
+  delta: number // Change applied by this step (0 for the base step)
+  total: number // Running score after this step
+  ruleId?: string
+  questionIds?: number[]
+}
+
+export interface RiskScoreBreakdown {
+  risk: string
+  steps: ScoreStep[]
+  finalScore: number
+}
+
+// Keyed by risk category
+export type ScoreBreakdown = Record<string, RiskScoreBreakdown>
+
+export function createBreakdown(risk: string, baseScore: number, label: string): RiskScoreBreakdown {
+  return {
+    risk,
+    steps: [{ type: 'base', label, delta: 0, total: baseScore }],
+    finalScore: baseScore
+  }
+}
+
+// Record a step that moves the score to newTotal
+export function addStep(
+  breakdown: RiskScoreBreakdown,
+  newTotal: number,
+  step: Omit<ScoreStep, 'delta' | 'total'>
+): RiskScoreBreakdown {
+  breakdown.steps.push({ ...step, delta: newTotal - breakdown.finalScore, total: newTotal })
+  breakdown.finalScore = newTotal
+  return breakdown
+}
+
+// Add a clamp step only when the range actually changes the score
+export function clampBreakdown(breakdown: RiskScoreBreakdown, min: number, max: number): RiskScoreBreakdown {
+  const clamped = Math.max(min, Math.min(max, breakdown.finalScore))
+  if (clamped !== breakdown.finalScore) {
+    addStep(breakdown, clamped, {
+      type: 'clamp',
+      label: clamped === max ? `Clamped at ${max}` : `Raised to minimum ${min}`
+    })
+  }
+  return breakdown
+}
+
+export function cloneBreakdown(breakdown: ScoreBreakdown): ScoreBreakdown {
+  return JSON.parse(JSON.stringify(breakdown))
+}
+
+// The PDF's built-in fonts cannot encode the minus sign, so it asks for an ASCII hyphen
+export function formatStepDelta(step: ScoreStep, ascii: boolean = false): string {
+  if (step.type === 'base') return `${step.total}`
+  if (step.delta > 0) return `+${step.delta}`
+  if (step.delta < 0) return `${ascii ? '-' : '−'}${Math.abs(step.delta)}`
+  return '0'
+}
@@ -0,0 +1,250 @@
+// scoringRules.ts - Evaluates the versioned applicability and scoring rules in data/scoringRules.json
+
+import fs from 'fs'
+import path from 'path'
+import { riskCategoryKeys } from './riskManifest'
+import { hashData } from './dataFingerprint'
+import { RiskScoreBreakdown, ScoreBreakdown, createBreakdown, addStep, clampBreakdown } from './scoreBreakdown'
+
+// userInputs fields that rules are allowed to reference
+export const RULE_INPUT_FIELDS = ['aiModel', 'useCase', 'dataSensitivity', 'industry', 'accuracyReq'] as const
+
+export type RuleCondition =
+  | { field: string; in: string[] }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+
+export interface ApplicabilityRule {
+  id: string
+  risk: string
+  description: string
+  when: RuleCondition
+}
+
+export interface ScoreRule {
+  id: string
+  description: string
+  when: RuleCondition
+  delta: number
+}
+
+export interface RiskAdjustmentRule extends ScoreRule {
+  risk: string
+  cap?: number // Upper bound applied together with the delta
+}
+
+export interface ScoringRules {
+  version: string
+  baseScore: number
+  scoreRange: { min: number; max: number }
+  defaultRisks: string[]
+  applicability: ApplicabilityRule[]
+  baseScoreRules: ScoreRule[]
+  riskAdjustments: RiskAdjustmentRule[]
+}
+
+export interface FiredRule {
+  id: string
+  description: string
+  risk?: string
+  delta?: number
+  cap?: number
+}
+
+// Parsed rules by path, with the hash of the contents they were parsed from
+const rulesCache: Record<string, { sha256: string, rules: ScoringRules }> = {}
+
+function validateCondition(condition: any, location: string, errors: string[]) {
+  if (!condition || typeof condition !== 'object') {
+    errors.push(`${location}: condition must be an object`)
+    return
+  }
+
+  if ('field' in condition) {
+    if (!RULE_INPUT_FIELDS.includes(condition.field)) {
+      errors.push(`${location}: unknown field "${condition.field}"`)
+    }
+    if (!Array.isArray(condition.in) || condition.in.length === 0 || condition.in.some((v: any) => typeof v !== 'string')) {
+      errors.push(`${location}: "in" must be a non-empty list of strings`)
+    }
+  } else if ('all' in condition || 'any' in condition) {
+    const children = condition.all || condition.any
+    if (!Array.isArray(children) || children.length === 0) {
+      errors.push(`${location}: "all"/"any" must be a non-empty list of conditions`)
+      return
+    }
+    children.forEach((child: any, i: number) => validateCondition(child, `${location}[${i}]`, errors))
+  } else if ('not' in condition) {
+    validateCondition(condition.not, `${location}.not`, errors)
+  } else {
+    errors.push(`${location}: condition needs one of "field", "all", "any" or "not"`)
+  }
+}
+
+// Returns a list of problems; an empty list means the rules are usable
+export function validateScoringRules(rules: any): string[] {
+  const errors: string[] = []
+
+  if (!rules || typeof rules !== 'object') {
+    return ['Rules file must contain a JSON object']
+  }
+  if (typeof rules.version !== 'string' || !rules.version) {
+    errors.push('version must be a non-empty string')
+  }
+  if (typeof rules.baseScore !== 'number') {
+    errors.push('baseScore must be a number')
+  }
+  if (!rules.scoreRange || typeof rules.scoreRange.min !== 'number' || typeof rules.scoreRange.max !== 'number' ||
+      rules.scoreRange.min >= rules.scoreRange.max) {
+    errors.push('scoreRange must have numeric min < max')
+  }
+  if (!Array.isArray(rules.defaultRisks)) {
+    errors.push('defaultRisks must be a list')
+  } else {
+    rules.defaultRisks.forEach((risk: any) => {
+      if (!riskCategoryKeys.includes(risk)) errors.push(`defaultRisks: unknown risk "${risk}"`)
+    })
+  }
+
+  const seenIds = new Set<string>()
+  const checkRules = (listName: string, needsRisk: boolean, needsDelta: boolean) => {
+    const list = rules[listName]
+    if (!Array.isArray(list)) {
+      errors.push(`${listName} must be a list`)
+      return
+    }
+    list.forEach((rule: any, i: number) => {
+      const location = `${listName}[${i}]${rule?.id ? ` (${rule.id})` : ''}`
+      if (typeof rule?.id !== 'string' || !rule.id) {
+        errors.push(`${location}: id is required`)
+      } else if (seenIds.has(rule.id)) {
+        errors.push(`${location}: duplicate rule id`)
+      } else {
+        seenIds.add(rule.id)
+      }
+      if (needsRisk && !riskCategoryKeys.includes(rule?.risk)) {
+        errors.push(`${location}: unknown risk "${rule?.risk}"`)
+      }
+      if (needsDelta && typeof rule?.delta !== 'number') {
+        errors.push(`${location}: delta must be a number`)
+      }
+      if (rule?.cap !== undefined && typeof rule.cap !== 'number') {
+        errors.push(`${location}: cap must be a number`)
+      }
+      validateCondition(rule?.when, `${location}.when`, errors)
+    })
+  }
+
+  checkRules('applicability', true, false)
+  checkRules('baseScoreRules', false, true)
+  checkRules('riskAdjustments', true, true)
+
+  return errors
+}
+
+// Load and validate the rules file, parsing it again only when its contents change so scores match the data
+// fingerprint stored with them; invalid rules fail loudly at load time
+export function loadScoringRules(rulesPath: string = path.join(process.cwd(), 'data', 'scoringRules.json')): ScoringRules {
+  const source = fs.readFileSync(rulesPath)
+  const sha256 = hashData(source)
+  if (rulesCache[rulesPath]?.sha256 === sha256) return rulesCache[rulesPath].rules
+
+  const rules = JSON.parse(source.toString('utf8'))
+  const errors = validateScoringRules(rules)
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring rules in ${rulesPath}:\n- ${errors.join('\n- ')}`)
+  }
+
+  rulesCache[rulesPath] = { sha256, rules }
+  return rules
+}
+
+export function matchesCondition(condition: RuleCondition, userInputs: any): boolean {
+  if ('field' in condition) {
+    return condition.in.includes(userInputs?.[condition.field])
+  }
+  if ('all' in condition) {
+    return condition.all.every(child => matchesCondition(child, userInputs))
+  }
+  if ('any' in condition) {
+    return condition.any.some(child => matchesCondition(child, userInputs))
+  }
+  return !matchesCondition(condition.not, userInputs)
+}
+
+export function clampScore(score: number, rules: ScoringRules): number {
+  return Math.max(rules.scoreRange.min, Math.min(rules.scoreRange.max, score))
+}
+
+// Determine which risks are applicable based on user inputs
+export function determineApplicableRisks(userInputs: any, rules: ScoringRules = loadScoringRules()) {
+  const firedRules: FiredRule[] = []
+  const applicableRisks: string[] = []
+
+  rules.applicability.forEach(rule => {
+    if (matchesCondition(rule.when, userInputs)) {
+      firedRules.push({ id: rule.id, description: rule.description, risk: rule.risk })
+      if (!applicableRisks.includes(rule.risk)) applicableRisks.push(rule.risk)
+    }
+  })
+
+  // Ensure at least one risk is always assessed
+  if (applicableRisks.length === 0) {
+    applicableRisks.push(...rules.defaultRisks)
+  }
+
+  return { applicableRisks, firedRules }
+}
+
+// Calculate base risk score based on system configuration
+export function calculateBaseRiskScore(userInputs: any, rules: ScoringRules = loadScoringRules()) {
+  const firedRules: FiredRule[] = []
+  const breakdown = createBreakdown('base', rules.baseScore, 'Base score')
+
+  rules.baseScoreRules.forEach(rule => {
+    if (matchesCondition(rule.when, userInputs)) {
+      addStep(breakdown, breakdown.finalScore + rule.delta, { type: 'rule', label: rule.description, ruleId: rule.id })
+      firedRules.push({ id: rule.id, description: rule.description, delta: rule.delta })
+    }
+  })
+
+  clampBreakdown(breakdown, rules.scoreRange.min, rules.scoreRange.max)
+
+  return { score: breakdown.finalScore, firedRules, breakdown }
+}
+
+// Per-risk scores: shared base score plus any risk-specific adjustments
+export function calculateRiskScores(userInputs: any, applicableRisks: string[], rules: ScoringRules = loadScoringRules()) {
+  const base = calculateBaseRiskScore(userInputs, rules)
+  const riskScores: Record<string, number> = {}
+  const scoreBreakdown: ScoreBreakdown = {}
+  const firedRules: FiredRule[] = [...base.firedRules]
+
+  applicableRisks.forEach(risk => {
+    const breakdown: RiskScoreBreakdown = {
+      risk,
+      steps: base.breakdown.steps.map(step => ({ ...step })),
+      finalScore: base.score
+    }
+
+    rules.riskAdjustments.forEach(rule => {
+      if (rule.risk === risk && matchesCondition(rule.when, userInputs)) {
+        const uncapped = breakdown.finalScore + rule.delta
+        const capped = rule.cap !== undefined && uncapped > rule.cap
+        addStep(breakdown, capped ? rule.cap : uncapped, {
+          type: 'rule',
+          label: capped ? `${rule.description} (capped at ${rule.cap})` : rule.description,
+          ruleId: rule.id
+        })
+        firedRules.push({ id: rule.id, description: rule.description, risk, delta: rule.delta, cap: rule.cap })
+      }
+    })
+
+    clampBreakdown(breakdown, rules.scoreRange.min, rules.scoreRange.max)
+    riskScores[risk] = breakdown.finalScore
+    scoreBreakdown[risk] = breakdown
+  })
+
+  return { riskScores, firedRules, scoreBreakdown }
+}
@@ -0,0 +1,101 @@
+// session.ts - Signed session cookies and the service token used by in-process jobs
+
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthUser } from './permissions'
+
+export const SESSION_COOKIE = 'finai_session'
+
+// Holds the state and PKCE verifier between GET /api/auth/login and the callback
+export const OIDC_STATE_COOKIE = 'finai_oidc'
+export const OIDC_STATE_SECONDS = 10 * 60
+
+const DEFAULT_SESSION_HOURS = 12
+
+// A fixed secret is only tolerated outside production so local development works without setup
+export function getSessionSecret(env: Record<string, string | undefined> = process.env): string {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET
+  if (env.NODE_ENV === 'production') throw new Error('SESSION_SECRET must be set in production')
+  return 'finai-development-session-secret'
+}
+
+function sign(value: string): string {
+  return crypto.createHmac('sha256', getSessionSecret()).update(value).digest('base64url')
+}
+
+// "<base64url JSON>.<HMAC>"; anything tampered with or expired reads back as undefined
+export function signPayload(payload: object, ttlSeconds: number): string {
+  const body = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + ttlSeconds * 1000 })).toString('base64url')
+  return `${body}.${sign(body)}`
+}
+
+export function verifyPayload<T>(value: string | undefined): T | undefined {
+  if (!value) return undefined
+  const [body, signature] = value.split('.')
+  if (!body || !signature) return undefined
+  const expected = Buffer.from(sign(body))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return undefined
+
+  const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+  return payload.exp > Date.now() ? payload : undefined
+}
+
+function getSessionSeconds(): number {
+  const hours = parseInt(process.env.SESSION_HOURS || '', 10)
+  return (hours > 0 ? hours : DEFAULT_SESSION_HOURS) * 60 * 60
+}
+
+export function setSessionCookie(response: NextResponse, user: AuthUser): NextResponse {
+  response.cookies.set(SESSION_COOKIE, signPayload({ user }, getSessionSeconds()), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: getSessionSeconds()
+  })
+  return response
+}
+
+export function clearSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 })
+  return response
+}
+
+// Where in-process jobs reach the app and links in emails and webhooks point
+export function getAppBaseUrl(): string {
+  return process.env.APP_BASE_URL || `http://localhost:${process.env.PORT || 3000}`
+}
+
+export function getCallbackUrl(request: NextRequest): string {
+  return `${process.env.APP_BASE_URL || request.nextUrl.origin}/api/auth/callback`
+}
+
+// Only same-site paths, so a crafted sign-in link cannot bounce the user elsewhere
+export function getReturnTo(value: string | null | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/'
+}
+
+export function readSessionUser(request: NextRequest): AuthUser | undefined {
+  return verifyPayload<{ user: AuthUser }>(request.cookies.get(SESSION_COOKIE)?.value)?.user
+}
+
+// Lets jobs call API routes: the reassessment scheduler inside the server process, or an external cron given SERVICE_API_TOKEN
+export function getServiceToken(): string {
+  if (process.env.SERVICE_API_TOKEN) return process.env.SERVICE_API_TOKEN
+  return crypto.createHmac('sha256', getSessionSecret()).update('finai-service-token').digest('base64url')
+}
+
+export const serviceUser: AuthUser = {
+  id: 'system',
+  name: 'FinAIReadiness scheduler',
+  email: '',
+  roles: ['admin']
+}
+
+export function readServiceUser(request: NextRequest): AuthUser | undefined {
+  const header = request.headers.get('authorization') || ''
+  const expected = Buffer.from(`Bearer ${getServiceToken()}`)
+  const actual = Buffer.from(header)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? serviceUser : undefined
+}
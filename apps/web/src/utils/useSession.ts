@@ -0,0 +1,32 @@
+// useSession.ts - The signed-in user for client components, loaded once per page from /api/auth/session
+
+import { useEffect, useState } from 'react'
+import { AuthUser } from './permissions'
+
+let sessionRequest: Promise<AuthUser | null> | null = null
+
+function loadSession(): Promise<AuthUser | null> {
+  sessionRequest = sessionRequest || fetch('/api/auth/session')
+    .then(response => response.ok ? response.json() : null)
+    .then(data => data?.user || null)
+    .catch(() => null)
+  return sessionRequest
+}
+
+export function useSession(): AuthUser | null {
+  const [user, setUser] = useState<AuthUser | null>(null)
+
+  useEffect(() => {
+    let active = true
+    loadSession().then(loaded => { if (active) setUser(loaded) })
+    return () => { active = false }
+  }, [])
+
+  return user
+}
+
+export async function signOut(): Promise<void> {
+  await fetch('/api/auth/logout', { method: 'POST' }).catch(() => null)
+  sessionRequest = null
+  window.location.href = '/login'
+}
@@ -0,0 +1,165 @@
+// webhookDispatcher.ts - Signs and sends webhook deliveries, retrying failures with exponential backoff
+// Deliveries are stored before the first attempt so retries survive a restart; receivers get each event at least once
+
+import crypto from 'crypto'
+import { StoredAssessment, getReview, getSchedule } from './assessmentStore'
+import { getOrganizationId } from './organization'
+import { getAppBaseUrl } from './session'
+import { createDelivery, getDelivery, getSubscription, listDueDeliveries, listSubscriptions, recordAttempt } from './webhookStore'
+import { WebhookAssessmentSummary, WebhookDelivery, WebhookEvent, WebhookPayload } from './webhooks'
+
+export const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 6
+
+const RETRY_BASE_SECONDS = 30 // 30 s, 2 min, 8 min, 32 min, ~2 h between attempts
+const REQUEST_TIMEOUT_MS = 10 * 1000
+const DISPATCH_INTERVAL_SECONDS = 15
+
+export function getWebhookMaxAttempts(env: Record<string, string | undefined> = process.env): number {
+  const attempts = parseInt(env.WEBHOOK_MAX_ATTEMPTS || '', 10)
+  return attempts > 0 ? attempts : DEFAULT_WEBHOOK_MAX_ATTEMPTS
+}
+
+// Wait after the given number of failed attempts
+export function getRetryDelaySeconds(failedAttempts: number): number {
+  return RETRY_BASE_SECONDS * Math.pow(4, failedAttempts - 1)
+}
+
+// X-FinAI-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">; the timestamp lets receivers reject replays
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${signature}`
+}
+
+export function summarizeForWebhook(stored: StoredAssessment): WebhookAssessmentSummary {
+  const gapAnalysis = stored.assessment.gapAnalysis
+  return {
+    id: stored.id,
+    url: `${getAppBaseUrl()}/assessments/${stored.id}`,
+    productName: stored.productName,
+    assessmentType: stored.assessmentType,
+    createdAt: stored.createdAt,
+    overallRiskScore: stored.assessment.overallRiskScore,
+    riskScores: stored.assessment.riskScores,
+    assessedRisks: stored.assessment.assessedRisks || [],
+    reviewStatus: getReview(stored).status,
+    reassessmentDueAt: getSchedule(stored).dueAt,
+    gapAnalysis: gapAnalysis && {
+      implementedControls: gapAnalysis.implementedControls,
+      partialControls: gapAnalysis.partialControls,
+      notApplicableControls: gapAnalysis.notApplicableControls,
+      acceptedControls: gapAnalysis.acceptedControls || 0,
+      totalControls: gapAnalysis.totalControls,
+      gapPercentage: gapAnalysis.gapPercentage,
+      riskReduction: gapAnalysis.riskReduction
+    }
+  }
+}
+
+// Deliveries this process is sending, so the dispatcher and an immediate send never overlap
+const inFlight = new Set<string>()
+
+export async function attemptDelivery(id: string, maxAttempts: number = getWebhookMaxAttempts()): Promise<WebhookDelivery | undefined> {
+  const delivery = getDelivery(id)
+  if (!delivery || delivery.status !== 'pending' || inFlight.has(id)) return delivery
+  inFlight.add(id)
+
+  const startedAt = new Date()
+  const failedAttempts = delivery.attempts.length + 1
+  const retryAt = failedAttempts < maxAttempts
+    ? new Date(startedAt.getTime() + getRetryDelaySeconds(failedAttempts) * 1000).toISOString()
+    : undefined
+
+  try {
+    const subscription = getSubscription(delivery.subscriptionId)
+    if (!subscription) {
+      return recordAttempt(id, { at: startedAt.toISOString(), error: 'Subscription was deleted', durationMs: 0 }, false)
+    }
+
+    // Signed with the current secret, so retries after a rotation verify against the new one
+    const body = JSON.stringify(delivery.payload)
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'FinAIReadiness-Webhooks/1.0',
+          'X-FinAI-Event': delivery.event,
+          'X-FinAI-Delivery': delivery.id,
+          'X-FinAI-Signature': signWebhookBody(subscription.secret, Math.floor(Date.now() / 1000), body)
+        },
+        body,
+        signal: controller.signal
+      })
+      const attempt = {
+        at: startedAt.toISOString(),
+        statusCode: response.status,
+        error: response.ok ? undefined : `Receiver answered ${response.status}`,
+        durationMs: Date.now() - startedAt.getTime()
+      }
+      return recordAttempt(id, attempt, response.ok, response.ok ? undefined : retryAt)
+    } catch (error) {
+      const message = controller.signal.aborted ? `No response within ${REQUEST_TIMEOUT_MS / 1000} s` : error instanceof Error ? error.message : String(error)
+      return recordAttempt(id, { at: startedAt.toISOString(), error: message, durationMs: Date.now() - startedAt.getTime() }, false, retryAt)
+    } finally {
+      clearTimeout(timeout)
+    }
+  } finally {
+    inFlight.delete(id)
+  }
+}
+
+function send(delivery: WebhookDelivery) {
+  attemptDelivery(delivery.id).catch(error => console.error(`Webhook delivery ${delivery.id} failed:`, error))
+}
+
+// Queues a delivery to every active subscription of the assessment's organization and sends them right away
+export function emitWebhookEvent(event: WebhookEvent, stored: StoredAssessment, data: Omit<WebhookPayload['data'], 'assessment'> = {}): WebhookDelivery[] {
+  const subscriptions = listSubscriptions({ orgId: getOrganizationId(stored), event, activeOnly: true })
+  if (subscriptions.length === 0) return []
+
+  const payload: WebhookPayload = {
+    id: crypto.randomUUID(),
+    type: event,
+    createdAt: new Date().toISOString(),
+    data: { assessment: summarizeForWebhook(stored), ...data }
+  }
+  const deliveries = subscriptions.map(subscription => createDelivery(subscription, payload))
+  deliveries.forEach(send)
+  return deliveries
+}
+
+// Sends the same event again as a new delivery; undefined once the subscription is deleted
+export function replayDelivery(delivery: WebhookDelivery): WebhookDelivery | undefined {
+  const subscription = getSubscription(delivery.subscriptionId)
+  if (!subscription) return undefined
+  const replay = createDelivery(subscription, delivery.payload, delivery.id)
+  send(replay)
+  return replay
+}
+
+export async function runDueDeliveries(now: Date = new Date()): Promise<number> {
+  const due = listDueDeliveries(now)
+  for (const delivery of due) {
+    await attemptDelivery(delivery.id)
+  }
+  return due.length
+}
+
+let dispatcherTimer: ReturnType<typeof setInterval> | undefined
+
+// Retries run from here; WEBHOOK_MAX_ATTEMPTS (default 6) bounds attempts per delivery
+export function startWebhookDispatcher() {
+  if (dispatcherTimer) return
+
+  let running = false
+  dispatcherTimer = setInterval(() => {
+    if (running) return
+    running = true
+    runDueDeliveries()
+      .catch(error => console.error('Webhook dispatch failed:', error))
+      .finally(() => { running = false })
+  }, DISPATCH_INTERVAL_SECONDS * 1000)
+  dispatcherTimer.unref?.()
+}
@@ -0,0 +1,113 @@
+// webhookStore.ts - Persisted webhook subscriptions and their delivery log
+
+import crypto from 'crypto'
+import { createJsonStore } from './jsonStore'
+import { getOrganizationId } from './organization'
+import { WebhookAttempt, WebhookDelivery, WebhookEvent, WebhookPayload, WebhookSubscription, WebhookSubscriptionInput } from './webhooks'
+
+const subscriptions = createJsonStore<WebhookSubscription>('webhookSubscriptions')
+const deliveries = createJsonStore<WebhookDelivery>('webhookDeliveries')
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`
+}
+
+// API view: the secret is only shown when it is generated
+export function toSubscriptionView(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> {
+  const { secret, ...view } = subscription
+  return view
+}
+
+export function listSubscriptions(filter: { orgId?: string, event?: WebhookEvent, activeOnly?: boolean } = {}): WebhookSubscription[] {
+  return subscriptions.list()
+    .filter(subscription => !filter.orgId || getOrganizationId(subscription) === filter.orgId)
+    .filter(subscription => !filter.event || subscription.events.includes(filter.event))
+    .filter(subscription => !filter.activeOnly || subscription.active)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export function getSubscription(id: string): WebhookSubscription | undefined {
+  return subscriptions.get(id)
+}
+
+export function createSubscription(input: Partial<WebhookSubscriptionInput>, orgId: string): WebhookSubscription {
+  const now = new Date().toISOString()
+  return subscriptions.save({
+    id: crypto.randomUUID(),
+    orgId,
+    url: input.url!,
+    events: input.events!,
+    description: input.description,
+    active: input.active ?? true,
+    secret: generateSecret(),
+    createdAt: now,
+    updatedAt: now
+  })
+}
+
+export function updateSubscription(id: string, input: Partial<WebhookSubscriptionInput>): WebhookSubscription | undefined {
+  const subscription = subscriptions.get(id)
+  if (!subscription) return undefined
+  return subscriptions.save({ ...subscription, ...input, updatedAt: new Date().toISOString() })
+}
+
+export function rotateSecret(id: string): WebhookSubscription | undefined {
+  const subscription = subscriptions.get(id)
+  if (!subscription) return undefined
+  return subscriptions.save({ ...subscription, secret: generateSecret(), updatedAt: new Date().toISOString() })
+}
+
+// The delivery log is kept; its entries can no longer be replayed
+export function removeSubscription(id: string): boolean {
+  return subscriptions.remove(id)
+}
+
+export function createDelivery(subscription: WebhookSubscription, payload: WebhookPayload, replayOf?: string): WebhookDelivery {
+  const now = new Date().toISOString()
+  return deliveries.save({
+    id: crypto.randomUUID(),
+    subscriptionId: subscription.id,
+    orgId: subscription.orgId,
+    url: subscription.url,
+    event: payload.type,
+    payload,
+    status: 'pending',
+    attempts: [],
+    nextAttemptAt: now,
+    replayOf,
+    createdAt: now
+  })
+}
+
+export function getDelivery(id: string): WebhookDelivery | undefined {
+  return deliveries.get(id)
+}
+
+// Newest first
+export function listDeliveries(filter: { orgId?: string, subscriptionId?: string, status?: string, limit?: number } = {}): WebhookDelivery[] {
+  return deliveries.list()
+    .filter(delivery => !filter.orgId || getOrganizationId(delivery) === filter.orgId)
+    .filter(delivery => !filter.subscriptionId || delivery.subscriptionId === filter.subscriptionId)
+    .filter(delivery => !filter.status || delivery.status === filter.status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filter.limit)
+}
+
+// Pending deliveries whose next attempt is due, oldest first
+export function listDueDeliveries(now: Date = new Date()): WebhookDelivery[] {
+  return deliveries.list()
+    .filter(delivery => delivery.status === 'pending' && (!delivery.nextAttemptAt || delivery.nextAttemptAt <= now.toISOString()))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+// nextAttemptAt undefined means no more attempts: the delivery failed unless this attempt succeeded
+export function recordAttempt(id: string, attempt: WebhookAttempt, succeeded: boolean, nextAttemptAt?: string): WebhookDelivery | undefined {
+  const delivery = deliveries.get(id)
+  if (!delivery) return undefined
+  return deliveries.save({
+    ...delivery,
+    attempts: [...delivery.attempts, attempt],
+    status: succeeded ? 'succeeded' : nextAttemptAt ? 'pending' : 'failed',
+    nextAttemptAt: succeeded ? undefined : nextAttemptAt
+  })
+}
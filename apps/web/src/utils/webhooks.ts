@@ -0,0 +1,127 @@
+// webhooks.ts - Outbound webhooks telling downstream systems (GRC tools, model inventories) about assessment events
+// Shared by the API and the webhooks page, so no server-only imports here
+
+export type WebhookEvent = 'assessment.completed' | 'assessment.approved' | 'assessment.stale'
+
+export const webhookEventLabels: Record<WebhookEvent, string> = {
+  'assessment.completed': 'Assessment completed',
+  'assessment.approved': 'Assessment approved',
+  'assessment.stale': 'Assessment went stale'
+}
+
+export interface WebhookSubscription {
+  id: string
+  orgId?: string // Only the organization's own assessments are sent
+  url: string
+  events: WebhookEvent[]
+  description?: string
+  active: boolean
+  secret: string // HMAC-SHA256 key for the X-FinAI-Signature header; never returned after creation or rotation
+  createdAt: string
+  updatedAt: string
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export const webhookDeliveryStatusLabels: Record<WebhookDeliveryStatus, string> = {
+  pending: 'Pending',
+  succeeded: 'Delivered',
+  failed: 'Failed'
+}
+
+export interface WebhookAttempt {
+  at: string
+  statusCode?: number // Missing when no response came back
+  error?: string
+  durationMs: number
+}
+
+export interface WebhookDelivery {
+  id: string // Sent as X-FinAI-Delivery
+  subscriptionId: string
+  orgId?: string
+  url: string // Where it was sent, kept if the subscription changes
+  event: WebhookEvent
+  payload: WebhookPayload
+  status: WebhookDeliveryStatus // pending until delivered or out of attempts
+  attempts: WebhookAttempt[]
+  nextAttemptAt?: string // Set while pending
+  replayOf?: string // Delivery this one re-sends
+  createdAt: string
+}
+
+// Assessment summary in every payload
+export interface WebhookAssessmentSummary {
+  id: string
+  url: string // Report page in the app
+  productName: string
+  assessmentType: 'standard' | 'gap_analysis'
+  createdAt: string
+  overallRiskScore: number
+  riskScores: Record<string, number>
+  assessedRisks: string[]
+  reviewStatus: string
+  reassessmentDueAt: string
+  gapAnalysis?: {
+    implementedControls: number
+    partialControls: number
+    notApplicableControls: number
+    acceptedControls: number
+    totalControls: number
+    gapPercentage: number
+    riskReduction: number
+  }
+}
+
+// Body of every delivery; receivers should de-duplicate on id, since replays and retries resend it
+export interface WebhookPayload {
+  id: string // Event ID, shared by every delivery of the event
+  type: WebhookEvent
+  createdAt: string
+  data: {
+    assessment: WebhookAssessmentSummary
+    review?: { status: string, actor?: { name: string, email?: string }, note?: string } // assessment.approved
+    staleness?: { reasons: string[], changedFiles: string[], since: string } // assessment.stale
+  }
+}
+
+export type WebhookSubscriptionInput = Pick<WebhookSubscription, 'url' | 'events' | 'description' | 'active'>
+
+// Validates POST and PUT /api/webhooks bodies; PUT may leave fields out to keep them
+export function parseWebhookSubscription(body: any, partial: boolean = false): { input?: Partial<WebhookSubscriptionInput>, fieldErrors: Record<string, string> } {
+  const fieldErrors: Record<string, string> = {}
+  const input: Partial<WebhookSubscriptionInput> = {}
+
+  if (body.url !== undefined || !partial) {
+    let url: URL | undefined
+    try {
+      url = new URL(String(body.url || ''))
+    } catch {
+      url = undefined
+    }
+    if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) fieldErrors.url = 'Must be an http:// or https:// URL'
+    else input.url = url.toString()
+  }
+
+  if (body.events !== undefined || !partial) {
+    if (!Array.isArray(body.events) || body.events.length === 0) {
+      fieldErrors.events = 'Choose at least one event'
+    } else {
+      const unknown = body.events.filter((event: any) => !Object.keys(webhookEventLabels).includes(event))
+      if (unknown.length > 0) fieldErrors.events = `Unknown event(s): ${unknown.join(', ')}`
+      else input.events = Array.from(new Set<WebhookEvent>(body.events))
+    }
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') fieldErrors.description = 'Must be text'
+    else input.description = body.description.trim() || undefined
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') fieldErrors.active = 'Must be true or false'
+    else input.active = body.active
+  }
+
+  return Object.keys(fieldErrors).length > 0 ? { fieldErrors } : { input, fieldErrors }
+}
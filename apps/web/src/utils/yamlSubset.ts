@@ -0,0 +1,233 @@
+// yamlSubset.ts - Parser for the block-style YAML used in assessment manifests
+// Supports nested mappings and sequences, comments, quoted and plain scalars, | and > block scalars and
+// single-line flow lists/maps; anchors, tags and multi-document files are not. Plain scalars follow YAML 1.2,
+// so yes and no stay strings (they are checklist answers)
+
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s'"#\-[{][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*))?$/
+
+function indentOf(line: string): number {
+  return line.match(/^ */)![0].length
+}
+
+// Drops a trailing "# comment" that is outside quotes
+function stripComment(text: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === '\\' && quote === '"') i++
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).replace(/\s+$/, '')
+    }
+  }
+  return text.replace(/\s+$/, '')
+}
+
+function unquote(text: string, fail: (message: string) => never): string {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text)
+    } catch {
+      return fail(`Invalid double-quoted string ${text}`)
+    }
+  }
+  return text.slice(1, -1).replace(/''/g, "'")
+}
+
+// Splits a flow collection's body on commas outside quotes
+function splitFlow(body: string, fail: (message: string) => never): string[] {
+  const parts: string[] = []
+  let quote: string | null = null
+  let current = ''
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]
+    if (quote) {
+      if (char === '\\' && quote === '"') current += body[i++]
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '[' || char === '{') {
+      fail('Nested flow collections are not supported; use block style')
+    } else if (char === ',') {
+      parts.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+function parseScalar(text: string, fail: (message: string) => never): any {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quote = text[0]
+    if (text.length < 2 || !text.endsWith(quote)) fail(`Unterminated string ${text}`)
+    return unquote(text, fail)
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) fail('Flow lists must close on the same line')
+    return splitFlow(text.slice(1, -1), fail).map(item => parseScalar(item, fail))
+  }
+  if (text.startsWith('{')) {
+    if (!text.endsWith('}')) fail('Flow maps must close on the same line')
+    const result: Record<string, any> = {}
+    splitFlow(text.slice(1, -1), fail).forEach(entry => {
+      const match = entry.match(KEY_PATTERN)
+      if (!match) fail(`Expected "key: value" in ${text}`)
+      const key = match![1].startsWith('"') || match![1].startsWith("'") ? unquote(match![1], fail) : match![1]
+      result[key] = match![2] === undefined ? null : parseScalar(match![2], fail)
+    })
+    return result
+  }
+  if (text.startsWith('&') || text.startsWith('*') || text.startsWith('!')) {
+    fail('Anchors, aliases and tags are not supported')
+  }
+  if (/^(null|Null|NULL|~)$/.test(text)) return null
+  if (/^(true|True|TRUE)$/.test(text)) return true
+  if (/^(false|False|FALSE)$/.test(text)) return false
+  if (/^[-+]?\d+$/.test(text)) return parseInt(text, 10)
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return parseFloat(text)
+  return text
+}
+
+export function parseYaml(source: string): any {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  let cursor = 0
+
+  const fail = (message: string): never => {
+    throw new Error(`Line ${cursor + 1}: ${message}`)
+  }
+
+  // Moves past blank and comment-only lines; false at the end of the file
+  const peek = (): boolean => {
+    while (cursor < lines.length) {
+      if (/^\s*(#.*)?$/.test(lines[cursor])) {
+        cursor++
+        continue
+      }
+      if (/^ *\t/.test(lines[cursor])) fail('Indent with spaces, not tabs')
+      return true
+    }
+    return false
+  }
+
+  const isSequenceItem = (content: string) => content === '-' || content.startsWith('- ')
+
+  // | keeps line breaks, > folds lines into spaces; a trailing - strips the final newline
+  const parseBlockScalar = (parentIndent: number, header: string): string => {
+    const folded = header.startsWith('>')
+    const chomp = header.slice(1)
+    const body: string[] = []
+    let blockIndent = -1
+    while (cursor < lines.length) {
+      const line = lines[cursor]
+      if (line.trim() === '') {
+        body.push('')
+        cursor++
+        continue
+      }
+      const indent = indentOf(line)
+      if (indent <= parentIndent) break
+      if (blockIndent === -1) blockIndent = indent
+      if (indent < blockIndent) fail('Block scalar lines must keep their indentation')
+      body.push(line.slice(blockIndent))
+      cursor++
+    }
+    while (body.length > 0 && body[body.length - 1] === '' && chomp !== '+') body.pop()
+
+    const text = folded
+      ? body.reduce((joined, line, i) => {
+        if (i === 0) return line
+        if (line === '') return joined + '\n'
+        return joined + (body[i - 1] === '' ? '' : ' ') + line
+      }, '')
+      : body.join('\n')
+    return chomp === '-' ? text : text + '\n'
+  }
+
+  // Value on the lines after "key:" or a bare "-"; a list may sit at the key's own indent
+  const parseNested = (parentIndent: number, allowSameIndentList: boolean): any => {
+    if (!peek()) return null
+    const indent = indentOf(lines[cursor])
+    const content = lines[cursor].slice(indent)
+    if (indent > parentIndent) return parseBlock()
+    if (allowSameIndentList && indent === parentIndent && isSequenceItem(content)) return parseSequence(indent)
+    return null
+  }
+
+  const parseValue = (rest: string, indent: number, allowSameIndentList: boolean): any => {
+    if (rest === '') {
+      cursor++
+      return parseNested(indent, allowSameIndentList)
+    }
+    if (/^[|>][-+]?$/.test(rest)) {
+      cursor++
+      return parseBlockScalar(indent, rest)
+    }
+    const value = parseScalar(rest, fail)
+    cursor++
+    return value
+  }
+
+  const parseMapping = (indent: number): Record<string, any> => {
+    const result: Record<string, any> = {}
+    while (peek()) {
+      const lineIndent = indentOf(lines[cursor])
+      if (lineIndent < indent) break
+      if (lineIndent > indent) fail('Unexpected indentation')
+
+      const content = stripComment(lines[cursor].slice(indent))
+      if (isSequenceItem(content)) fail('Unexpected list item; lists belong under a key')
+      const match = content.match(KEY_PATTERN)
+      if (!match) fail('Expected "key: value"')
+
+      const key = match![1].startsWith('"') || match![1].startsWith("'") ? unquote(match![1], fail) : match![1]
+      if (Object.prototype.hasOwnProperty.call(result, key)) fail(`Duplicate key "${key}"`)
+      result[key] = parseValue((match![2] || '').trim(), indent, true)
+    }
+    return result
+  }
+
+  const parseSequence = (indent: number): any[] => {
+    const items: any[] = []
+    while (peek()) {
+      const lineIndent = indentOf(lines[cursor])
+      if (lineIndent < indent) break
+      if (lineIndent > indent) fail('Unexpected indentation')
+
+      const content = lines[cursor].slice(indent)
+      if (!isSequenceItem(content)) break
+      const rest = stripComment(content.slice(1)).trim()
+      if (KEY_PATTERN.test(rest) || isSequenceItem(rest)) {
+        // "- key: value" or "- - item" starts a block indented past the dash; re-read the line as its first entry
+        const itemIndent = indent + 1 + indentOf(content.slice(1))
+        lines[cursor] = ' '.repeat(itemIndent) + content.slice(itemIndent - indent)
+        items.push(parseBlock())
+      } else {
+        items.push(parseValue(rest, indent, false))
+      }
+    }
+    return items
+  }
+
+  const parseBlock = (): any => {
+    const indent = indentOf(lines[cursor])
+    return isSequenceItem(lines[cursor].slice(indent)) ? parseSequence(indent) : parseMapping(indent)
+  }
+
+  if (!peek()) return null
+  if (lines[cursor].trim() === '---') {
+    cursor++
+    if (!peek()) return null
+  }
+  const indent = indentOf(lines[cursor])
+  const value = parseBlock()
+  if (peek()) {
+    fail(indentOf(lines[cursor]) < indent ? 'Unexpected indentation' : 'Unexpected content')
+  }
+  return value
+}